@@ -1295,7 +1295,7 @@ WorkingDirectory=$INSTALL_DIR
 Environment=DENO_INSTALL=/usr/local/deno
 Environment=PATH=/usr/local/deno/bin:/usr/local/bin:/usr/bin:/bin
 EnvironmentFile=-$CONFIG_FILE
-ExecStart=$deno_path run --allow-net --allow-env --no-prompt server.ts
+ExecStart=$deno_path run --allow-net --allow-env --allow-read --allow-write --unstable-kv --no-prompt server.ts
 ExecReload=/bin/bash -c 'PORT=\$(grep "^PORT=" $CONFIG_FILE | cut -d"=" -f2); API_KEY=\$(grep "^API_KEY=" $CONFIG_FILE | cut -d"=" -f2); curl -s "http://localhost:\$PORT/_api/reload-config?key=\$API_KEY" || /bin/kill -HUP \$MAINPID'
 Restart=always
 RestartSec=10
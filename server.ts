@@ -6,1334 +6,8942 @@
  * 项目: https://github.com/bestZwei/ciao-cors
  */
 
+/// <reference lib="deno.unstable" />
+
 // ==================== 配置管理模块 ====================
 interface Config {
   port: number;
+  // 管理端口：配置后管理API和控制台只在此端口提供
+  adminPort?: number;
   allowedOrigins: string[];
   blockedIPs: string[];
   blockedDomains: string[];
   allowedDomains: string[];
+  corsAllowCredentials: boolean;
+  corsAllowedMethods: string[];
+  corsAllowedHeaders: string[];
+  corsExposedHeaders: string[];
+  corsMaxAge: number;
+  corsAllowPrivateNetwork: boolean;
+  // 加载配置时编译的匹配器
+  allowedOriginMatcher: OriginMatcher;
+  blockedIPMatcher: CidrTrie;
+  trustedCallerMatcher: CidrTrie;
+  trustedProxyMatcher: CidrTrie;
+  blockedDomainMatcher: DomainMatcher;
+  allowedDomainMatcher: DomainMatcher;
   rateLimit: number;
   rateLimitWindow: number;
+  rateLimitAlgorithm: RateLimitAlgorithmName;
   concurrentLimit: number;
   totalConcurrentLimit: number;
+  enableAbuseDetection: boolean;
+  abuseScoreThreshold: number;
+  abuseBanDurations: number[];
   apiKey?: string;
+  dashboardSessionTTL: number;
+  clientKeysFile?: string;
+  rulesFile?: string;
+  requireClientKey: boolean;
   enableStats: boolean;
   enableLogging: boolean;
   logWebhook?: string;
+  logLevel: LogLevel;
+  logFormat: 'text' | 'json';
+  logFile?: string;
+  logFileLevel: LogLevel;
+  logFileMaxSize: number;
+  logFileRotate: 'daily' | 'hourly' | 'none';
+  logFileRetention: number;
+  logWebhookLevel: LogLevel;
+  logWebhookSecret?: string;
+  logWebhookQueueSize: number;
+  logWebhookMaxRetries: number;
+  logWebhookDeadLetterFile?: string;
+  enableMetrics: boolean;
+  metricsMaxDomains: number;
+  trustedCallers: string[];
+  trustedProxies: string[];
+  otlpEndpoint?: string;
   maxUrlLength: number;
+  maxBodySize: number;
   timeout: number;
+  maxRetries: number;
+  retryMethods: string[];
+  retryMaxBodySize: number;
+  retryBaseDelay: number;
+  retryMaxDelay: number;
+  retryBudgetPercent: number;
+  retryBudgetMin: number;
+  enableCircuitBreaker: boolean;
+  circuitFailureThreshold: number;
+  circuitErrorRate: number;
+  circuitMinRequests: number;
+  circuitWindow: number;
+  circuitOpenDuration: number;
+  circuitHalfOpenRequests: number;
+  upstreamConnectTimeout: number;
+  upstreamIdleTimeout: number;
+  upstreamTotalTimeout: number;
   requireHeaders: boolean;
+  resolveDns: boolean;
+  dnsCacheTTL: number;
+  cacheTTL: number;
+  cacheMaxBytes: number;
+  cacheMaxEntrySize: number;
+  cacheDir?: string;
+  cacheDiskMaxBytes: number;
+  cacheDiskMaxEntrySize: number;
+  maxRedirects: number;
+  redirectMode: 'follow' | 'passthrough';
+  policyRules: PolicyRule[];
+  policyEngine: PolicyEngine;
+  responseHeaderProfile: ResponseHeaderProfile;
+  egressProxies: EgressRule[];
+  egressFailureThreshold: number;
+  egressUnhealthyDuration: number;
+  enableWebSocket: boolean;
+  wsMaxConnections: number;
+  wsMaxConnectionsPerIP: number;
+  wsMaxMessageSize: number;
+  wsIdleTimeout: number;
+  stateBackend: 'memory' | 'kv';
+  kvPath?: string;
+  // 配置文件路径（来自 CONFIG_FILE 环境变量）
+  configFile?: string;
+}
+
+// 由其他字段编译或推导得到、不能直接配置的字段
+type DerivedConfigKey = 'allowedOriginMatcher' | 'blockedIPMatcher' | 'trustedCallerMatcher' | 'trustedProxyMatcher' |
+  'blockedDomainMatcher' | 'allowedDomainMatcher' | 'policyEngine' | 'configFile';
+type ConfigValues = Omit<Config, DerivedConfigKey>;
+
+interface ConfigFieldSchema {
+  // 对应的环境变量名
+  env: string;
+  type: 'integer' | 'boolean' | 'string' | 'string[]' | 'json';
+  default?: unknown;
+  min?: number;
+  max?: number;
+  // 字符串枚举值（不区分大小写）
+  values?: readonly string[];
+  // json类型字段的校验函数，返回规范化后的值（环境变量中为JSON字符串）
+  validate?: (value: unknown, path: string, errors: string[]) => unknown;
 }
 
 /**
- * 加载和解析环境变量配置
- * 支持JSON格式的复杂配置和简单的字符串配置
+ * 配置项定义：配置文件使用字段名，环境变量使用env中的名称
+ * 优先级：环境变量 > 配置文件 > 默认值
  */
-function loadConfig(): Config {
-  const parseArray = (str?: string): string[] => {
-    if (!str) return [];
-    try {
-      const parsed = JSON.parse(str);
-      // 验证解析结果是数组且所有元素都是字符串
-      if (Array.isArray(parsed) && parsed.every(item => typeof item === 'string')) {
-        return parsed.filter(Boolean);
-      } else {
-        console.warn(`Invalid JSON array format: ${str}, falling back to comma-separated parsing`);
-        return str.split(',').map(s => s.trim()).filter(Boolean);
+const CONFIG_SCHEMA: { [K in keyof ConfigValues]-?: ConfigFieldSchema } = {
+  port: { env: 'PORT', type: 'integer', default: 3000, min: 1, max: 65535 },
+  adminPort: { env: 'ADMIN_PORT', type: 'integer', min: 1, max: 65535 },
+  allowedOrigins: { env: 'ALLOWED_ORIGINS', type: 'string[]', default: [] },
+  blockedIPs: { env: 'BLOCKED_IPS', type: 'string[]', default: [] },
+  blockedDomains: { env: 'BLOCKED_DOMAINS', type: 'string[]', default: [] },
+  allowedDomains: { env: 'ALLOWED_DOMAINS', type: 'string[]', default: [] },
+  corsAllowCredentials: { env: 'CORS_ALLOW_CREDENTIALS', type: 'boolean', default: false },
+  corsAllowedMethods: {
+    env: 'CORS_ALLOWED_METHODS',
+    type: 'string[]',
+    default: ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS']
+  },
+  corsAllowedHeaders: {
+    env: 'CORS_ALLOWED_HEADERS',
+    type: 'string[]',
+    default: ['Accept', 'Authorization', 'Cache-Control', 'Content-Type', 'DNT', 'If-Modified-Since', 'Keep-Alive',
+      'Origin', 'User-Agent', 'X-Requested-With', 'Token', 'x-access-token', 'X-Client-Key']
+  },
+  corsExposedHeaders: { env: 'CORS_EXPOSED_HEADERS', type: 'string[]', default: ['*'] },
+  corsMaxAge: { env: 'CORS_MAX_AGE', type: 'integer', default: 86400, min: 0 },
+  corsAllowPrivateNetwork: { env: 'CORS_ALLOW_PRIVATE_NETWORK', type: 'boolean', default: false },
+  rateLimit: { env: 'RATE_LIMIT', type: 'integer', default: 2500, min: 0 },
+  rateLimitWindow: { env: 'RATE_LIMIT_WINDOW', type: 'integer', default: 60000, min: 1 },
+  rateLimitAlgorithm: {
+    env: 'RATE_LIMIT_ALGORITHM',
+    type: 'string',
+    default: 'sliding-window',
+    values: ['sliding-window', 'token-bucket', 'gcra']
+  },
+  concurrentLimit: { env: 'CONCURRENT_LIMIT', type: 'integer', default: 10, min: 0 },
+  totalConcurrentLimit: { env: 'TOTAL_CONCURRENT_LIMIT', type: 'integer', default: 1000, min: 0 },
+  enableAbuseDetection: { env: 'ENABLE_ABUSE_DETECTION', type: 'boolean', default: true },
+  abuseScoreThreshold: { env: 'ABUSE_SCORE_THRESHOLD', type: 'integer', default: 100, min: 1 },
+  abuseBanDurations: {
+    env: 'ABUSE_BAN_DURATIONS',
+    type: 'json',
+    default: [300000, 3600000, 86400000],
+    validate: parseBanDurations
+  },
+  apiKey: { env: 'API_KEY', type: 'string' },
+  dashboardSessionTTL: { env: 'DASHBOARD_SESSION_TTL', type: 'integer', default: 43200000, min: 1 },
+  clientKeysFile: { env: 'CLIENT_KEYS_FILE', type: 'string' },
+  rulesFile: { env: 'RULES_FILE', type: 'string' },
+  requireClientKey: { env: 'REQUIRE_CLIENT_KEY', type: 'boolean', default: false },
+  enableStats: { env: 'ENABLE_STATS', type: 'boolean', default: true },
+  enableLogging: { env: 'ENABLE_LOGGING', type: 'boolean', default: true },
+  logWebhook: { env: 'LOG_WEBHOOK', type: 'string' },
+  logLevel: { env: 'LOG_LEVEL', type: 'string', default: 'info', values: ['debug', 'info', 'warn', 'error'] },
+  logFormat: { env: 'LOG_FORMAT', type: 'string', default: 'text', values: ['text', 'json'] },
+  logFile: { env: 'LOG_FILE', type: 'string' },
+  logFileLevel: { env: 'LOG_FILE_LEVEL', type: 'string', default: 'info', values: ['debug', 'info', 'warn', 'error'] },
+  logFileMaxSize: { env: 'LOG_FILE_MAX_SIZE', type: 'integer', default: 10485760, min: 0 },
+  logFileRotate: { env: 'LOG_FILE_ROTATE', type: 'string', default: 'daily', values: ['daily', 'hourly', 'none'] },
+  logFileRetention: { env: 'LOG_FILE_RETENTION', type: 'integer', default: 7, min: 0 },
+  logWebhookLevel: { env: 'LOG_WEBHOOK_LEVEL', type: 'string', default: 'info', values: ['debug', 'info', 'warn', 'error'] },
+  logWebhookSecret: { env: 'LOG_WEBHOOK_SECRET', type: 'string' },
+  logWebhookQueueSize: { env: 'LOG_WEBHOOK_QUEUE_SIZE', type: 'integer', default: 10000, min: 1 },
+  logWebhookMaxRetries: { env: 'LOG_WEBHOOK_MAX_RETRIES', type: 'integer', default: 5, min: 0 },
+  logWebhookDeadLetterFile: { env: 'LOG_WEBHOOK_DEAD_LETTER_FILE', type: 'string' },
+  enableMetrics: { env: 'ENABLE_METRICS', type: 'boolean', default: true },
+  metricsMaxDomains: { env: 'METRICS_MAX_DOMAINS', type: 'integer', default: 50, min: 0 },
+  trustedCallers: { env: 'TRUSTED_CALLERS', type: 'string[]', default: [] },
+  trustedProxies: { env: 'TRUSTED_PROXIES', type: 'string[]', default: [] },
+  otlpEndpoint: { env: 'OTLP_ENDPOINT', type: 'string' },
+  maxUrlLength: { env: 'MAX_URL_LENGTH', type: 'integer', default: 2048, min: 1 },
+  maxBodySize: { env: 'MAX_BODY_SIZE', type: 'integer', default: 10485760, min: 0 },
+  timeout: { env: 'TIMEOUT', type: 'integer', default: 30000, min: 1 },
+  maxRetries: { env: 'MAX_RETRIES', type: 'integer', default: 3, min: 0, max: 10 },
+  retryMethods: { env: 'RETRY_METHODS', type: 'string[]', default: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'] },
+  retryMaxBodySize: { env: 'RETRY_MAX_BODY_SIZE', type: 'integer', default: 1048576, min: 0 },
+  retryBaseDelay: { env: 'RETRY_BASE_DELAY', type: 'integer', default: 100, min: 1 },
+  retryMaxDelay: { env: 'RETRY_MAX_DELAY', type: 'integer', default: 10000, min: 0 },
+  retryBudgetPercent: { env: 'RETRY_BUDGET_PERCENT', type: 'integer', default: 20, min: 0, max: 100 },
+  retryBudgetMin: { env: 'RETRY_BUDGET_MIN', type: 'integer', default: 10, min: 0 },
+  enableCircuitBreaker: { env: 'ENABLE_CIRCUIT_BREAKER', type: 'boolean', default: true },
+  circuitFailureThreshold: { env: 'CIRCUIT_FAILURE_THRESHOLD', type: 'integer', default: 5, min: 1 },
+  circuitErrorRate: { env: 'CIRCUIT_ERROR_RATE', type: 'integer', default: 50, min: 1, max: 100 },
+  circuitMinRequests: { env: 'CIRCUIT_MIN_REQUESTS', type: 'integer', default: 20, min: 1 },
+  circuitWindow: { env: 'CIRCUIT_WINDOW', type: 'integer', default: 60000, min: 1000 },
+  circuitOpenDuration: { env: 'CIRCUIT_OPEN_DURATION', type: 'integer', default: 30000, min: 1000 },
+  circuitHalfOpenRequests: { env: 'CIRCUIT_HALF_OPEN_REQUESTS', type: 'integer', default: 1, min: 1 },
+  upstreamConnectTimeout: { env: 'UPSTREAM_CONNECT_TIMEOUT', type: 'integer', default: 10000, min: 0 },
+  upstreamIdleTimeout: { env: 'UPSTREAM_IDLE_TIMEOUT', type: 'integer', default: 60000, min: 0 },
+  upstreamTotalTimeout: { env: 'UPSTREAM_TOTAL_TIMEOUT', type: 'integer', default: 0, min: 0 },
+  requireHeaders: { env: 'REQUIRE_HEADERS', type: 'boolean', default: true },
+  resolveDns: { env: 'RESOLVE_DNS', type: 'boolean', default: true },
+  dnsCacheTTL: { env: 'DNS_CACHE_TTL', type: 'integer', default: 30000, min: 0 },
+  cacheTTL: { env: 'CACHE_TTL', type: 'integer', default: 60000, min: 0 },
+  cacheMaxBytes: { env: 'CACHE_MAX_BYTES', type: 'integer', default: 52428800, min: 0 },
+  cacheMaxEntrySize: { env: 'CACHE_MAX_ENTRY_SIZE', type: 'integer', default: 5242880, min: 0 },
+  cacheDir: { env: 'CACHE_DIR', type: 'string' },
+  cacheDiskMaxBytes: { env: 'CACHE_DISK_MAX_BYTES', type: 'integer', default: 1073741824, min: 0 },
+  cacheDiskMaxEntrySize: { env: 'CACHE_DISK_MAX_ENTRY_SIZE', type: 'integer', default: 52428800, min: 0 },
+  maxRedirects: { env: 'MAX_REDIRECTS', type: 'integer', default: 5, min: 0 },
+  redirectMode: { env: 'REDIRECT_MODE', type: 'string', default: 'follow', values: ['follow', 'passthrough'] },
+  policyRules: { env: 'POLICY_RULES', type: 'json', default: [], validate: parsePolicyRules },
+  responseHeaderProfile: { env: 'RESPONSE_HEADER_PROFILE', type: 'string', default: 'safe', values: ['safe', 'passthrough'] },
+  egressProxies: { env: 'EGRESS_PROXIES', type: 'json', default: [], validate: parseEgressRules },
+  egressFailureThreshold: { env: 'EGRESS_FAILURE_THRESHOLD', type: 'integer', default: 3, min: 1 },
+  egressUnhealthyDuration: { env: 'EGRESS_UNHEALTHY_DURATION', type: 'integer', default: 30000, min: 1000 },
+  enableWebSocket: { env: 'ENABLE_WEBSOCKET', type: 'boolean', default: true },
+  wsMaxConnections: { env: 'WS_MAX_CONNECTIONS', type: 'integer', default: 1000, min: 0 },
+  wsMaxConnectionsPerIP: { env: 'WS_MAX_CONNECTIONS_PER_IP', type: 'integer', default: 10, min: 0 },
+  wsMaxMessageSize: { env: 'WS_MAX_MESSAGE_SIZE', type: 'integer', default: 1048576, min: 1 },
+  wsIdleTimeout: { env: 'WS_IDLE_TIMEOUT', type: 'integer', default: 300000, min: 0 },
+  stateBackend: { env: 'STATE_BACKEND', type: 'string', default: 'memory', values: ['memory', 'kv'] },
+  kvPath: { env: 'KV_PATH', type: 'string' }
+};
+
+/**
+ * 配置校验失败，包含所有错误及其所在路径
+ */
+class ConfigError extends Error {
+  errors: string[];
+
+  constructor(errors: string[]) {
+    super(`Invalid configuration:\n  - ${errors.join('\n  - ')}`);
+    this.name = 'ConfigError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * 解析JSONC（允许注释和尾随逗号的JSON）
+ */
+function parseJsonc(text: string): unknown {
+  // 逐字符扫描，跳过字符串内容，移除注释和尾随逗号
+  let result = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (char === '"') {
+      let end = i + 1;
+      while (end < text.length && text[end] !== '"') {
+        end += text[end] === '\\' ? 2 : 1;
       }
-    } catch {
-      return str.split(',').map(s => s.trim()).filter(Boolean);
+      result += text.substring(i, end + 1);
+      i = end;
+    } else if (char === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') i++;
+      result += '\n';
+    } else if (char === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      const comment = end === -1 ? text.substring(i) : text.substring(i, end + 2);
+      // 保留换行，使JSON.parse的错误位置仍然对应原文件
+      result += comment.replace(/[^\n]/g, ' ');
+      i = end === -1 ? text.length : end + 1;
+    } else if (char === ',' && ['}', ']'].includes(text[skipJsonSpace(text, i + 1)])) {
+      result += ' ';
+    } else {
+      result += char;
+    }
+  }
+  return JSON.parse(result);
+}
+
+// 从start开始跳过空白和注释，返回下一个有效字符的位置，用于判断尾随逗号
+function skipJsonSpace(text: string, start: number): number {
+  let i = start;
+  while (i < text.length) {
+    if (/\s/.test(text[i])) {
+      i++;
+    } else if (text[i] === '/' && text[i + 1] === '/') {
+      const end = text.indexOf('\n', i + 2);
+      i = end === -1 ? text.length : end + 1;
+    } else if (text[i] === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      i = end === -1 ? text.length : end + 2;
+    } else {
+      break;
     }
+  }
+  return i;
+}
+
+/**
+ * 解析YAML配置（支持常用子集）
+ * 支持：映射、列表、`- key: value` 形式的对象列表、行内列表 `[a, b]`、引号字符串、数字、布尔值、null和注释
+ * 不支持：多行字符串（| 和 >）、锚点和多文档
+ */
+function parseYaml(text: string): unknown {
+  interface YamlLine { indent: number; content: string; line: number }
+  const lines: YamlLine[] = [];
+  const fail = (line: number, message: string): never => {
+    throw new Error(`YAML line ${line}: ${message}`);
   };
 
-  // 验证和清理配置值
-  const validatePort = (port: number): number => {
-    if (isNaN(port) || port < 1 || port > 65535) {
-      console.warn(`Invalid port ${port}, using default 3000`);
-      return 3000;
+  // 去除行内注释（# 前必须是空白，且不在引号内）
+  const stripComment = (raw: string): string => {
+    let quote: string | null = null;
+    for (let i = 0; i < raw.length; i++) {
+      const char = raw[i];
+      if (quote) {
+        if (char === quote) quote = null;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === '#' && (i === 0 || /\s/.test(raw[i - 1]))) {
+        return raw.substring(0, i);
+      }
     }
-    return port;
+    return raw;
   };
 
-  const validatePositiveInt = (value: number, defaultValue: number, name: string): number => {
-    if (isNaN(value) || value < 0) {
-      console.warn(`Invalid ${name} ${value}, using default ${defaultValue}`);
-      return defaultValue;
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const content = stripComment(raw).trimEnd();
+    if (!content.trim() || content.trim() === '---') return;
+    if (/^ *\t/.test(content)) fail(index + 1, 'tabs are not allowed for indentation');
+    lines.push({ indent: content.length - content.trimStart().length, content: content.trim(), line: index + 1 });
+  });
+
+  const mappingPattern = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s"'#\-[{][^:]*?|-[^\s:][^:]*?)\s*:(?:\s+(.*))?$/;
+  const isSequenceItem = (content: string) => content === '-' || content.startsWith('- ');
+
+  const parseScalar = (value: string, line: number): unknown => {
+    if (value.startsWith('"')) {
+      try {
+        return JSON.parse(value);
+      } catch {
+        return fail(line, `invalid double-quoted string ${value}`);
+      }
+    }
+    if (value.startsWith("'")) {
+      if (value.length < 2 || !value.endsWith("'")) fail(line, `unterminated string ${value}`);
+      return value.slice(1, -1).replace(/''/g, "'");
+    }
+    if (value.startsWith('[')) {
+      if (!value.endsWith(']')) fail(line, `unterminated flow sequence ${value}`);
+      const inner = value.slice(1, -1).trim();
+      if (!inner) return [];
+      const items: string[] = [];
+      let current = '';
+      let quote: string | null = null;
+      for (const char of inner) {
+        if (quote) {
+          if (char === quote) quote = null;
+        } else if (char === '"' || char === "'") {
+          quote = char;
+        } else if (char === '[' || char === '{') {
+          fail(line, 'nested flow collections are not supported');
+        } else if (char === ',') {
+          items.push(current.trim());
+          current = '';
+          continue;
+        }
+        current += char;
+      }
+      items.push(current.trim());
+      return items.map(item => parseScalar(item, line));
+    }
+    if (value.startsWith('{')) {
+      try {
+        return parseJsonc(value);
+      } catch {
+        return fail(line, 'flow mappings must be valid JSON');
+      }
+    }
+    if (value.startsWith('|') || value.startsWith('>')) {
+      return fail(line, 'block scalars are not supported');
     }
+    if (/^(true|false)$/i.test(value)) return value.toLowerCase() === 'true';
+    if (/^(null|~)$/i.test(value)) return null;
+    if (/^-?\d+$/.test(value)) return parseInt(value, 10);
+    if (/^-?\d*\.\d+(e[+-]?\d+)?$/i.test(value)) return parseFloat(value);
     return value;
   };
 
-  const config = {
-    port: validatePort(parseInt(Deno.env.get('PORT') || '3000')),
-    allowedOrigins: parseArray(Deno.env.get('ALLOWED_ORIGINS')),
-    blockedIPs: parseArray(Deno.env.get('BLOCKED_IPS')),
-    blockedDomains: parseArray(Deno.env.get('BLOCKED_DOMAINS')),
-    allowedDomains: parseArray(Deno.env.get('ALLOWED_DOMAINS')),
-    rateLimit: validatePositiveInt(parseInt(Deno.env.get('RATE_LIMIT') || '2500'), 2500, 'RATE_LIMIT'),
-    rateLimitWindow: validatePositiveInt(parseInt(Deno.env.get('RATE_LIMIT_WINDOW') || '60000'), 60000, 'RATE_LIMIT_WINDOW'),
-    concurrentLimit: validatePositiveInt(parseInt(Deno.env.get('CONCURRENT_LIMIT') || '10'), 10, 'CONCURRENT_LIMIT'),
-    totalConcurrentLimit: validatePositiveInt(parseInt(Deno.env.get('TOTAL_CONCURRENT_LIMIT') || '1000'), 1000, 'TOTAL_CONCURRENT_LIMIT'),
-    apiKey: Deno.env.get('API_KEY')?.trim() || undefined,
-    enableStats: Deno.env.get('ENABLE_STATS') !== 'false',
-    enableLogging: Deno.env.get('ENABLE_LOGGING') !== 'false',
-    logWebhook: Deno.env.get('LOG_WEBHOOK')?.trim() || undefined,
-    maxUrlLength: validatePositiveInt(parseInt(Deno.env.get('MAX_URL_LENGTH') || '2048'), 2048, 'MAX_URL_LENGTH'),
-    timeout: validatePositiveInt(parseInt(Deno.env.get('TIMEOUT') || '30000'), 30000, 'TIMEOUT'),
-    requireHeaders: Deno.env.get('REQUIRE_HEADERS') !== 'false'
-  };
+  const parseBlock = (start: number, indent: number): [unknown, number] => {
+    let i = start;
+
+    if (isSequenceItem(lines[start].content)) {
+      const items: unknown[] = [];
+      while (i < lines.length && lines[i].indent === indent && isSequenceItem(lines[i].content)) {
+        const { content, line } = lines[i];
+        const rest = content.substring(1).trim();
+        if (!rest) {
+          if (i + 1 < lines.length && lines[i + 1].indent > indent) {
+            const [value, next] = parseBlock(i + 1, lines[i + 1].indent);
+            items.push(value);
+            i = next;
+          } else {
+            items.push(null);
+            i++;
+          }
+        } else if (mappingPattern.test(rest)) {
+          // "- key: value" 视为缩进更深一层的映射
+          lines[i] = { indent: indent + content.length - rest.length, content: rest, line };
+          const [value, next] = parseBlock(i, lines[i].indent);
+          items.push(value);
+          i = next;
+        } else {
+          items.push(parseScalar(rest, line));
+          i++;
+        }
+      }
+      return [items, i];
+    }
 
-  // 验证数组配置的有效性
-  const validateArrayConfig = (arr: string[], name: string) => {
-    if (arr.some(item => typeof item !== 'string' || item.trim() === '')) {
-      console.warn(`Warning: ${name} contains invalid entries, filtering out empty values`);
-      return arr.filter(item => typeof item === 'string' && item.trim() !== '');
+    const result: Record<string, unknown> = {};
+    while (i < lines.length && lines[i].indent === indent) {
+      const { content, line } = lines[i];
+      const match = content.match(mappingPattern);
+      if (!match) fail(line, `expected "key: value", got "${content}"`);
+      const [, rawKey, value] = match!;
+      const key = String(parseScalar(rawKey, line));
+      i++;
+
+      if (value !== undefined && value !== '') {
+        result[key] = parseScalar(value, line);
+      } else if (i < lines.length && (lines[i].indent > indent ||
+        (lines[i].indent === indent && isSequenceItem(lines[i].content)))) {
+        const [nested, next] = parseBlock(i, lines[i].indent);
+        result[key] = nested;
+        i = next;
+      } else {
+        result[key] = null;
+      }
     }
-    return arr;
+    if (i < lines.length && lines[i].indent > indent) {
+      fail(lines[i].line, 'unexpected indentation');
+    }
+    return [result, i];
   };
 
-  config.allowedOrigins = validateArrayConfig(config.allowedOrigins, 'ALLOWED_ORIGINS');
-  config.blockedIPs = validateArrayConfig(config.blockedIPs, 'BLOCKED_IPS');
-  config.blockedDomains = validateArrayConfig(config.blockedDomains, 'BLOCKED_DOMAINS');
-  config.allowedDomains = validateArrayConfig(config.allowedDomains, 'ALLOWED_DOMAINS');
-
-  return config;
+  if (lines.length === 0) return {};
+  const [value, next] = parseBlock(0, lines[0].indent);
+  if (next < lines.length) fail(lines[next].line, 'unexpected indentation');
+  return value;
 }
 
-// ==================== 限制和安全模块 ====================
-class RateLimiter {
-  private requests: Map<string, number[]> = new Map();
-  private windowMs: number;
-  private maxRequests: number;
-  private cleanupTimer: number | null = null;
-  private isDestroyed: boolean = false;
+/**
+ * 读取配置文件，根据扩展名选择解析方式（.json/.jsonc/.yaml/.yml）
+ */
+function readConfigFile(path: string): Record<string, unknown> {
+  let text: string;
+  try {
+    text = Deno.readTextFileSync(path);
+  } catch (error) {
+    throw new ConfigError([`${path}: cannot read config file (${error instanceof Error ? error.message : error})`]);
+  }
 
-  constructor(windowMs: number, maxRequests: number) {
-    this.windowMs = windowMs;
-    this.maxRequests = maxRequests;
+  let parsed: unknown;
+  try {
+    parsed = /\.ya?ml$/i.test(path) ? parseYaml(text) : parseJsonc(text);
+  } catch (error) {
+    throw new ConfigError([`${path}: ${error instanceof Error ? error.message : error}`]);
+  }
 
-    // 定期清理过期记录，确保不会超过1分钟间隔
-    const cleanupInterval = Math.min(windowMs, 60000);
-    this.cleanupTimer = setInterval(() => {
-      if (!this.isDestroyed) {
-        this.cleanup();
-      }
-    }, cleanupInterval) as unknown as number;
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new ConfigError([`${path}: top level must be an object`]);
   }
+  return parsed as Record<string, unknown>;
+}
 
-  checkLimit(ip: string): boolean {
-    const now = Date.now();
-    const requests = this.requests.get(ip) || [];
-    
-    // 移除过期的请求记录
-    const validRequests = requests.filter(time => now - time < this.windowMs);
-    
-    if (validRequests.length >= this.maxRequests) {
-      return false;
+/**
+ * 加载配置：合并默认值、配置文件和环境变量，并按CONFIG_SCHEMA校验
+ * 任何字段无效时抛出ConfigError，列出全部错误及其路径
+ */
+function loadConfig(): Config {
+  const errors: string[] = [];
+  const configFile = Deno.env.get('CONFIG_FILE')?.trim() || undefined;
+  const fileValues = configFile ? readConfigFile(configFile) : {};
+
+  for (const key of Object.keys(fileValues)) {
+    if (!key.startsWith('$') && !(key in CONFIG_SCHEMA)) {
+      errors.push(`${configFile} $.${key}: unknown configuration field`);
     }
-    
-    validRequests.push(now);
-    this.requests.set(ip, validRequests);
-    return true;
   }
 
-  cleanup(): void {
-    const now = Date.now();
-    for (const [ip, requests] of this.requests.entries()) {
-      const validRequests = requests.filter(time => now - time < this.windowMs);
-      if (validRequests.length === 0) {
-        this.requests.delete(ip);
-      } else {
-        this.requests.set(ip, validRequests);
+  // 环境变量中的数组支持JSON格式和逗号分隔两种写法
+  const parseArray = (str: string, path: string): string[] | undefined => {
+    if (str.trim().startsWith('[')) {
+      try {
+        const parsed = JSON.parse(str);
+        if (Array.isArray(parsed) && parsed.every(item => typeof item === 'string')) {
+          return parsed.map(item => item.trim()).filter(Boolean);
+        }
+        errors.push(`${path}: expected a JSON array of strings`);
+        return undefined;
+      } catch {
+        // 不是合法JSON时按逗号分隔处理
+      }
+    }
+    return str.split(',').map(s => s.trim()).filter(Boolean);
+  };
+
+  const fromEnv = (schema: ConfigFieldSchema, raw: string, path: string): unknown => {
+    const value = raw.trim();
+    switch (schema.type) {
+      case 'integer':
+        if (!/^-?\d+$/.test(value)) {
+          errors.push(`${path}: expected an integer, got "${raw}"`);
+          return undefined;
+        }
+        return parseInt(value, 10);
+      case 'boolean':
+        if (!/^(true|false|1|0)$/i.test(value)) {
+          errors.push(`${path}: expected true or false, got "${raw}"`);
+          return undefined;
+        }
+        return /^(true|1)$/i.test(value);
+      case 'string':
+        return value || undefined;
+      case 'string[]':
+        return parseArray(raw, path);
+      case 'json':
+        try {
+          return JSON.parse(value);
+        } catch {
+          errors.push(`${path}: expected valid JSON`);
+          return undefined;
+        }
+    }
+  };
+
+  const checkValue = (schema: ConfigFieldSchema, value: unknown, path: string): unknown => {
+    switch (schema.type) {
+      case 'integer':
+        if (typeof value !== 'number' || !Number.isInteger(value)) {
+          errors.push(`${path}: expected an integer, got ${JSON.stringify(value)}`);
+          return undefined;
+        }
+        if ((schema.min !== undefined && value < schema.min) || (schema.max !== undefined && value > schema.max)) {
+          const range = schema.max !== undefined ? `between ${schema.min} and ${schema.max}` : `>= ${schema.min}`;
+          errors.push(`${path}: expected an integer ${range}, got ${value}`);
+          return undefined;
+        }
+        return value;
+      case 'boolean':
+        if (typeof value !== 'boolean') {
+          errors.push(`${path}: expected a boolean, got ${JSON.stringify(value)}`);
+          return undefined;
+        }
+        return value;
+      case 'string':
+        if (typeof value !== 'string') {
+          errors.push(`${path}: expected a string, got ${JSON.stringify(value)}`);
+          return undefined;
+        }
+        if (schema.values) {
+          const normalized = value.trim().toLowerCase();
+          if (!schema.values.includes(normalized)) {
+            errors.push(`${path}: expected one of ${schema.values.join(', ')}, got "${value}"`);
+            return undefined;
+          }
+          return normalized;
+        }
+        return value.trim() || undefined;
+      case 'string[]': {
+        if (!Array.isArray(value)) {
+          errors.push(`${path}: expected an array of strings, got ${JSON.stringify(value)}`);
+          return undefined;
+        }
+        value.forEach((item, index) => {
+          if (typeof item !== 'string' || item.trim() === '') {
+            errors.push(`${path}[${index}]: expected a non-empty string, got ${JSON.stringify(item)}`);
+          }
+        });
+        return value.filter(item => typeof item === 'string').map(item => item.trim()).filter(Boolean);
       }
+      case 'json':
+        return schema.validate ? schema.validate(value, path, errors) : value;
+    }
+  };
+
+  const values: Record<string, unknown> = {};
+  for (const [key, schema] of Object.entries(CONFIG_SCHEMA) as [keyof ConfigValues, ConfigFieldSchema][]) {
+    const envValue = Deno.env.get(schema.env);
+    let value: unknown;
+
+    if (envValue !== undefined && envValue.trim() !== '') {
+      const path = `env ${schema.env}`;
+      const parsed = fromEnv(schema, envValue, path);
+      value = parsed === undefined ? undefined : checkValue(schema, parsed, path);
+    } else if (key in fileValues && fileValues[key] !== null) {
+      value = checkValue(schema, fileValues[key], `${configFile} $.${key}`);
     }
+
+    values[key] = value === undefined ? schema.default : value;
   }
 
-  // 清理资源
-  destroy(): void {
-    this.isDestroyed = true;
-    if (this.cleanupTimer !== null) {
-      clearInterval(this.cleanupTimer);
-      this.cleanupTimer = null;
+  const config = values as unknown as ConfigValues;
+  config.corsAllowedMethods = config.corsAllowedMethods.map(method => method.toUpperCase());
+
+  // 编译匹配规则，规则无效同样视为配置错误
+  const sourceOf = (key: keyof ConfigValues) =>
+    Deno.env.get(CONFIG_SCHEMA[key].env)?.trim() ? `env ${CONFIG_SCHEMA[key].env}` : `${configFile} $.${key}`;
+  const allowedOriginMatcher = compileOriginRules(config.allowedOrigins, sourceOf('allowedOrigins'), errors);
+  const blockedIPMatcher = compileIPRules(config.blockedIPs, sourceOf('blockedIPs'), errors);
+  const trustedCallerMatcher = compileIPRules(config.trustedCallers, sourceOf('trustedCallers'), errors);
+  const trustedProxyMatcher = compileIPRules(config.trustedProxies, sourceOf('trustedProxies'), errors);
+  const blockedDomainMatcher = compileDomainRules(config.blockedDomains, sourceOf('blockedDomains'), errors);
+  const allowedDomainMatcher = compileDomainRules(config.allowedDomains, sourceOf('allowedDomains'), errors);
+  const policyEngine = new PolicyEngine(config.policyRules, config, sourceOf('policyRules'), errors);
+  if (config.adminPort !== undefined && config.adminPort === config.port) {
+    errors.push(`${sourceOf('adminPort')}: expected a port different from port ${config.port}`);
+  }
+
+  if (errors.length > 0) {
+    throw new ConfigError(errors);
+  }
+
+  if (config.corsAllowCredentials && (allowedOriginMatcher.size === 0 || allowedOriginMatcher.isWildcard)) {
+    console.warn('Warning: CORS_ALLOW_CREDENTIALS is enabled without an explicit ALLOWED_ORIGINS list, any origin will be reflected');
+  }
+
+  return {
+    ...config,
+    allowedOriginMatcher,
+    blockedIPMatcher,
+    trustedCallerMatcher,
+    trustedProxyMatcher,
+    blockedDomainMatcher,
+    allowedDomainMatcher,
+    policyEngine,
+    configFile
+  };
+}
+
+// ==================== 网络地址模块 ====================
+interface IPAddress {
+  version: 4 | 6;
+  bytes: number[];
+}
+
+interface CidrRange {
+  version: 4 | 6;
+  bytes: number[];
+  prefix: number;
+}
+
+/**
+ * 解析IPv4地址，兼容inet_aton的所有写法
+ * 例如 2130706433、0x7f.1、0177.0.0.1 都会被解析为 127.0.0.1
+ */
+function parseIPv4(input: string): number[] | null {
+  const parts = input.split('.');
+  // 允许末尾的点（如 "127.0.0.1."）
+  if (parts.length > 1 && parts[parts.length - 1] === '') {
+    parts.pop();
+  }
+  if (parts.length === 0 || parts.length > 4) return null;
+
+  const numbers: number[] = [];
+  for (const part of parts) {
+    let value: number;
+    if (/^0x[0-9a-f]*$/i.test(part)) {
+      value = part.length === 2 ? 0 : parseInt(part.substring(2), 16);
+    } else if (/^0[0-7]+$/.test(part)) {
+      value = parseInt(part.substring(1), 8);
+    } else if (/^(0|[1-9]\d*)$/.test(part)) {
+      value = parseInt(part, 10);
+    } else {
+      return null;
     }
-    this.requests.clear();
+    numbers.push(value);
   }
 
-  getStats(): { totalIPs: number; totalRequests: number } {
-    return {
-      totalIPs: this.requests.size,
-      totalRequests: Array.from(this.requests.values()).reduce((sum, reqs) => sum + reqs.length, 0)
-    };
+  // 除最后一段外每段只能占一个字节，最后一段填充剩余字节
+  const last = numbers.pop()!;
+  if (numbers.some(n => n > 255)) return null;
+  const remainingBytes = 4 - numbers.length;
+  if (last >= 2 ** (8 * remainingBytes)) return null;
+
+  const bytes = [...numbers];
+  for (let i = remainingBytes - 1; i >= 0; i--) {
+    bytes.push(Math.floor(last / 2 ** (8 * i)) % 256);
   }
+  return bytes;
 }
 
-class ConcurrencyLimiter {
-  private perIpCount: Map<string, number> = new Map();
-  private totalCount = 0;
-  private perIpLimit: number;
-  private totalLimit: number;
-  private mutex: Promise<void> = Promise.resolve();
+/**
+ * 解析IPv6地址（支持 :: 压缩、内嵌IPv4尾部和zone id），返回16字节数组
+ */
+function parseIPv6(input: string): number[] | null {
+  let address = input.replace(/^\[/, '').replace(/\]$/, '');
+  const zoneIndex = address.indexOf('%');
+  if (zoneIndex !== -1) {
+    address = address.substring(0, zoneIndex);
+  }
+  if (!address.includes(':')) return null;
+
+  // 内嵌IPv4尾部（如 ::ffff:127.0.0.1）转换为两个16位分组
+  const lastColon = address.lastIndexOf(':');
+  const tail = address.substring(lastColon + 1);
+  if (tail.includes('.')) {
+    if (!/^(\d{1,3}\.){3}\d{1,3}$/.test(tail)) return null;
+    const v4 = tail.split('.').map(n => parseInt(n, 10));
+    if (v4.some(n => n > 255)) return null;
+    address = address.substring(0, lastColon + 1) +
+      ((v4[0] << 8) | v4[1]).toString(16) + ':' + ((v4[2] << 8) | v4[3]).toString(16);
+  }
 
-  constructor(perIpLimit: number, totalLimit: number) {
-    this.perIpLimit = perIpLimit;
-    this.totalLimit = totalLimit;
+  const halves = address.split('::');
+  if (halves.length > 2) return null;
+
+  const splitGroups = (part: string): string[] => part === '' ? [] : part.split(':');
+  const head = splitGroups(halves[0]);
+  const rest = halves.length === 2 ? splitGroups(halves[1]) : [];
+
+  if (halves.length === 1 && head.length !== 8) return null;
+  if (halves.length === 2 && head.length + rest.length > 7) return null;
+  if ([...head, ...rest].some(group => !/^[0-9a-f]{1,4}$/i.test(group))) return null;
+
+  const groups = [
+    ...head,
+    ...new Array(8 - head.length - rest.length).fill('0'),
+    ...rest
+  ].map(group => parseInt(group, 16));
+
+  return groups.flatMap(group => [group >> 8, group & 0xff]);
+}
+
+/**
+ * 解析IP地址字面量（IPv4或IPv6），不是IP地址时返回null
+ */
+function parseIPAddress(input: string): IPAddress | null {
+  const value = input.trim().toLowerCase();
+  if (value.includes(':')) {
+    const bytes = parseIPv6(value);
+    return bytes ? { version: 6, bytes } : null;
   }
+  const bytes = parseIPv4(value);
+  return bytes ? { version: 4, bytes } : null;
+}
 
-  async acquire(ip: string): Promise<boolean> {
-    return new Promise((resolve) => {
-      this.mutex = this.mutex.then(() => {
-        const currentPerIp = this.perIpCount.get(ip) || 0;
+/**
+ * 解析CIDR表示法（如 10.0.0.0/8、fc00::/7），不带前缀长度时视为单个地址
+ */
+function parseCidr(input: string): CidrRange | null {
+  const parts = input.trim().split('/');
+  if (parts.length > 2) return null;
 
-        if (currentPerIp >= this.perIpLimit || this.totalCount >= this.totalLimit) {
-          resolve(false);
-          return;
-        }
+  const address = parseIPAddress(parts[0]);
+  if (!address) return null;
 
-        this.perIpCount.set(ip, currentPerIp + 1);
-        this.totalCount++;
-        resolve(true);
-      });
-    });
+  const maxPrefix = address.version === 4 ? 32 : 128;
+  if (parts.length === 1) {
+    return { ...address, prefix: maxPrefix };
   }
+  if (!/^\d{1,3}$/.test(parts[1])) return null;
+  const prefix = parseInt(parts[1], 10);
+  if (prefix > maxPrefix) return null;
 
-  async release(ip: string): Promise<void> {
-    return new Promise((resolve) => {
-      this.mutex = this.mutex.then(() => {
-        const currentPerIp = this.perIpCount.get(ip) || 0;
-        if (currentPerIp > 0) {
-          this.perIpCount.set(ip, currentPerIp - 1);
-          this.totalCount = Math.max(0, this.totalCount - 1);
-
-          if (this.perIpCount.get(ip) === 0) {
-            this.perIpCount.delete(ip);
-          }
-        }
-        resolve();
-      });
-    });
+  return { ...address, prefix };
+}
+
+function cidrContains(range: CidrRange, address: IPAddress): boolean {
+  if (range.version !== address.version) return false;
+
+  const fullBytes = Math.floor(range.prefix / 8);
+  for (let i = 0; i < fullBytes; i++) {
+    if (range.bytes[i] !== address.bytes[i]) return false;
   }
 
-  getStats(): { perIpCount: Map<string, number>; totalCount: number } {
-    return {
-      perIpCount: new Map(this.perIpCount),
-      totalCount: this.totalCount
-    };
+  const remainingBits = range.prefix % 8;
+  if (remainingBits === 0) return true;
+  const mask = (0xff << (8 - remainingBits)) & 0xff;
+  return (range.bytes[fullBytes] & mask) === (address.bytes[fullBytes] & mask);
+}
+
+function formatIPAddress(address: IPAddress): string {
+  if (address.version === 4) {
+    return address.bytes.join('.');
+  }
+  const groups: string[] = [];
+  for (let i = 0; i < 16; i += 2) {
+    groups.push(((address.bytes[i] << 8) | address.bytes[i + 1]).toString(16));
   }
+  return groups.join(':');
 }
 
+// 不允许代理访问的特殊用途地址段（参考 RFC 6890 / IANA 特殊用途地址注册表）
+const RESTRICTED_IPV4_RANGES: CidrRange[] = [
+  '0.0.0.0/8',          // 本网络
+  '10.0.0.0/8',         // 私有网络
+  '100.64.0.0/10',      // 运营商级NAT
+  '127.0.0.0/8',        // 本地回环
+  '169.254.0.0/16',     // 链路本地（含云厂商元数据服务）
+  '172.16.0.0/12',      // 私有网络
+  '192.0.0.0/24',       // IETF协议分配
+  '192.0.2.0/24',       // 文档示例 TEST-NET-1
+  '192.88.99.0/24',     // 6to4中继
+  '192.168.0.0/16',     // 私有网络
+  '198.18.0.0/15',      // 基准测试
+  '198.51.100.0/24',    // 文档示例 TEST-NET-2
+  '203.0.113.0/24',     // 文档示例 TEST-NET-3
+  '224.0.0.0/4',        // 组播
+  '240.0.0.0/4'         // 保留地址（含广播地址）
+].map(cidr => parseCidr(cidr)!);
+
+const RESTRICTED_IPV6_RANGES: CidrRange[] = [
+  '::/96',              // 未指定地址、回环地址及已废弃的IPv4兼容地址
+  '64:ff9b:1::/48',     // 本地NAT64
+  '100::/64',           // 丢弃前缀
+  '2001::/23',          // IETF协议分配（含Teredo）
+  '2001:db8::/32',      // 文档示例
+  'fc00::/7',           // 唯一本地地址
+  'fe80::/10',          // 链路本地
+  'fec0::/10',          // 站点本地（已废弃）
+  'ff00::/8'            // 组播
+].map(cidr => parseCidr(cidr)!);
+
+// 内嵌IPv4地址的IPv6前缀：[前缀, IPv4起始字节偏移]
+const IPV4_EMBEDDING_RANGES: [CidrRange, number][] = [
+  [parseCidr('::ffff:0:0/96')!, 12],   // IPv4映射地址
+  [parseCidr('64:ff9b::/96')!, 12],    // NAT64
+  [parseCidr('2002::/16')!, 2]         // 6to4
+];
+
 /**
- * 安全检查：验证目标URL和请求来源
+ * 判断IP地址是否属于不允许访问的内网/保留地址
+ * IPv6地址中内嵌的IPv4地址（映射、NAT64、6to4）同样会被检查
  */
-function validateRequest(url: string, ip: string, config: Config, origin?: string | null): { valid: boolean; reason?: string } {
-  // 检查IP黑名单
-  if (config.blockedIPs.length > 0 && config.blockedIPs.includes(ip)) {
-    return { valid: false, reason: 'IP blocked' };
+function isRestrictedAddress(address: IPAddress): boolean {
+  if (address.version === 4) {
+    return RESTRICTED_IPV4_RANGES.some(range => cidrContains(range, address));
   }
 
-  // 检查URL长度
-  if (url.length > config.maxUrlLength) {
-    return { valid: false, reason: 'URL too long' };
+  if (RESTRICTED_IPV6_RANGES.some(range => cidrContains(range, address))) {
+    return true;
   }
 
-  // 解析目标域名
-  let targetDomain: string;
-  try {
-    const targetUrl = new URL(fixUrl(url));
-    targetDomain = targetUrl.hostname.toLowerCase();
-  } catch {
-    return { valid: false, reason: 'Invalid URL' };
+  for (const [range, offset] of IPV4_EMBEDDING_RANGES) {
+    if (cidrContains(range, address)) {
+      return isRestrictedAddress({ version: 4, bytes: address.bytes.slice(offset, offset + 4) });
+    }
   }
 
-  // 检查域名黑名单
-  if (config.blockedDomains.length > 0) {
-    const isBlocked = config.blockedDomains.some(blocked => 
-      targetDomain === blocked || targetDomain.endsWith('.' + blocked)
-    );
-    if (isBlocked) {
-      return { valid: false, reason: 'Domain blocked' };
+  return false;
+}
+
+interface CidrTrieNode {
+  children: [CidrTrieNode | null, CidrTrieNode | null];
+  terminal: boolean;
+}
+
+/**
+ * CIDR前缀树（按位的基数树），用于大量IP/网段规则的快速匹配
+ * 查询复杂度只与地址位数有关（IPv4最多32步，IPv6最多128步），与规则数量无关
+ */
+class CidrTrie {
+  private roots: { 4: CidrTrieNode; 6: CidrTrieNode } = {
+    4: { children: [null, null], terminal: false },
+    6: { children: [null, null], terminal: false }
+  };
+  private entries = 0;
+
+  /**
+   * 添加IP或CIDR规则，格式无效时返回false
+   */
+  add(cidr: string): boolean {
+    const range = parseCidr(cidr);
+    if (!range) return false;
+
+    let node = this.roots[range.version];
+    for (let bit = 0; bit < range.prefix; bit++) {
+      // 已被更短的前缀覆盖，无需继续插入
+      if (node.terminal) break;
+      const value = (range.bytes[bit >> 3] >> (7 - (bit & 7))) & 1;
+      node = node.children[value] ??= { children: [null, null], terminal: false };
     }
+    node.terminal = true;
+    this.entries++;
+    return true;
   }
 
-  // 检查域名白名单
-  if (config.allowedDomains.length > 0) {
-    const isAllowed = config.allowedDomains.some(allowed => 
-      targetDomain === allowed || targetDomain.endsWith('.' + allowed)
-    );
-    if (!isAllowed) {
-      return { valid: false, reason: 'Domain not allowed' };
+  contains(address: IPAddress): boolean {
+    let node: CidrTrieNode | null = this.roots[address.version];
+    const totalBits = address.version === 4 ? 32 : 128;
+    for (let bit = 0; node; bit++) {
+      if (node.terminal) return true;
+      if (bit >= totalBits) return false;
+      node = node.children[(address.bytes[bit >> 3] >> (7 - (bit & 7))) & 1];
     }
+    return false;
   }
 
-  // 检查来源白名单
-  if (config.allowedOrigins.length > 0 && origin) {
-    if (!config.allowedOrigins.includes('*') && !config.allowedOrigins.includes(origin)) {
-      return { valid: false, reason: 'Origin not allowed' };
+  /**
+   * 检查IP字符串是否命中规则，IPv4映射的IPv6地址同时按IPv4检查
+   */
+  matches(ip: string): boolean {
+    if (this.entries === 0) return false;
+    const address = parseIPAddress(ip);
+    if (!address) return false;
+    if (this.contains(address)) return true;
+
+    if (address.version === 6 && cidrContains(IPV4_EMBEDDING_RANGES[0][0], address)) {
+      return this.contains({ version: 4, bytes: address.bytes.slice(12) });
     }
+    return false;
   }
 
-  // 检查恶意URL模式
-  const maliciousPatterns = [
-    /javascript:/i,
-    /data:/i,
-    /vbscript:/i,
-    /file:/i,
-    /ftp:/i,
-    /about:/i,
-    /chrome:/i,
-    /chrome-extension:/i,
-    /moz-extension:/i
-  ];
-
-  if (maliciousPatterns.some(pattern => pattern.test(url))) {
-    return { valid: false, reason: 'Malicious URL pattern' };
+  get size(): number {
+    return this.entries;
   }
 
-  // 增强URL安全验证 - 检查是否包含控制字符
-  if (/[\u0000-\u001F\u007F-\u009F]/.test(url)) {
-    return { valid: false, reason: 'URL contains control characters' };
+  toJSON(): { entries: number } {
+    return { entries: this.entries };
   }
+}
 
-  // 检查是否尝试访问内网地址
-  try {
-    const targetUrl = new URL(fixUrl(url));
-    const hostname = targetUrl.hostname.toLowerCase();
+/**
+ * DNS解析器，带短期缓存
+ * 解析结果用于SSRF检查和连接地址固定
+ */
+class DnsResolver {
+  private cache: Map<string, { addresses: string[]; expiresAt: number }> = new Map();
+  private ttl: number;
+  private timeout: number;
+  private maxEntries = 1000;
+
+  constructor(ttl: number, timeout: number) {
+    this.ttl = ttl;
+    this.timeout = timeout;
+  }
 
-    // 检查私有IP地址范围（IPv4）
-    const privateIPv4Patterns = [
-      /^127\./,           // 127.0.0.0/8 (localhost)
-      /^10\./,            // 10.0.0.0/8
-      /^172\.(1[6-9]|2[0-9]|3[0-1])\./,  // 172.16.0.0/12
-      /^192\.168\./,      // 192.168.0.0/16
-      /^169\.254\./,      // 169.254.0.0/16 (link-local)
-      /^0\./,             // 0.0.0.0/8
-      /^224\./,           // 224.0.0.0/4 (multicast)
-      /^240\./,           // 240.0.0.0/4 (reserved)
-      /^255\.255\.255\.255$/, // broadcast
-      /^100\.(6[4-9]|[7-9][0-9]|1[0-1][0-9]|12[0-7])\./  // 100.64.0.0/10 (carrier-grade NAT)
-    ];
+  static isAvailable(): boolean {
+    return typeof Deno.resolveDns === 'function';
+  }
 
-    // 检查IPv6私有地址
-    const privateIPv6Patterns = [
-      /^::1$/,            // IPv6 localhost
-      /^::/,              // IPv6 unspecified
-      /^fe80:/,           // IPv6 link-local
-      /^fc00:/,           // IPv6 unique local
-      /^fd00:/,           // IPv6 unique local
-      /^ff00:/            // IPv6 multicast
-    ];
+  async resolve(hostname: string): Promise<string[]> {
+    const cached = this.cache.get(hostname);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.addresses;
+    }
 
-    // 检查特殊域名和元数据服务
-    const restrictedDomains = [
-      'localhost',
-      'metadata.google.internal',
-      'metadata.goog',
-      '169.254.169.254',  // AWS/GCP metadata service
-      'metadata',
-      'instance-data',
-      'consul',
-      'vault.service.consul'
-    ];
+    const signal = AbortSignal.timeout(this.timeout);
+    const results = await Promise.allSettled([
+      Deno.resolveDns(hostname, 'A', { signal }),
+      Deno.resolveDns(hostname, 'AAAA', { signal })
+    ]);
 
-    // 检查是否为IP地址
-    const isIPv4 = /^(\d{1,3}\.){3}\d{1,3}$/.test(hostname);
-    const isIPv6 = hostname.includes(':') && !hostname.includes('.');
+    const addresses = results.flatMap(result => result.status === 'fulfilled' ? result.value : []);
 
-    if (isIPv4 && privateIPv4Patterns.some(pattern => pattern.test(hostname))) {
-      return { valid: false, reason: 'Access to private IPv4 addresses is not allowed' };
+    if (addresses.length > 0 && this.ttl > 0) {
+      if (this.cache.size >= this.maxEntries) {
+        // 淘汰最早写入的记录
+        const oldestKey = this.cache.keys().next().value;
+        if (oldestKey !== undefined) this.cache.delete(oldestKey);
+      }
+      this.cache.set(hostname, { addresses, expiresAt: Date.now() + this.ttl });
     }
 
-    if (isIPv6 && privateIPv6Patterns.some(pattern => pattern.test(hostname))) {
-      return { valid: false, reason: 'Access to private IPv6 addresses is not allowed' };
-    }
+    return addresses;
+  }
 
-    if (restrictedDomains.some(domain => hostname === domain || hostname.endsWith('.' + domain))) {
-      return { valid: false, reason: 'Access to restricted domains is not allowed' };
-    }
-
-    // 检查端口是否为敏感端口
-    const port = targetUrl.port;
-    if (port) {
-      const portNum = parseInt(port);
-      const restrictedPorts = [22, 23, 25, 53, 135, 139, 445, 993, 995, 1433, 1521, 3306, 3389, 5432, 5984, 6379, 9200, 11211, 27017];
-      if (restrictedPorts.includes(portNum)) {
-        return { valid: false, reason: 'Access to restricted ports is not allowed' };
-      }
-    }
-  } catch {
-    // URL解析失败已在前面处理
+  clear(): void {
+    this.cache.clear();
   }
-
-  return { valid: true };
 }
 
-// ==================== 请求处理模块 ====================
 /**
- * 修复和标准化URL格式
+ * 到上游的一条连接；leftover为建立隧道时多读到的数据，需要先交给客户端
  */
-function fixUrl(url: string): string {
-  if (url.includes("://")) {
-    return url;
-  } else if (url.includes(':/')) {
-    return url.replace(':/', '://');
-  } else {
-    // 默认使用HTTPS协议，更安全
-    return "https://" + url;
-  }
+interface UpstreamConnection {
+  conn: Deno.Conn;
+  leftover: Uint8Array;
 }
 
 /**
- * 构建代理请求的headers
+ * 上游连接器：在unix套接字上监听，HTTP客户端以unix方式连接该套接字，每个连接都由open建立到上游的真实连接
+ * （直接连接已校验的IP，或经过出口代理的隧道），TLS的SNI和Host头仍然使用目标域名。
+ * 套接字放在只有当前用户可以访问的临时目录中，其他本地进程无法借用它连接内网地址；所有连接器共用这一个目录。
+ * 建立连接的时间受connectTimeout限制（0表示不限制），超时时关闭客户端一侧的连接，请求随即失败
  */
-function buildProxyHeaders(originalHeaders: Headers): Record<string, string> {
-  const proxyHeaders: Record<string, string> = {};
-  const dropHeaders = [
-    'content-length', 'host', 'connection', 'keep-alive',
-    'proxy-authenticate', 'proxy-authorization', 'te', 'trailers',
-    'transfer-encoding', 'upgrade', 'cf-connecting-ip', 'cf-ray',
-    'cf-visitor', 'cf-ipcountry'
-  ];
-
-  for (const [key, value] of originalHeaders.entries()) {
-    const lowerKey = key.toLowerCase();
-    if (!dropHeaders.includes(lowerKey)) {
-      proxyHeaders[key] = value;
-    }
+class UpstreamConnector {
+  // 套接字目录，第一个连接器创建时建立，最后一个连接器关闭时删除
+  private static socketDir: string | null = null;
+  private static opened = 0;
+  private static sequence = 0;
+
+  readonly client: Deno.HttpClient;
+  private listener: Deno.Listener;
+  private path: string;
+  private open: (signal: AbortSignal) => Promise<UpstreamConnection>;
+  private connectTimeout: () => number;
+  private connections: Set<Deno.Conn> = new Set();
+  private closed = false;
+  active = 0;
+  lastUsed = Date.now();
+  // 最近一次建立连接失败的原因，请求失败时客户端只看到连接被关闭
+  lastError?: string;
+  // 最近一次建立连接超时的时间
+  private lastTimeoutAt = 0;
+
+  /**
+   * 监听unix套接字需要读写权限
+   */
+  static isAvailable(): boolean {
+    return typeof Deno.createHttpClient === 'function' && typeof Deno.listen === 'function' &&
+      Deno.permissions.querySync({ name: 'read' }).state === 'granted' &&
+      Deno.permissions.querySync({ name: 'write' }).state === 'granted';
   }
 
-  // 优先保留用户的User-Agent，只在没有时才设置默认值
-  // 使用更真实的默认User-Agent，模拟常见浏览器
-  if (!proxyHeaders['User-Agent'] && !proxyHeaders['user-agent']) {
-    // 使用多个真实的User-Agent轮换，减少被识别为爬虫的风险
-    const defaultUserAgents = [
-      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-      'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:121.0) Gecko/20100101 Firefox/121.0',
-      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.2 Safari/605.1.15',
-      'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
-    ];
-
-    // 基于时间戳选择User-Agent，确保一定的随机性但又相对稳定
-    const index = Math.floor(Date.now() / (1000 * 60 * 10)) % defaultUserAgents.length;
-    proxyHeaders['User-Agent'] = defaultUserAgents[index];
+  constructor(open: (signal: AbortSignal) => Promise<UpstreamConnection>, connectTimeout: () => number) {
+    this.open = open;
+    this.connectTimeout = connectTimeout;
+    if (!UpstreamConnector.socketDir) {
+      const dir = Deno.makeTempDirSync({ prefix: 'ciao-cors-' });
+      Deno.chmodSync(dir, 0o700);
+      UpstreamConnector.socketDir = dir;
+    }
+    this.path = `${UpstreamConnector.socketDir}/${++UpstreamConnector.sequence}.sock`;
+    this.listener = Deno.listen({ transport: 'unix', path: this.path });
+    UpstreamConnector.opened++;
+    this.client = Deno.createHttpClient({ proxy: { transport: 'unix', path: this.path } });
+    this.accept();
   }
 
-  // 增强其他重要请求头的处理，提高请求成功率
-  // 如果没有Accept头，添加通用的Accept头
-  if (!proxyHeaders['Accept'] && !proxyHeaders['accept']) {
-    proxyHeaders['Accept'] = 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8,application/signed-exchange;v=b3;q=0.7';
+  /**
+   * 从time之后是否有连接超时，用于把请求失败归为连接阶段超时
+   */
+  timedOutSince(time: number): boolean {
+    return this.lastTimeoutAt >= time;
   }
 
-  // 如果没有Accept-Language头，添加常见的语言设置
-  if (!proxyHeaders['Accept-Language'] && !proxyHeaders['accept-language']) {
-    proxyHeaders['Accept-Language'] = 'en-US,en;q=0.9,zh-CN;q=0.8,zh;q=0.7';
+  private async accept(): Promise<void> {
+    try {
+      for await (const local of this.listener) {
+        this.relay(local);
+      }
+    } catch {
+      // 监听已关闭
+    }
   }
 
-  // 如果没有Accept-Encoding头，添加常见的编码支持
-  if (!proxyHeaders['Accept-Encoding'] && !proxyHeaders['accept-encoding']) {
-    proxyHeaders['Accept-Encoding'] = 'gzip, deflate, br';
+  private async relay(local: Deno.Conn): Promise<void> {
+    this.connections.add(local);
+    let remote: Deno.Conn | null = null;
+    const controller = new AbortController();
+    const timeout = this.connectTimeout();
+    let timeoutId: number | undefined;
+    try {
+      const opening = this.open(controller.signal);
+      const timedOut = new Promise<never>((_, reject) => {
+        if (timeout > 0) {
+          timeoutId = setTimeout(() => {
+            controller.abort();
+            reject(new UpstreamTimeoutError('connect'));
+          }, timeout) as unknown as number;
+        }
+      });
+      let upstream: UpstreamConnection;
+      try {
+        upstream = await Promise.race([opening, timedOut]);
+      } catch (error) {
+        // 超时后才建立的连接直接关闭
+        opening.then(late => late.conn.close(), () => {});
+        throw error;
+      } finally {
+        clearTimeout(timeoutId);
+      }
+      remote = upstream.conn;
+      this.connections.add(remote);
+      this.lastError = undefined;
+      if (upstream.leftover.length > 0) await local.write(upstream.leftover);
+      await Promise.all([local.readable.pipeTo(remote.writable), remote.readable.pipeTo(local.writable)]);
+    } catch (error) {
+      if (error instanceof UpstreamTimeoutError) {
+        this.lastTimeoutAt = Date.now();
+      } else if (!remote) {
+        this.lastError = error instanceof Error ? error.message : String(error);
+      }
+    } finally {
+      for (const conn of [local, remote]) {
+        if (!conn) continue;
+        this.connections.delete(conn);
+        try {
+          conn.close();
+        } catch {
+          // 已被数据流关闭
+        }
+      }
+    }
   }
 
-  // 添加DNT头，表明不希望被跟踪（提高隐私性）
-  if (!proxyHeaders['DNT'] && !proxyHeaders['dnt']) {
-    proxyHeaders['DNT'] = '1';
-  }
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.client.close();
+    try {
+      this.listener.close();
+    } catch {
+      // 已关闭
+    }
+    for (const conn of this.connections) {
+      try {
+        conn.close();
+      } catch {
+        // 已关闭
+      }
+    }
+    this.connections.clear();
 
-  // 添加Sec-Fetch-* 头，模拟真实浏览器行为
-  if (!proxyHeaders['Sec-Fetch-Dest'] && !proxyHeaders['sec-fetch-dest']) {
-    proxyHeaders['Sec-Fetch-Dest'] = 'document';
-  }
-  if (!proxyHeaders['Sec-Fetch-Mode'] && !proxyHeaders['sec-fetch-mode']) {
-    proxyHeaders['Sec-Fetch-Mode'] = 'navigate';
-  }
-  if (!proxyHeaders['Sec-Fetch-Site'] && !proxyHeaders['sec-fetch-site']) {
-    proxyHeaders['Sec-Fetch-Site'] = 'none';
+    try {
+      Deno.removeSync(this.path);
+    } catch {
+      // 已删除
+    }
+    if (--UpstreamConnector.opened === 0 && UpstreamConnector.socketDir) {
+      try {
+        Deno.removeSync(UpstreamConnector.socketDir, { recursive: true });
+      } catch {
+        // 已删除
+      }
+      UpstreamConnector.socketDir = null;
+    }
   }
+}
 
-  return proxyHeaders;
+/**
+ * 连接固定到某个地址的HTTP客户端，使用完毕后必须调用release
+ */
+interface PinnedClient {
+  client: Deno.HttpClient;
+  release: () => void;
+  // 从time之后是否有连接超时
+  timedOutSince: (time: number) => boolean;
 }
 
 /**
- * 处理请求body，支持各种content-type
+ * 固定目标地址的HTTP客户端池
+ * 通过本地的上游连接器把连接固定到已校验的IP，同时保留原始Host头和TLS SNI，防止检查后DNS重绑定
  */
-async function processRequestBody(request: Request, config: Config): Promise<any> {
-  if (!['POST', 'PUT', 'PATCH', 'DELETE'].includes(request.method)) {
-    return undefined;
+class PinnedClientPool {
+  private connectors: Map<string, UpstreamConnector> = new Map();
+  private connectTimeout: number;
+  private idleTimeout = 60000;
+  private cleanupTimer: number | null = null;
+  private isDestroyed: boolean = false;
+
+  constructor(connectTimeout: number) {
+    this.connectTimeout = connectTimeout;
+    this.cleanupTimer = setInterval(() => {
+      if (!this.isDestroyed) {
+        this.cleanup();
+      }
+    }, this.idleTimeout) as unknown as number;
   }
 
-  const contentType = request.headers.get('content-type')?.toLowerCase() || '';
-  const contentLength = request.headers.get('content-length');
+  static isAvailable(): boolean {
+    return UpstreamConnector.isAvailable();
+  }
 
-  // 从配置获取最大请求体大小，默认10MB
-  const maxBodySize = parseInt(Deno.env.get('MAX_BODY_SIZE') || '10485760'); // 10MB
-  if (contentLength && parseInt(contentLength) > maxBodySize) {
-    throw new Error(`Request body too large. Maximum size: ${maxBodySize} bytes`);
+  configure(connectTimeout: number): void {
+    this.connectTimeout = connectTimeout;
   }
 
-  try {
-    if (contentType.includes('application/json')) {
-      // 使用克隆请求防止body被消费后无法再次读取
-      const clonedRequest = request.clone();
-      try {
-        const jsonData = await clonedRequest.json();
-        return JSON.stringify(jsonData);
-      } catch (e) {
-        // JSON解析失败时返回原始文本
-        const text = await request.text();
-        // 检查文本长度
-        if (text.length > maxBodySize) {
-          throw new Error('Request body too large');
-        }
-        return text;
-      }
-    } else if (contentType.includes('application/x-www-form-urlencoded') ||
-               contentType.includes('multipart/form-data')) {
-      return await request.formData();
-    } else if (contentType.includes('text/')) {
-      const text = await request.text();
-      if (text.length > maxBodySize) {
-        throw new Error('Request body too large');
-      }
-      return text;
-    } else {
-      return await request.arrayBuffer();
+  /**
+   * 获取连接到指定地址的客户端，使用完毕后必须调用release
+   */
+  acquire(address: string, port: number): PinnedClient {
+    const key = `${address}|${port}`;
+    let connector = this.connectors.get(key);
+    if (!connector) {
+      connector = new UpstreamConnector(
+        signal => Deno.connect({ hostname: address, port, signal }).then(conn => ({ conn, leftover: new Uint8Array(0) })),
+        () => this.connectTimeout
+      );
+      this.connectors.set(key, connector);
+    }
+
+    const current = connector;
+    current.active++;
+    current.lastUsed = Date.now();
+
+    let released = false;
+    return {
+      client: current.client,
+      release: () => {
+        if (released) return;
+        released = true;
+        current.active = Math.max(0, current.active - 1);
+        current.lastUsed = Date.now();
+      },
+      timedOutSince: time => current.timedOutSince(time)
+    };
+  }
+
+  // 关闭长时间空闲的客户端
+  cleanup(): void {
+    const now = Date.now();
+    for (const [key, connector] of this.connectors.entries()) {
+      if (connector.active === 0 && now - connector.lastUsed > this.idleTimeout) {
+        connector.close();
+        this.connectors.delete(key);
+      }
     }
-  } catch (e) {
-    // 增加错误日志
-    console.error("Error processing request body:", e);
-    if (e instanceof Error && e.message === 'Request body too large') {
-      throw e;
+  }
+
+  getStats(): { clients: number; activeRequests: number } {
+    return {
+      clients: this.connectors.size,
+      activeRequests: Array.from(this.connectors.values()).reduce((sum, connector) => sum + connector.active, 0)
+    };
+  }
+
+  // 清理资源
+  destroy(): void {
+    this.isDestroyed = true;
+    if (this.cleanupTimer !== null) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
     }
-    // 对于其他错误，尝试返回arrayBuffer
-    try {
-      return await request.arrayBuffer();
-    } catch {
-      return undefined;
+    for (const connector of this.connectors.values()) {
+      connector.close();
     }
+    this.connectors.clear();
   }
 }
 
 /**
- * 执行代理请求（带智能重试机制）
+ * 出口代理规则：按目标域名选择上游请求经过的HTTP/SOCKS5代理
+ * 规则按配置顺序匹配，使用第一条匹配的规则；没有匹配的规则时直接连接
  */
-async function performProxy(request: Request, targetUrl: string, config: Config): Promise<Response> {
-  const headers = buildProxyHeaders(request.headers);
-  const body = await processRequestBody(request, config);
-
-  // 重试配置
-  const maxRetries = 3;
-  const retryDelay = [100, 300, 1000]; // 递增延迟：100ms, 300ms, 1000ms
-
-  // 判断是否应该重试的错误类型
-  const shouldRetry = (error: any, attempt: number): boolean => {
-    if (attempt >= maxRetries) return false;
-
-    // 网络错误、连接被拒绝、DNS错误等应该重试
-    if (error instanceof Error) {
-      const message = error.message.toLowerCase();
-      return message.includes('network') ||
-             message.includes('connection') ||
-             message.includes('econnrefused') ||
-             message.includes('enotfound') ||
-             message.includes('timeout') ||
-             message.includes('fetch');
-    }
-    return false;
-  };
+interface EgressRule {
+  id: string;
+  // 目标域名规则，语法同 ALLOWED_DOMAINS，省略时匹配所有目标
+  hosts?: string[];
+  // 代理地址（http://、https://、socks5://、socks5h://），多个时轮询；认证信息写在地址中
+  proxies?: string[];
+  // 直接连接，不经过代理（用于排除部分目标）
+  direct?: boolean;
+}
 
-  // 判断HTTP状态码是否应该重试
-  const shouldRetryStatus = (status: number): boolean => {
-    // 5xx服务器错误、429限流、502/503/504网关错误应该重试
-    return status >= 500 || status === 429 || status === 502 || status === 503 || status === 504;
-  };
+const EGRESS_PROXY_PROTOCOLS = ['http:', 'https:', 'socks5:', 'socks5h:'];
 
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), config.timeout);
+/**
+ * 校验配置中的出口代理规则，错误写入errors并返回有效的规则
+ */
+function parseEgressRules(value: unknown, path: string, errors: string[]): EgressRule[] {
+  if (!Array.isArray(value)) {
+    errors.push(`${path}: expected an array of rules, got ${JSON.stringify(value)}`);
+    return [];
+  }
 
-    try {
-      const response = await fetch(targetUrl, {
-        method: request.method,
-        headers,
-        body: attempt === 0 ? body : (body instanceof ArrayBuffer ? body : undefined), // 重试时只对ArrayBuffer重用body
-        signal: controller.signal,
-        redirect: 'follow',
-        // 增加缓存控制
-        cache: request.headers.get('cache-control')?.includes('no-cache') ? 'no-cache' : 'default'
-      });
+  const ids = new Set<string>();
+  const rules: EgressRule[] = [];
+  const knownFields = ['id', 'hosts', 'proxies', 'direct'];
 
-      clearTimeout(timeoutId);
+  value.forEach((item, index) => {
+    const rulePath = `${path}[${index}]`;
+    const errorCount = errors.length;
+    if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+      errors.push(`${rulePath}: expected an object, got ${JSON.stringify(item)}`);
+      return;
+    }
+    const rule = item as Record<string, unknown>;
 
-      // 检查是否需要基于状态码重试
-      if (attempt < maxRetries && shouldRetryStatus(response.status)) {
-        console.warn(`Attempt ${attempt + 1} failed with status ${response.status}, retrying...`);
-        await new Promise(resolve => setTimeout(resolve, retryDelay[attempt]));
-        continue;
+    for (const key of Object.keys(rule)) {
+      if (!knownFields.includes(key)) {
+        errors.push(`${rulePath}.${key}: unknown rule field`);
       }
+    }
 
-      return response;
-    } catch (error) {
-      clearTimeout(timeoutId);
+    if (typeof rule.id !== 'string' || !rule.id.trim()) {
+      errors.push(`${rulePath}.id: expected a non-empty string`);
+    } else if (ids.has(rule.id)) {
+      errors.push(`${rulePath}.id: duplicate rule id "${rule.id}"`);
+    } else {
+      ids.add(rule.id);
+    }
 
-      if (error instanceof Error && error.name === 'AbortError') {
-        if (attempt < maxRetries) {
-          console.warn(`Attempt ${attempt + 1} timed out, retrying...`);
-          await new Promise(resolve => setTimeout(resolve, retryDelay[attempt]));
-          continue;
-        }
-        throw new Error('Request timeout after retries');
+    for (const key of ['hosts', 'proxies']) {
+      const list = rule[key];
+      if (list !== undefined && (!Array.isArray(list) || list.some(entry => typeof entry !== 'string' || !entry.trim()))) {
+        errors.push(`${rulePath}.${key}: expected an array of non-empty strings`);
       }
+    }
+    if (Array.isArray(rule.hosts) && errors.length === errorCount) {
+      compileDomainRules(rule.hosts, `${rulePath}.hosts`, errors);
+    }
 
-      if (shouldRetry(error, attempt)) {
-        console.warn(`Attempt ${attempt + 1} failed: ${error instanceof Error ? error.message : 'Unknown error'}, retrying...`);
-        await new Promise(resolve => setTimeout(resolve, retryDelay[attempt]));
-        continue;
+    if (rule.direct !== undefined && typeof rule.direct !== 'boolean') {
+      errors.push(`${rulePath}.direct: expected a boolean`);
+    }
+    const proxies = Array.isArray(rule.proxies) ? rule.proxies : [];
+    if (rule.direct === true && proxies.length > 0) {
+      errors.push(`${rulePath}: expected only one of proxies and direct`);
+    } else if (rule.direct !== true && proxies.length === 0) {
+      errors.push(`${rulePath}.proxies: expected at least one proxy URL (or direct: true)`);
+    }
+    proxies.forEach((proxy, proxyIndex) => {
+      if (typeof proxy !== 'string') return;
+      let url: URL | null = null;
+      try {
+        url = new URL(proxy);
+      } catch {
+        // 下面统一报告
+      }
+      if (!url || !EGRESS_PROXY_PROTOCOLS.includes(url.protocol) || !url.hostname) {
+        errors.push(`${rulePath}.proxies[${proxyIndex}]: expected an http://, https://, socks5:// or socks5h:// proxy URL`);
       }
+    });
 
-      throw error;
+    if (errors.length === errorCount) {
+      rules.push(rule as unknown as EgressRule);
     }
-  }
+  });
 
-  throw new Error('Max retries exceeded');
+  return rules;
 }
 
-// ==================== 统计和日志模块 ====================
-interface RequestStats {
-  totalRequests: number;
-  successfulRequests: number;
-  failedRequests: number;
-  topDomains: Map<string, number>;
-  topIPs: Map<string, number>;
-  statusCodes: Map<number, number>;
-  averageResponseTime: number;
-  startTime: number;
+/**
+ * 隐藏代理地址中的密码，用于日志和配置接口
+ */
+function redactProxyUrl(proxy: string): string {
+  try {
+    const url = new URL(proxy);
+    if (url.password) url.password = '***';
+    return url.toString().replace(/\/$/, '');
+  } catch {
+    return '***';
+  }
 }
 
-class StatsCollector {
-  private stats: RequestStats;
-  private responseTimes: number[] = [];
-  // 添加存储周期性统计的数组
-  private hourlyStats: { timestamp: number; requests: number }[] = [];
-  private lastHourRequestCount: number = 0;
-  private hourlyTimer: number | null = null;
-  private isDestroyed: boolean = false;
-
-  constructor() {
-    this.stats = {
-      totalRequests: 0,
-      successfulRequests: 0,
-      failedRequests: 0,
-      topDomains: new Map(),
-      topIPs: new Map(),
-      statusCodes: new Map(),
-      averageResponseTime: 0,
-      startTime: Date.now()
-    };
-
-    // 每小时记录一次统计数据
-    this.hourlyTimer = setInterval(() => {
-      if (!this.isDestroyed) {
-        this.recordHourlyStat();
-      }
-    }, 3600000) as unknown as number;
+/**
+ * 从连接中读取恰好length个字节，连接提前结束时抛出错误
+ */
+async function readExactly(conn: Deno.Conn, length: number): Promise<Uint8Array> {
+  const buffer = new Uint8Array(length);
+  let offset = 0;
+  while (offset < length) {
+    const read = await conn.read(buffer.subarray(offset));
+    if (read === null) throw new Error('Proxy closed the connection during handshake');
+    offset += read;
   }
+  return buffer;
+}
 
-  recordRequest(ip: string, domain: string, statusCode: number, responseTime: number, success: boolean): void {
-    this.stats.totalRequests++;
-    
-    if (success) {
-      this.stats.successfulRequests++;
-    } else {
-      this.stats.failedRequests++;
-    }
-
-    // 记录域名统计
-    const domainCount = this.stats.topDomains.get(domain) || 0;
-    this.stats.topDomains.set(domain, domainCount + 1);
-
-    // 记录IP统计
-    const ipCount = this.stats.topIPs.get(ip) || 0;
-    this.stats.topIPs.set(ip, ipCount + 1);
+/**
+ * SOCKS5握手（RFC 1928/1929）：按IP地址请求连接，代理不再解析域名
+ */
+async function socks5Connect(conn: Deno.Conn, proxy: URL, address: IPAddress, port: number): Promise<void> {
+  const username = new TextEncoder().encode(decodeURIComponent(proxy.username));
+  const password = new TextEncoder().encode(decodeURIComponent(proxy.password));
+  const useAuth = username.length > 0;
+  await conn.write(new Uint8Array(useAuth ? [5, 1, 2] : [5, 1, 0]));
+  const [, method] = await readExactly(conn, 2);
+  if (method === 2 && useAuth) {
+    if (username.length > 255 || password.length > 255) throw new Error('SOCKS5 credentials too long');
+    await conn.write(new Uint8Array([1, username.length, ...username, password.length, ...password]));
+    const [, status] = await readExactly(conn, 2);
+    if (status !== 0) throw new Error('SOCKS5 authentication failed');
+  } else if (method !== 0) {
+    throw new Error('SOCKS5 proxy rejected the authentication methods');
+  }
 
-    // 记录状态码统计
-    const statusCount = this.stats.statusCodes.get(statusCode) || 0;
-    this.stats.statusCodes.set(statusCode, statusCount + 1);
+  await conn.write(new Uint8Array([5, 1, 0, address.version === 4 ? 1 : 4, ...address.bytes, port >> 8, port & 0xff]));
+  const [, reply, , type] = await readExactly(conn, 4);
+  if (reply !== 0) throw new Error(`SOCKS5 connect failed (reply ${reply})`);
+  // 跳过代理返回的绑定地址和端口
+  const addressLength = type === 1 ? 4 : type === 4 ? 16 : (await readExactly(conn, 1))[0];
+  await readExactly(conn, addressLength + 2);
+}
 
-    // 记录响应时间
-    this.responseTimes.push(responseTime);
-    if (this.responseTimes.length > 1000) {
-      this.responseTimes.shift();
+/**
+ * HTTP CONNECT握手：隧道目标是IP地址，返回握手响应之后已读到的数据
+ */
+async function httpConnect(conn: Deno.Conn, proxy: URL, address: IPAddress, host: string, port: number): Promise<Uint8Array> {
+  const target = `${address.version === 6 ? `[${host}]` : host}:${port}`;
+  let request = `CONNECT ${target} HTTP/1.1\r\nHost: ${target}\r\n`;
+  if (proxy.username) {
+    const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`;
+    request += `Proxy-Authorization: Basic ${btoa(String.fromCharCode(...new TextEncoder().encode(credentials)))}\r\n`;
+  }
+  await conn.write(new TextEncoder().encode(request + '\r\n'));
+
+  let received = new Uint8Array(0);
+  for (;;) {
+    const end = received.findIndex((_, i) =>
+      received[i] === 13 && received[i + 1] === 10 && received[i + 2] === 13 && received[i + 3] === 10);
+    if (end !== -1) {
+      const status = new TextDecoder().decode(received.subarray(0, end)).split('\r\n')[0];
+      const code = Number(status.split(' ')[1]);
+      if (code < 200 || code >= 300 || Number.isNaN(code)) throw new Error(`Proxy CONNECT failed: ${status}`);
+      return received.subarray(end + 4);
     }
-    this.stats.averageResponseTime = this.responseTimes.reduce((a, b) => a + b, 0) / this.responseTimes.length;
+    if (received.length > 16384) throw new Error('Proxy CONNECT response too large');
+    const chunk = new Uint8Array(4096);
+    const read = await conn.read(chunk);
+    if (read === null) throw new Error('Proxy closed the connection during handshake');
+    const merged = new Uint8Array(received.length + read);
+    merged.set(received);
+    merged.set(chunk.subarray(0, read), received.length);
+    received = merged;
   }
+}
 
-  // 记录每小时统计数据
-  private recordHourlyStat(): void {
-    const now = Date.now();
-    const currentRequests = this.stats.totalRequests;
+/**
+ * 连接出口代理并建立到指定IP和端口的隧道，signal中止时关闭连接（握手随即失败）
+ */
+async function openEgressTunnel(proxy: URL, host: string, port: number, signal: AbortSignal): Promise<UpstreamConnection> {
+  const address = parseIPAddress(host);
+  if (!address) throw new Error(`Invalid tunnel address ${host}`);
+  const hostname = proxy.hostname.replace(/^\[|\]$/g, '');
+  const proxyPort = Number(proxy.port) || (proxy.protocol === 'https:' ? 443 : proxy.protocol === 'http:' ? 80 : 1080);
+
+  const conn = proxy.protocol === 'https:'
+    ? await Deno.connectTls({ hostname, port: proxyPort })
+    : await Deno.connect({ hostname, port: proxyPort });
+  const close = () => {
+    try {
+      conn.close();
+    } catch {
+      // 已关闭
+    }
+  };
+  signal.addEventListener('abort', close);
+  try {
+    if (signal.aborted) throw new Error('Proxy tunnel aborted');
+    const leftover = proxy.protocol.startsWith('socks5')
+      ? (await socks5Connect(conn, proxy, address, port), new Uint8Array(0))
+      : await httpConnect(conn, proxy, address, host, port);
+    return { conn, leftover };
+  } catch (error) {
+    close();
+    throw error;
+  } finally {
+    signal.removeEventListener('abort', close);
+  }
+}
+
+interface EgressEndpoint {
+  // 不含认证信息的代理地址，用于日志
+  label: string;
+  // 含认证信息的代理地址，建立隧道时使用
+  proxy: URL;
+  // 没有已校验的目标地址时使用（RESOLVE_DNS=false），由代理解析域名
+  client: Deno.HttpClient;
+  // 按目标IP和端口索引的隧道
+  tunnels: Map<string, UpstreamConnector>;
+  active: number;
+  consecutiveFailures: number;
+  // 被标记为不健康的截止时间，之前轮询时跳过
+  unhealthyUntil: number;
+  // 配置重载后不再使用，空闲时关闭
+  retired: boolean;
+}
 
-    // 计算这一小时的增量请求数
-    const hourlyIncrement = currentRequests - this.lastHourRequestCount;
+interface CompiledEgressRule {
+  rule: EgressRule;
+  hosts?: DomainMatcher;
+  endpoints: EgressEndpoint[];
+  // 下一次轮询的起始位置
+  cursor: number;
+}
 
-    this.hourlyStats.push({
-      timestamp: now,
-      requests: Math.max(0, hourlyIncrement) // 确保不为负数
-    });
+/**
+ * 一次上游请求使用的出口代理，请求收到响应头或失败后必须调用release
+ */
+interface EgressLease {
+  // 规则ID和代理地址（不含认证信息），记录在日志中
+  label: string;
+  client: Deno.HttpClient;
+  // failed为true表示无法经过代理连接上游，null表示结果与代理无关（超时、客户端断开等）
+  release(failed: boolean | null, error?: string): void;
+  // 从time之后建立隧道是否超时
+  timedOutSince(time: number): boolean;
+}
+
+/**
+ * 目标匹配的出口代理规则，每次尝试通过acquire选择代理；有已校验的目标地址时经过代理连接该地址
+ */
+interface EgressRoute {
+  ruleId: string;
+  acquire(): EgressLease;
+}
+
+interface EgressProxyStats {
+  proxy: string;
+  rules: string[];
+  healthy: boolean;
+  consecutiveFailures: number;
+  activeRequests: number;
+  // 到已校验目标地址的隧道数
+  tunnels: number;
+  unhealthyUntil?: string;
+}
+
+/**
+ * 出口代理：按目标域名选择规则，规则内的多个代理轮询使用。
+ * 目标地址已经过SSRF检查时，经过代理建立到该IP的隧道（UpstreamConnector），连接不会落到重新解析出的地址上；
+ * 连续多次无法经过某个代理连接上游时，在一段时间内跳过它；规则内的代理全部不健康时仍使用最早恢复的一个
+ */
+class EgressRouter {
+  private rules: CompiledEgressRule[] = [];
+  // 按代理地址（含认证信息）索引，重载配置时地址不变的代理沿用客户端和健康状态
+  private endpoints: Map<string, EgressEndpoint> = new Map();
+  private failureThreshold: number;
+  private unhealthyDuration: number;
+  private onUnhealthy: (proxy: string, error?: string) => void;
+  // 建立隧道（连接代理、握手并连接目标）的超时时间
+  private connectTimeout: number;
+  private idleTimeout = 60000;
+  private cleanupTimer: number | null = null;
+  private isDestroyed: boolean = false;
+
+  constructor(rules: EgressRule[], failureThreshold: number, unhealthyDuration: number, connectTimeout: number,
+    onUnhealthy: (proxy: string, error?: string) => void) {
+    this.failureThreshold = failureThreshold;
+    this.unhealthyDuration = unhealthyDuration;
+    this.connectTimeout = connectTimeout;
+    this.onUnhealthy = onUnhealthy;
+    this.configure(rules, failureThreshold, unhealthyDuration, connectTimeout);
+
+    // 关闭长时间空闲的隧道
+    this.cleanupTimer = setInterval(() => {
+      if (!this.isDestroyed) {
+        this.cleanup();
+      }
+    }, this.idleTimeout) as unknown as number;
+  }
 
-    // 更新上一小时的请求计数
-    this.lastHourRequestCount = currentRequests;
+  static isAvailable(): boolean {
+    return UpstreamConnector.isAvailable();
+  }
 
-    // 保留最近24小时的数据
-    if (this.hourlyStats.length > 24) {
-      this.hourlyStats.shift();
+  configure(rules: EgressRule[], failureThreshold: number, unhealthyDuration: number, connectTimeout: number): void {
+    this.failureThreshold = failureThreshold;
+    this.unhealthyDuration = unhealthyDuration;
+    this.connectTimeout = connectTimeout;
+
+    // 规则在加载配置时已校验，这里不会产生错误
+    const errors: string[] = [];
+    const endpoints: Map<string, EgressEndpoint> = new Map();
+    this.rules = rules.map(rule => ({
+      rule,
+      hosts: rule.hosts?.length ? compileDomainRules(rule.hosts, rule.id, errors) : undefined,
+      endpoints: (rule.proxies || []).map(proxy => {
+        const endpoint = endpoints.get(proxy) || this.endpoints.get(proxy) || this.createEndpoint(proxy);
+        endpoints.set(proxy, endpoint);
+        return endpoint;
+      }),
+      cursor: 0
+    }));
+
+    for (const [proxy, endpoint] of this.endpoints) {
+      if (endpoints.has(proxy)) continue;
+      endpoint.retired = true;
+      if (endpoint.active === 0) this.closeEndpoint(endpoint);
     }
+    this.endpoints = endpoints;
   }
 
-  getStats(): RequestStats & { hourlyStats?: { timestamp: number; requests: number }[] } {
-    const result = {
-      ...this.stats,
-      topDomains: new Map(Array.from(this.stats.topDomains.entries())
-        .sort((a, b) => b[1] - a[1]).slice(0, 10)),
-      topIPs: new Map(Array.from(this.stats.topIPs.entries())
-        .sort((a, b) => b[1] - a[1]).slice(0, 10)),
-      hourlyStats: this.hourlyStats
+  private closeEndpoint(endpoint: EgressEndpoint): void {
+    endpoint.client.close();
+    for (const tunnel of endpoint.tunnels.values()) {
+      tunnel.close();
+    }
+    endpoint.tunnels.clear();
+  }
+
+  private createEndpoint(proxy: string): EgressEndpoint {
+    const url = new URL(proxy);
+    const basicAuth = url.username
+      ? { username: decodeURIComponent(url.username), password: decodeURIComponent(url.password) }
+      : undefined;
+    const proxyUrl = new URL(url);
+    url.username = '';
+    url.password = '';
+    const label = url.toString().replace(/\/$/, '');
+    return {
+      label,
+      proxy: proxyUrl,
+      tunnels: new Map(),
+      client: Deno.createHttpClient({
+        proxy: {
+          transport: url.protocol.startsWith('socks5') ? 'socks5' : url.protocol === 'https:' ? 'https' : 'http',
+          url: label,
+          basicAuth
+        }
+      }),
+      active: 0,
+      consecutiveFailures: 0,
+      unhealthyUntil: 0,
+      retired: false
     };
-    return result;
   }
 
-  // 添加性能分析数据
-  getPerformanceData(): {
-    requestsPerMinute: number;
-    averageResponseTime: number;
-    errorRate: number;
-    topEndpoints: [string, number][];
-  } {
+  /**
+   * 查找目标主机的出口代理，直接连接时返回null
+   * target为SSRF检查时校验过的地址和端口，省略时（未解析DNS）由代理解析域名
+   */
+  route(hostname: string, target?: { address: string; port: number }): EgressRoute | null {
+    const compiled = this.rules.find(({ hosts }) => !hosts || hosts.matches(hostname));
+    if (!compiled || compiled.endpoints.length === 0) return null;
+    return { ruleId: compiled.rule.id, acquire: () => this.acquire(compiled, target) };
+  }
+
+  private acquire(compiled: CompiledEgressRule, target?: { address: string; port: number }): EgressLease {
     const now = Date.now();
-    const oneMinuteAgo = now - 60000;
-    
-    // 计算最近一分钟的请求数
-    const recentHourlyStats = this.hourlyStats.filter(stat => stat.timestamp > oneMinuteAgo);
-    const requestsLastMinute = recentHourlyStats.length > 0 
-      ? this.stats.totalRequests - recentHourlyStats[0].requests 
-      : 0;
-    
-    // 计算错误率
-    const errorRate = this.stats.totalRequests > 0 
-      ? this.stats.failedRequests / this.stats.totalRequests 
-      : 0;
-    
-    // 获取最常访问的目标域名
-    const topEndpoints = Array.from(this.stats.topDomains.entries())
-      .sort((a, b) => b[1] - a[1])
-      .slice(0, 5);
-    
+    const { endpoints } = compiled;
+    let endpoint: EgressEndpoint | undefined;
+    for (let offset = 0; offset < endpoints.length; offset++) {
+      const index = (compiled.cursor + offset) % endpoints.length;
+      if (endpoints[index].unhealthyUntil <= now) {
+        endpoint = endpoints[index];
+        compiled.cursor = (index + 1) % endpoints.length;
+        break;
+      }
+    }
+    // 全部不健康时使用最早恢复的代理，而不是拒绝请求
+    endpoint ??= endpoints.reduce((earliest, item) => item.unhealthyUntil < earliest.unhealthyUntil ? item : earliest);
+
+    const current = endpoint;
+    let tunnel: UpstreamConnector | undefined;
+    if (target) {
+      const key = `${target.address}|${target.port}`;
+      tunnel = current.tunnels.get(key);
+      if (!tunnel) {
+        tunnel = new UpstreamConnector(signal => openEgressTunnel(current.proxy, target.address, target.port, signal),
+          () => this.connectTimeout);
+        current.tunnels.set(key, tunnel);
+      }
+      tunnel.active++;
+      tunnel.lastUsed = Date.now();
+    }
+    current.active++;
+    let released = false;
     return {
-      requestsPerMinute: requestsLastMinute,
-      averageResponseTime: this.stats.averageResponseTime,
-      errorRate: errorRate,
-      topEndpoints: topEndpoints
+      label: `${compiled.rule.id}:${current.label}`,
+      client: tunnel?.client ?? current.client,
+      release: (failed, error) => {
+        if (released) return;
+        released = true;
+        current.active = Math.max(0, current.active - 1);
+        if (tunnel) {
+          tunnel.active = Math.max(0, tunnel.active - 1);
+          tunnel.lastUsed = Date.now();
+          // 隧道建立失败时客户端只看到连接被关闭，使用隧道记录的原因
+          if (failed === true && tunnel.lastError) error = tunnel.lastError;
+        }
+        if (failed === false) {
+          current.consecutiveFailures = 0;
+          current.unhealthyUntil = 0;
+        } else if (failed === true && ++current.consecutiveFailures >= this.failureThreshold) {
+          const wasHealthy = current.unhealthyUntil <= Date.now();
+          current.unhealthyUntil = Date.now() + this.unhealthyDuration;
+          if (wasHealthy) this.onUnhealthy(current.label, error);
+        }
+        if (current.retired && current.active === 0) this.closeEndpoint(current);
+      },
+      timedOutSince: time => tunnel?.timedOutSince(time) ?? false
     };
   }
 
-  reset(): void {
-    this.stats = {
-      totalRequests: 0,
-      successfulRequests: 0,
-      failedRequests: 0,
-      topDomains: new Map(),
-      topIPs: new Map(),
-      statusCodes: new Map(),
-      averageResponseTime: 0,
-      startTime: Date.now()
-    };
-    this.responseTimes = [];
-    // 保留历史统计数据
-    // this.hourlyStats = [];
+  // 关闭长时间空闲的隧道
+  private cleanup(): void {
+    const now = Date.now();
+    for (const endpoint of this.endpoints.values()) {
+      for (const [key, tunnel] of endpoint.tunnels) {
+        if (tunnel.active === 0 && now - tunnel.lastUsed > this.idleTimeout) {
+          tunnel.close();
+          endpoint.tunnels.delete(key);
+        }
+      }
+    }
+  }
+
+  getStats(): EgressProxyStats[] {
+    const now = Date.now();
+    return Array.from(this.endpoints.values(), endpoint => {
+      const stats: EgressProxyStats = {
+        proxy: endpoint.label,
+        rules: this.rules.filter(({ endpoints }) => endpoints.includes(endpoint)).map(({ rule }) => rule.id),
+        healthy: endpoint.unhealthyUntil <= now,
+        consecutiveFailures: endpoint.consecutiveFailures,
+        activeRequests: endpoint.active,
+        tunnels: endpoint.tunnels.size
+      };
+      if (!stats.healthy) stats.unhealthyUntil = new Date(endpoint.unhealthyUntil).toISOString();
+      return stats;
+    });
   }
 
-  // 清理资源
   destroy(): void {
     this.isDestroyed = true;
-    if (this.hourlyTimer !== null) {
-      clearInterval(this.hourlyTimer);
-      this.hourlyTimer = null;
+    if (this.cleanupTimer !== null) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
+    for (const endpoint of this.endpoints.values()) {
+      this.closeEndpoint(endpoint);
     }
+    this.endpoints.clear();
+    this.rules = [];
   }
 }
 
-class Logger {
-  private enableConsole: boolean;
-  private webhookUrl?: string;
-  // 添加日志缓冲区，减少I/O操作
-  private logBuffer: string[] = [];
-  private bufferSize = 10;
-  private bufferTimer: number | null = null;
+// ==================== 共享状态模块 ====================
+type StateKey = (string | number)[];
+
+/**
+ * 共享状态存储：限流、并发、统计和响应缓存都通过它读写状态
+ * 多实例部署时使用Deno KV后端，所有实例共享同一份限额和计数
+ */
+interface StateStore {
+  readonly backend: 'memory' | 'kv';
+  // 单个值的大小上限（字节），超过时调用方应放弃写入
+  readonly maxValueSize: number;
+  get<T>(key: StateKey): Promise<T | undefined>;
+  set(key: StateKey, value: unknown, ttlMs?: number): Promise<void>;
+  delete(key: StateKey): Promise<void>;
+  // 原子地读取并更新单个值，fn可能因并发冲突被多次调用
+  update<T>(key: StateKey, fn: (current: T | undefined) => { value: T; ttlMs?: number }): Promise<T>;
+  // 原子地累加一组计数器（只支持非负增量）
+  increment(entries: [StateKey, number][]): Promise<void>;
+  list<T>(prefix: StateKey): Promise<[StateKey, T][]>;
+  deletePrefix(prefix: StateKey): Promise<number>;
+  close(): void;
+}
+
+/**
+ * 进程内存储，单实例部署的默认后端
+ */
+class MemoryStateStore implements StateStore {
+  readonly backend = 'memory';
+  readonly maxValueSize = Infinity;
+  private entries: Map<string, { key: StateKey; value: unknown; expiresAt?: number }> = new Map();
+  private cleanupTimer: number | null = null;
   private isDestroyed: boolean = false;
 
-  constructor(enableConsole: boolean, webhookUrl?: string) {
-    this.enableConsole = enableConsole;
-    this.webhookUrl = webhookUrl;
+  constructor() {
+    // 定期清理过期条目
+    this.cleanupTimer = setInterval(() => {
+      if (!this.isDestroyed) {
+        this.cleanup();
+      }
+    }, 30000) as unknown as number;
+  }
 
-    // 定期刷新日志缓冲区
-    if (this.webhookUrl) {
-      this.bufferTimer = setInterval(() => {
-        if (!this.isDestroyed) {
-          this.flushLogBuffer();
-        }
-      }, 30000) as unknown as number;
+  private read<T>(key: StateKey): T | undefined {
+    const id = JSON.stringify(key);
+    const entry = this.entries.get(id);
+    if (!entry) return undefined;
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.entries.delete(id);
+      return undefined;
     }
+    return entry.value as T;
   }
 
-  logRequest(request: Request, response: Response, proxyUrl?: string, responseTime?: number): void {
-    if (!this.enableConsole && !this.webhookUrl) return;
-
-    // 过滤敏感信息
-    const sanitizedUrl = this.sanitizeUrl(new URL(request.url).pathname);
-    const sanitizedProxyUrl = proxyUrl ? this.sanitizeUrl(proxyUrl) : undefined;
-    const sanitizedUserAgent = this.sanitizeUserAgent(request.headers.get('user-agent'));
+  private write(key: StateKey, value: unknown, ttlMs?: number): void {
+    this.entries.set(JSON.stringify(key), { key, value, expiresAt: ttlMs !== undefined ? Date.now() + ttlMs : undefined });
+  }
 
-    const logData = {
-      timestamp: new Date().toISOString(),
-      method: request.method,
-      url: sanitizedUrl,
-      proxyUrl: sanitizedProxyUrl,
-      statusCode: response.status,
-      responseTime,
-      userAgent: sanitizedUserAgent,
-      referer: request.headers.get('referer'),
-      ip: this.getClientIP(request)
-    };
+  private hasPrefix(key: StateKey, prefix: StateKey): boolean {
+    return prefix.length <= key.length && prefix.every((part, index) => key[index] === part);
+  }
 
-    if (this.enableConsole) {
-      console.log(`[${logData.timestamp}] ${logData.method} ${logData.url} -> ${logData.proxyUrl} (${logData.statusCode}) ${logData.responseTime}ms`);
-    }
+  get<T>(key: StateKey): Promise<T | undefined> {
+    return Promise.resolve(this.read<T>(key));
+  }
 
-    if (this.webhookUrl) {
-      // 将日志添加到缓冲区
-      this.logBuffer.push(JSON.stringify(logData));
-      
-      // 如果缓冲区已满，立即发送
-      if (this.logBuffer.length >= this.bufferSize) {
-        this.flushLogBuffer();
-      }
-    }
+  set(key: StateKey, value: unknown, ttlMs?: number): Promise<void> {
+    this.write(key, value, ttlMs);
+    return Promise.resolve();
   }
 
-  logError(error: Error, context?: any): void {
-    if (!this.enableConsole && !this.webhookUrl) return;
+  delete(key: StateKey): Promise<void> {
+    this.entries.delete(JSON.stringify(key));
+    return Promise.resolve();
+  }
 
-    const logData = {
-      timestamp: new Date().toISOString(),
-      level: 'ERROR',
-      message: error.message,
-      stack: error.stack,
-      context
-    };
+  update<T>(key: StateKey, fn: (current: T | undefined) => { value: T; ttlMs?: number }): Promise<T> {
+    const { value, ttlMs } = fn(this.read<T>(key));
+    this.write(key, value, ttlMs);
+    return Promise.resolve(value);
+  }
 
-    if (this.enableConsole) {
-      console.error(`[${logData.timestamp}] ERROR: ${error.message}`, context);
+  increment(entries: [StateKey, number][]): Promise<void> {
+    for (const [key, delta] of entries) {
+      this.write(key, (this.read<number>(key) || 0) + delta);
     }
+    return Promise.resolve();
+  }
 
-    if (this.webhookUrl) {
-      fetch(this.webhookUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(logData)
-      }).catch(() => {});
+  list<T>(prefix: StateKey): Promise<[StateKey, T][]> {
+    const now = Date.now();
+    const result: [StateKey, T][] = [];
+    for (const entry of this.entries.values()) {
+      if ((entry.expiresAt === undefined || entry.expiresAt > now) && this.hasPrefix(entry.key, prefix)) {
+        result.push([entry.key, entry.value as T]);
+      }
     }
+    return Promise.resolve(result);
   }
 
-  // 批量发送日志到webhook
-  private flushLogBuffer(): void {
-    if (this.webhookUrl && this.logBuffer.length > 0) {
-      const logs = this.logBuffer;
-      this.logBuffer = [];
-      
-      fetch(this.webhookUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ logs })
-      }).catch(() => {});
+  deletePrefix(prefix: StateKey): Promise<number> {
+    let count = 0;
+    for (const [id, entry] of this.entries.entries()) {
+      if (this.hasPrefix(entry.key, prefix)) {
+        this.entries.delete(id);
+        count++;
+      }
     }
+    return Promise.resolve(count);
   }
 
-  // 清理资源
   cleanup(): void {
+    const now = Date.now();
+    for (const [id, entry] of this.entries.entries()) {
+      if (entry.expiresAt !== undefined && entry.expiresAt <= now) {
+        this.entries.delete(id);
+      }
+    }
+  }
+
+  close(): void {
     this.isDestroyed = true;
-    if (this.bufferTimer !== null) {
-      clearInterval(this.bufferTimer);
-      this.bufferTimer = null;
-      this.flushLogBuffer();
+    if (this.cleanupTimer !== null) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
     }
+    this.entries.clear();
   }
+}
 
-  private getClientIP(request: Request): string {
-    return request.headers.get('cf-connecting-ip') ||
-           request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() ||
-           request.headers.get('x-real-ip') ||
-           'unknown';
+/**
+ * Deno KV存储，多个实例共享状态
+ * 本地运行时使用文件路径（需要 --unstable-kv），Deno Deploy上不指定路径即使用托管的KV
+ */
+class KvStateStore implements StateStore {
+  readonly backend = 'kv';
+  // Deno KV单个值上限为64KiB，预留序列化开销
+  readonly maxValueSize = 60 * 1024;
+  private kv: Deno.Kv;
+
+  private constructor(kv: Deno.Kv) {
+    this.kv = kv;
   }
 
-  // 清理URL中的敏感信息
-  private sanitizeUrl(url: string): string {
-    try {
-      const urlObj = new URL(url.startsWith('http') ? url : `http://example.com${url}`);
-      // 移除查询参数中的敏感信息
-      const sensitiveParams = ['key', 'token', 'password', 'secret', 'auth', 'api_key'];
-      sensitiveParams.forEach(param => {
-        if (urlObj.searchParams.has(param)) {
-          urlObj.searchParams.set(param, '***');
-        }
-      });
-      return url.startsWith('http') ? urlObj.toString() : urlObj.pathname + urlObj.search;
-    } catch {
-      return url;
+  static async open(path?: string): Promise<KvStateStore> {
+    return new KvStateStore(await Deno.openKv(path));
+  }
+
+  // 计数器以KvU64保存，读取时转换为number
+  private fromKv<T>(value: unknown): T {
+    return (value instanceof Deno.KvU64 ? Number(value.value) : value) as T;
+  }
+
+  async get<T>(key: StateKey): Promise<T | undefined> {
+    const entry = await this.kv.get(key);
+    return entry.value === null ? undefined : this.fromKv<T>(entry.value);
+  }
+
+  async set(key: StateKey, value: unknown, ttlMs?: number): Promise<void> {
+    await this.kv.set(key, value, ttlMs !== undefined ? { expireIn: Math.max(1, Math.ceil(ttlMs)) } : undefined);
+  }
+
+  async delete(key: StateKey): Promise<void> {
+    await this.kv.delete(key);
+  }
+
+  async update<T>(key: StateKey, fn: (current: T | undefined) => { value: T; ttlMs?: number }): Promise<T> {
+    // 乐观锁：版本号变化时重试
+    for (let attempt = 0; attempt < 20; attempt++) {
+      const entry = await this.kv.get(key);
+      const { value, ttlMs } = fn(entry.value === null ? undefined : this.fromKv<T>(entry.value));
+      const result = await this.kv.atomic()
+        .check(entry)
+        .set(key, value, ttlMs !== undefined ? { expireIn: Math.max(1, Math.ceil(ttlMs)) } : undefined)
+        .commit();
+      if (result.ok) return value;
     }
+    throw new Error(`State update conflict: ${JSON.stringify(key)}`);
   }
 
-  // 清理User-Agent中的敏感信息
-  private sanitizeUserAgent(userAgent: string | null): string | null {
-    if (!userAgent) return null;
-    // 移除可能的敏感信息，保留基本的浏览器信息
-    return userAgent.replace(/\b[\w-]{32,}\b/g, '***'); // 移除长的token-like字符串
+  async increment(entries: [StateKey, number][]): Promise<void> {
+    const operation = this.kv.atomic();
+    for (const [key, delta] of entries) {
+      operation.sum(key, BigInt(Math.max(0, Math.round(delta))));
+    }
+    await operation.commit();
   }
-}
 
-// ==================== 主服务模块 ====================
-class CiaoCorsServer {
-  private config: Config;
-  private rateLimiter: RateLimiter;
-  private concurrencyLimiter: ConcurrencyLimiter;
-  private statsCollector: StatsCollector;
-  private logger: Logger;
-  // 添加简单缓存
-  private responseCache: Map<string, { response: Response, timestamp: number }> = new Map();
-  private cacheTTL = 60000; // 1分钟缓存
-  private cacheCleanupTimer: number | null = null;
-  private isDestroyed: boolean = false;
+  async list<T>(prefix: StateKey): Promise<[StateKey, T][]> {
+    const result: [StateKey, T][] = [];
+    for await (const entry of this.kv.list({ prefix })) {
+      result.push([entry.key as StateKey, this.fromKv<T>(entry.value)]);
+    }
+    return result;
+  }
 
-  constructor() {
-    this.config = loadConfig();
-    this.rateLimiter = new RateLimiter(this.config.rateLimitWindow, this.config.rateLimit);
-    this.concurrencyLimiter = new ConcurrencyLimiter(this.config.concurrentLimit, this.config.totalConcurrentLimit);
-    this.statsCollector = new StatsCollector();
-    this.logger = new Logger(this.config.enableLogging, this.config.logWebhook);
-
-    // 定期清理缓存
-    this.cacheCleanupTimer = setInterval(() => {
-      if (!this.isDestroyed) {
-        this.cleanupCache();
+  async deletePrefix(prefix: StateKey): Promise<number> {
+    let count = 0;
+    let operation = this.kv.atomic();
+    let pending = 0;
+    for await (const entry of this.kv.list({ prefix })) {
+      operation.delete(entry.key);
+      count++;
+      // 单个原子操作的变更数量有限，分批提交
+      if (++pending >= 500) {
+        await operation.commit();
+        operation = this.kv.atomic();
+        pending = 0;
       }
-    }, 30000) as unknown as number;
+    }
+    if (pending > 0) await operation.commit();
+    return count;
   }
 
-  async handleRequest(request: Request): Promise<Response> {
-    // 增加请求ID用于日志追踪
-    const requestId = crypto.randomUUID ? crypto.randomUUID() : `req-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
-    const startTime = Date.now();
-    const clientIP = this.getClientIP(request);
-    const origin = request.headers.get('origin');
+  close(): void {
+    this.kv.close();
+  }
+}
 
-    try {
-      // 处理OPTIONS预检请求
-      if (request.method === 'OPTIONS') {
-        return this.handlePreflight(request);
-      }
+/**
+ * 根据配置创建状态存储
+ */
+async function createStateStore(config: Config): Promise<StateStore> {
+  if (config.stateBackend === 'kv') {
+    return await KvStateStore.open(config.kvPath);
+  }
+  return new MemoryStateStore();
+}
 
-      // 解析目标URL
-      const url = new URL(request.url);
-      let targetPath = decodeURIComponent(url.pathname.substring(1));
+// ==================== 限制和安全模块 ====================
+type RateLimitAlgorithmName = 'sliding-window' | 'token-bucket' | 'gcra';
+
+// 单次限流检查的结果，时间单位均为毫秒
+interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // 配额完全恢复所需时间
+  resetMs: number;
+  // 被拒绝时距离下一次允许请求的时间
+  retryAfterMs: number;
+}
 
-      // 处理管理API
-      if (targetPath.startsWith('_api/')) {
-        return this.handleManagementApi(request, targetPath);
+/**
+ * 限流算法：每个键只保存固定大小的状态
+ * state为普通对象，expiresAt之后状态等同于初始状态，可以删除
+ */
+interface RateLimitAlgorithm<S extends { expiresAt: number }> {
+  consume(state: S | undefined, now: number, limit: number, windowMs: number): { state: S; result: RateLimitResult };
+}
+
+/**
+ * 滑动窗口计数：按上一窗口剩余时间比例加权估算当前窗口内的请求数
+ */
+const slidingWindowAlgorithm: RateLimitAlgorithm<{ windowStart: number; previous: number; current: number; expiresAt: number }> = {
+  consume(state, now, limit, windowMs) {
+    const windowStart = Math.floor(now / windowMs) * windowMs;
+    let previous = 0;
+    let current = 0;
+    if (state) {
+      if (state.windowStart === windowStart) {
+        previous = state.previous;
+        current = state.current;
+      } else if (state.windowStart === windowStart - windowMs) {
+        previous = state.current;
       }
+    }
 
-      // 添加健康检查路径
-      if (targetPath === 'health' || targetPath === '_health') {
-        return new Response(JSON.stringify({
-          status: 'ok',
-          timestamp: new Date().toISOString(),
-          version: '1.3.0'
-        }), {
-          headers: { 'Content-Type': 'application/json' }
-        });
+    const elapsed = now - windowStart;
+    const estimate = (count: number) => previous * (1 - elapsed / windowMs) + count;
+    const allowed = estimate(current + 1) <= limit;
+    if (allowed) current++;
+
+    let retryAfterMs = 0;
+    if (!allowed) {
+      if (current >= limit) {
+        // 当前窗口已满，需要等到下一窗口中本窗口的权重降到足够低
+        retryAfterMs = windowMs - elapsed + Math.max(0, (1 - (limit - 1) / current) * windowMs);
+      } else {
+        retryAfterMs = Math.max(0, windowMs * (1 - (limit - 1 - current) / previous) - elapsed);
       }
+    }
 
-      // 验证基本URL格式
-      if (targetPath.length < 3 || !targetPath.includes('.') ||
-          targetPath === 'favicon.ico' || targetPath === 'robots.txt') {
-        return this.createErrorResponse(400, 'Invalid URL format', {
-          usage: 'https://your-domain.com/{target-url}',
-          example: 'https://your-domain.com/httpbin.org/get'
-        });
+    return {
+      state: { windowStart, previous, current, expiresAt: windowStart + 2 * windowMs },
+      result: {
+        allowed,
+        limit,
+        remaining: Math.max(0, Math.floor(limit - estimate(current))),
+        resetMs: (current > 0 ? 2 * windowMs : windowMs) - elapsed,
+        retryAfterMs
       }
+    };
+  }
+};
 
-      // 添加必需头部验证（类似 cors-anywhere.com）
-      if (this.config.requireHeaders) {
-        const hasOrigin = request.headers.has('origin');
-        const hasXRequestedWith = request.headers.has('x-requested-with');
+/**
+ * 令牌桶：容量为limit，每个窗口匀速补满，允许突发
+ */
+const tokenBucketAlgorithm: RateLimitAlgorithm<{ tokens: number; updatedAt: number; expiresAt: number }> = {
+  consume(state, now, limit, windowMs) {
+    const refillRate = limit / windowMs;
+    let tokens = state ? Math.min(limit, state.tokens + (now - state.updatedAt) * refillRate) : limit;
 
-        if (!hasOrigin && !hasXRequestedWith) {
-          return this.createErrorResponse(403, 'Missing required request header. Must specify one of: origin,x-requested-with', {
-            usage: 'Add "Origin" or "X-Requested-With" header to your request',
-            example: 'fetch(url, { headers: { "X-Requested-With": "XMLHttpRequest" } })'
-          });
-        }
-      }
+    const allowed = tokens >= 1;
+    if (allowed) tokens -= 1;
 
-      // 检查请求频率限制
-      if (!this.rateLimiter.checkLimit(clientIP)) {
-        return this.createErrorResponse(429, 'Rate limit exceeded', {
-          retryAfter: Math.ceil(this.config.rateLimitWindow / 1000)
-        });
+    const resetMs = Math.ceil((limit - tokens) / refillRate);
+    return {
+      state: { tokens, updatedAt: now, expiresAt: now + resetMs },
+      result: {
+        allowed,
+        limit,
+        remaining: Math.floor(tokens),
+        resetMs,
+        retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / refillRate)
       }
+    };
+  }
+};
 
-      // 检查并发限制
+/**
+ * GCRA（通用信元速率算法）：只保存理论到达时间（TAT），请求被均匀分布在窗口内，允许limit个突发
+ */
+const gcraAlgorithm: RateLimitAlgorithm<{ tat: number; expiresAt: number }> = {
+  consume(state, now, limit, windowMs) {
+    const interval = windowMs / limit;
+    const tat = Math.max(state?.tat ?? now, now);
+    const newTat = tat + interval;
+    const allowAt = newTat - windowMs;
+
+    const allowed = now >= allowAt;
+    const effectiveTat = allowed ? newTat : tat;
+    return {
+      state: { tat: effectiveTat, expiresAt: effectiveTat },
+      result: {
+        allowed,
+        limit,
+        remaining: Math.max(0, Math.floor((windowMs - (effectiveTat - now)) / interval)),
+        resetMs: Math.ceil(effectiveTat - now),
+        retryAfterMs: allowed ? 0 : Math.ceil(allowAt - now)
+      }
+    };
+  }
+};
+
+const RATE_LIMIT_ALGORITHMS: Record<RateLimitAlgorithmName, RateLimitAlgorithm<any>> = {
+  'sliding-window': slidingWindowAlgorithm,
+  'token-bucket': tokenBucketAlgorithm,
+  'gcra': gcraAlgorithm
+};
+
+/**
+ * 限流器，状态保存在共享存储中
+ * namespace区分不同用途的限流器（全局按IP、策略规则、客户端密钥），限流键为IP或密钥ID
+ */
+class RateLimiter {
+  private store: StateStore;
+  private namespace: string;
+  private windowMs: number;
+  private maxRequests: number;
+  private algorithm: RateLimitAlgorithm<{ expiresAt: number }>;
+  readonly algorithmName: RateLimitAlgorithmName;
+
+  constructor(store: StateStore, namespace: string, windowMs: number, maxRequests: number,
+    algorithm: RateLimitAlgorithmName = 'sliding-window') {
+    this.store = store;
+    this.namespace = namespace;
+    this.windowMs = windowMs;
+    this.maxRequests = maxRequests;
+    this.algorithmName = algorithm;
+    this.algorithm = RATE_LIMIT_ALGORITHMS[algorithm];
+  }
+
+  /**
+   * 消耗一次请求配额并返回限流状态
+   */
+  async consume(key: string): Promise<RateLimitResult> {
+    if (this.maxRequests <= 0) {
+      return { allowed: false, limit: 0, remaining: 0, resetMs: this.windowMs, retryAfterMs: this.windowMs };
+    }
+
+    let result!: RateLimitResult;
+    await this.store.update<{ expiresAt: number }>(['ratelimit', this.namespace, this.algorithmName, key], state => {
+      const now = Date.now();
+      const consumed = this.algorithm.consume(state, now, this.maxRequests, this.windowMs);
+      result = consumed.result;
+      // 状态过期后等同于初始状态，交给存储自动删除
+      return { value: consumed.state, ttlMs: consumed.state.expiresAt - now };
+    });
+    return result;
+  }
+
+  async getStats(): Promise<{ algorithm: RateLimitAlgorithmName; totalIPs: number }> {
+    const states = await this.store.list(['ratelimit', this.namespace, this.algorithmName]);
+    return {
+      algorithm: this.algorithmName,
+      totalIPs: states.length
+    };
+  }
+}
+
+/**
+ * 按IETF RateLimit头部草案设置响应头，被拒绝时同时设置Retry-After
+ */
+function applyRateLimitHeaders(headers: Headers, result: RateLimitResult): void {
+  headers.set('RateLimit-Limit', String(result.limit));
+  headers.set('RateLimit-Remaining', String(result.remaining));
+  headers.set('RateLimit-Reset', String(Math.ceil(result.resetMs / 1000)));
+  if (!result.allowed) {
+    headers.set('Retry-After', String(Math.max(1, Math.ceil(result.retryAfterMs / 1000))));
+  }
+
+  // 暴露头部不是 * 时（例如携带凭证），追加限流头部以便浏览器读取
+  const exposed = headers.get('Access-Control-Expose-Headers');
+  if (exposed && exposed !== '*') {
+    headers.set('Access-Control-Expose-Headers', `${exposed}, RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset, Retry-After`);
+  }
+}
+
+// 并发名额按实例保存：持有名额期间每隔 CONCURRENCY_HEARTBEAT_INTERVAL 续期，
+// 实例异常退出后不再续期，它占用的名额在 CONCURRENCY_LEASE_TTL 后自动释放
+const CONCURRENCY_LEASE_TTL = 30 * 1000;
+const CONCURRENCY_HEARTBEAT_INTERVAL = 10 * 1000;
+
+/**
+ * 并发限制：每个限制器（实例）在本地计数，并把自己持有的名额写入共享存储中属于自己的键，
+ * 检查上限时合计其他实例的名额。各实例只写自己的键，不会产生写冲突；
+ * 多个实例同时获取名额时可能短暂超出上限
+ */
+class ConcurrencyLimiter {
+  private store: StateStore;
+  private namespace: string;
+  private perIpLimit: number;
+  private totalLimit: number;
+  private id = randomHex(8);
+  // 本实例持有的名额
+  private counts: Map<string, number> = new Map();
+  private total = 0;
+  private heartbeatTimer: number | null = null;
+
+  constructor(store: StateStore, namespace: string, perIpLimit: number, totalLimit: number) {
+    this.store = store;
+    this.namespace = namespace;
+    this.perIpLimit = perIpLimit;
+    this.totalLimit = totalLimit;
+  }
+
+  configure(perIpLimit: number, totalLimit: number): void {
+    this.perIpLimit = perIpLimit;
+    this.totalLimit = totalLimit;
+  }
+
+  // 其他实例持有的名额合计，键的最后一项为实例ID
+  private async countOthers(prefix: StateKey): Promise<number> {
+    // 进程内存储中没有其他实例
+    if (this.store.backend === 'memory') return 0;
+    return (await this.store.list<number>(prefix))
+      .filter(([key]) => key.length === prefix.length + 1 && key[prefix.length] !== this.id)
+      .reduce((sum, [, count]) => sum + count, 0);
+  }
+
+  // 写入本实例持有的名额，名额为0时删除对应的键
+  private async write(ips: string[]): Promise<void> {
+    const totalKey = ['concurrency', this.namespace, 'total', this.id];
+    await Promise.all([
+      this.total > 0 ? this.store.set(totalKey, this.total, CONCURRENCY_LEASE_TTL) : this.store.delete(totalKey),
+      ...ips.map(ip => {
+        const key = ['concurrency', this.namespace, 'ip', ip, this.id];
+        const count = this.counts.get(ip) || 0;
+        return count > 0 ? this.store.set(key, count, CONCURRENCY_LEASE_TTL) : this.store.delete(key);
+      })
+    ]);
+  }
+
+  // 持有名额期间定期续期，名额全部释放后停止
+  private updateHeartbeat(): void {
+    if (this.total > 0 && this.heartbeatTimer === null) {
+      this.heartbeatTimer = setInterval(() => {
+        this.write(Array.from(this.counts.keys())).catch(error => {
+          console.error('❌ Failed to renew concurrency leases:', error instanceof Error ? error.message : error);
+        });
+      }, CONCURRENCY_HEARTBEAT_INTERVAL) as unknown as number;
+    } else if (this.total === 0 && this.heartbeatTimer !== null) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  async acquire(ip: string): Promise<boolean> {
+    const [othersTotal, othersForIp] = await Promise.all([
+      this.countOthers(['concurrency', this.namespace, 'total']),
+      this.countOthers(['concurrency', this.namespace, 'ip', ip])
+    ]);
+    const count = this.counts.get(ip) || 0;
+    if (this.total + othersTotal >= this.totalLimit || count + othersForIp >= this.perIpLimit) {
+      return false;
+    }
+
+    this.counts.set(ip, count + 1);
+    this.total++;
+    this.updateHeartbeat();
+    await this.write([ip]);
+    return true;
+  }
+
+  // 只释放本实例持有的名额，与共享存储中的键是否还存在无关
+  async release(ip: string): Promise<void> {
+    const count = this.counts.get(ip);
+    if (!count) return;
+    if (count > 1) this.counts.set(ip, count - 1);
+    else this.counts.delete(ip);
+    this.total--;
+    this.updateHeartbeat();
+    await this.write([ip]);
+  }
+
+  // 停止续期，未释放的名额随租约过期
+  destroy(): void {
+    if (this.heartbeatTimer !== null) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  async getStats(): Promise<{ perIpCount: Map<string, number>; totalCount: number }> {
+    const [perIp, totals] = await Promise.all([
+      this.store.list<number>(['concurrency', this.namespace, 'ip']),
+      this.store.list<number>(['concurrency', this.namespace, 'total'])
+    ]);
+    const perIpCount = new Map<string, number>();
+    for (const [key, count] of perIp) {
+      if (key.length === 5 && count > 0) perIpCount.set(String(key[3]), (perIpCount.get(String(key[3])) || 0) + count);
+    }
+    return { perIpCount, totalCount: totals.filter(([key]) => key.length === 4).reduce((sum, [, count]) => sum + count, 0) };
+  }
+}
+
+// 滥用检测：各类事件的分数，只统计代理自身的拒绝，上游返回的错误不计分
+const ABUSE_EVENT_SCORES = {
+  // 触发限流
+  rate_limited: 1,
+  // 被安全验证拒绝（黑名单、白名单、恶意URL）
+  rejected: 5,
+  // 被SSRF防护拒绝
+  ssrf: 20,
+  // 客户端密钥无效或超出密钥的访问范围
+  invalid_key: 5,
+  // 请求方法不被目标策略允许
+  method_not_allowed: 2
+};
+
+type AbuseEvent = keyof typeof ABUSE_EVENT_SCORES;
+
+// 分数和请求计数的半衰期，持续的异常行为才会累积到阈值
+const ABUSE_SCORE_HALF_LIFE = 10 * 60 * 1000;
+
+// 拒绝率：衰减后的请求数达到下限，且被代理拒绝（限流除外）的比例达到阈值时，每次拒绝额外计分
+const ABUSE_RATIO_MIN_REQUESTS = 20;
+const ABUSE_RATIO_THRESHOLD = 0.5;
+const ABUSE_RATIO_SCORE = 3;
+
+// 本实例内计数、尚未写入共享状态的IP数量上限，超出时丢弃最久没有请求的IP
+const ABUSE_PENDING_REQUEST_LIMIT = 10000;
+
+// 封禁记录的保留时间，期间再次封禁使用下一级时长
+const ABUSE_OFFENSE_TTL = 7 * 24 * 60 * 60 * 1000;
+
+interface AbuseState {
+  score: number;
+  // 衰减后的请求数和被拒绝的请求数，用于计算拒绝率
+  requests: number;
+  rejections: number;
+  // 各原因贡献的分数，用于说明封禁原因
+  reasons: Record<string, number>;
+  updatedAt: number;
+}
+
+interface AbuseBan {
+  ip: string;
+  reason: string;
+  // 7天内的第几次封禁，决定封禁时长
+  offense: number;
+  score: number;
+  bannedAt: string;
+  expiresAt: string;
+}
+
+/**
+ * 校验封禁时长列表（毫秒，按封禁次数递增使用，超出后使用最后一项）
+ */
+function parseBanDurations(value: unknown, path: string, errors: string[]): number[] | undefined {
+  if (!Array.isArray(value) || value.length === 0 ||
+    !value.every(item => typeof item === 'number' && Number.isInteger(item) && item > 0)) {
+    errors.push(`${path}: expected a non-empty array of positive integers (milliseconds)`);
+    return undefined;
+  }
+  return value;
+}
+
+/**
+ * 滥用检测：按IP累计分数（随时间衰减），超过阈值时临时封禁，多次封禁时长逐级递增
+ * 状态保存在共享存储中，多实例部署时所有实例共享分数和封禁
+ * 请求数先在本实例内计数，下次记录拒绝时一并写入，正常请求不访问共享存储
+ */
+class AbuseDetector {
+  private store: StateStore;
+  private threshold: number;
+  private durations: number[];
+  // 按最近请求时间排列（越靠后越新）
+  private pendingRequests: Map<string, { requests: number; updatedAt: number }> = new Map();
+
+  constructor(store: StateStore, threshold: number, durations: number[]) {
+    this.store = store;
+    this.threshold = threshold;
+    this.durations = durations;
+  }
+
+  configure(threshold: number, durations: number[]): void {
+    this.threshold = threshold;
+    this.durations = durations;
+  }
+
+  async getBan(ip: string): Promise<AbuseBan | null> {
+    return (await this.store.get<AbuseBan>(['abuse', 'ban', ip])) || null;
+  }
+
+  /**
+   * 记录一个代理请求，用于计算拒绝率
+   */
+  countRequest(ip: string): void {
+    const now = Date.now();
+    const pending = this.pendingRequests.get(ip);
+    this.pendingRequests.delete(ip);
+    if (this.pendingRequests.size >= ABUSE_PENDING_REQUEST_LIMIT) {
+      this.pendingRequests.delete(this.pendingRequests.keys().next().value!);
+    }
+    const requests = pending ? pending.requests * 0.5 ** ((now - pending.updatedAt) / ABUSE_SCORE_HALF_LIFE) : 0;
+    this.pendingRequests.set(ip, { requests: requests + 1, updatedAt: now });
+  }
+
+  // 取出本实例内尚未写入的请求数（衰减到当前时间）
+  private takePendingRequests(ip: string): number {
+    const pending = this.pendingRequests.get(ip);
+    if (!pending) return 0;
+    this.pendingRequests.delete(ip);
+    return pending.requests * 0.5 ** ((Date.now() - pending.updatedAt) / ABUSE_SCORE_HALF_LIFE);
+  }
+
+  /**
+   * 记录一次可疑行为，分数达到阈值时封禁并返回封禁信息
+   * 除限流外的拒绝计入拒绝率，请求数足够且大部分请求都被拒绝时额外计分
+   */
+  async record(ip: string, event: AbuseEvent, reason: string): Promise<AbuseBan | null> {
+    const requests = this.takePendingRequests(ip);
+    return await this.update(ip, state => {
+      state.score += ABUSE_EVENT_SCORES[event];
+      state.reasons[reason] = (state.reasons[reason] || 0) + ABUSE_EVENT_SCORES[event];
+      state.requests += requests;
+      if (event === 'rate_limited') return;
+
+      state.rejections++;
+      if (state.requests >= ABUSE_RATIO_MIN_REQUESTS && state.rejections / state.requests >= ABUSE_RATIO_THRESHOLD) {
+        state.score += ABUSE_RATIO_SCORE;
+        state.reasons['High rejection ratio'] = (state.reasons['High rejection ratio'] || 0) + ABUSE_RATIO_SCORE;
+      }
+    });
+  }
+
+  private async update(ip: string, apply: (state: AbuseState) => void): Promise<AbuseBan | null> {
+    let triggered = null as AbuseState | null;
+    await this.store.update<AbuseState>(['abuse', 'client', ip], current => {
+      const now = Date.now();
+      const decay = current ? 0.5 ** ((now - current.updatedAt) / ABUSE_SCORE_HALF_LIFE) : 1;
+      const state: AbuseState = {
+        score: (current?.score || 0) * decay,
+        requests: (current?.requests || 0) * decay,
+        rejections: (current?.rejections || 0) * decay,
+        reasons: Object.fromEntries(Object.entries(current?.reasons || {})
+          .map(([reason, score]) => [reason, score * decay])
+          .filter(([, score]) => (score as number) >= 0.5)),
+        updatedAt: now
+      };
+      apply(state);
+
+      triggered = null;
+      if (state.score >= this.threshold) {
+        // 封禁后重新计分
+        triggered = state;
+        return { value: { score: 0, requests: 0, rejections: 0, reasons: {}, updatedAt: now }, ttlMs: ABUSE_SCORE_HALF_LIFE * 6 };
+      }
+      return { value: state, ttlMs: ABUSE_SCORE_HALF_LIFE * 6 };
+    });
+
+    return triggered ? await this.ban(ip, triggered) : null;
+  }
+
+  private async ban(ip: string, state: AbuseState): Promise<AbuseBan | null> {
+    // 已被封禁（例如其他实例同时触发）时不重复封禁
+    if (await this.getBan(ip)) return null;
+
+    const offense = await this.store.update<number>(['abuse', 'offenses', ip], (count = 0) => ({
+      value: count + 1,
+      ttlMs: ABUSE_OFFENSE_TTL
+    }));
+    const duration = this.durations[Math.min(offense, this.durations.length) - 1];
+    const now = Date.now();
+    const reason = Object.entries(state.reasons)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 3)
+      .map(([name, score]) => `${name} (${Math.round(score)})`)
+      .join(', ');
+    const ban: AbuseBan = {
+      ip,
+      reason: reason || 'Abuse score exceeded',
+      offense,
+      score: Math.round(state.score),
+      bannedAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + duration).toISOString()
+    };
+    await this.store.set(['abuse', 'ban', ip], ban, duration);
+    return ban;
+  }
+
+  async listBans(): Promise<AbuseBan[]> {
+    const now = Date.now();
+    return (await this.store.list<AbuseBan>(['abuse', 'ban']))
+      .map(([, ban]) => ban)
+      .filter(ban => Date.parse(ban.expiresAt) > now)
+      .sort((a, b) => b.bannedAt.localeCompare(a.bannedAt));
+  }
+
+  /**
+   * 解除封禁并清零分数，封禁次数保留（再次封禁仍会升级）
+   */
+  async unban(ip: string): Promise<boolean> {
+    const ban = await this.getBan(ip);
+    if (!ban) return false;
+    await this.store.delete(['abuse', 'ban', ip]);
+    await this.store.delete(['abuse', 'client', ip]);
+    return true;
+  }
+}
+
+// 正则规则允许的标志
+const REGEX_RULE_FLAGS = new Set(['', 'i']);
+
+/**
+ * 域名规则匹配器，在加载配置时编译
+ * 支持三种规则：
+ * - 普通域名 `example.com`：匹配该域名及其所有子域名
+ * - 通配符 `*.cdn.example.com`、`api-*.example.com`：`*` 匹配单个标签内的任意字符，开头的 `*.` 匹配任意层级的子域名（不含自身）
+ * - 正则表达式 `/^api-\d+\.example\.com$/`：按正则匹配完整主机名
+ */
+class DomainMatcher {
+  private exact: Set<string> = new Set();
+  private wildcardSuffixes: Set<string> = new Set();
+  private patterns: RegExp[] = [];
+  private entries = 0;
+
+  /**
+   * 添加域名规则，格式无效时返回false
+   */
+  add(rule: string): boolean {
+    const value = rule.trim();
+    if (!value) return false;
+
+    // 正则表达式规则，只允许i标志：g、y会让test()记住上次匹配的位置
+    const regexMatch = value.match(/^\/(.+)\/([a-z]*)$/);
+    if (regexMatch) {
+      if (!REGEX_RULE_FLAGS.has(regexMatch[2])) return false;
+      try {
+        this.patterns.push(new RegExp(regexMatch[1], regexMatch[2]));
+      } catch {
+        return false;
+      }
+      this.entries++;
+      return true;
+    }
+
+    const domain = value.toLowerCase().replace(/\.$/, '');
+    if (!domain.includes('*')) {
+      this.exact.add(domain);
+    } else if (/^\*\.[^*]+$/.test(domain)) {
+      // 只有开头通配的规则按后缀集合处理，避免逐条正则匹配
+      this.wildcardSuffixes.add(domain.substring(2));
+    } else {
+      const source = domain
+        .split('*')
+        .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('[^.]*');
+      this.patterns.push(new RegExp(`^${source.replace(/^\[\^\.\]\*\\\./, '(?:[^.]+\\.)+')}$`));
+    }
+    this.entries++;
+    return true;
+  }
+
+  matches(hostname: string): boolean {
+    if (this.entries === 0) return false;
+    const host = hostname.toLowerCase().replace(/\.$/, '');
+
+    // 按标签逐级检查后缀：a.b.example.com -> b.example.com -> example.com -> com
+    let suffix = host;
+    let isSelf = true;
+    while (suffix) {
+      if (this.exact.has(suffix)) return true;
+      if (!isSelf && this.wildcardSuffixes.has(suffix)) return true;
+      const dot = suffix.indexOf('.');
+      if (dot === -1) break;
+      suffix = suffix.substring(dot + 1);
+      isSelf = false;
+    }
+
+    return this.patterns.some(pattern => pattern.test(host));
+  }
+
+  get size(): number {
+    return this.entries;
+  }
+
+  toJSON(): { entries: number } {
+    return { entries: this.entries };
+  }
+}
+
+/**
+ * 编译IP规则列表，无效规则记录到errors
+ */
+function compileIPRules(rules: string[], path: string, errors: string[]): CidrTrie {
+  const trie = new CidrTrie();
+  rules.forEach((rule, index) => {
+    if (!trie.add(rule)) {
+      errors.push(`${path}[${index}]: invalid rule "${rule}", expected IP address or CIDR range`);
+    }
+  });
+  return trie;
+}
+
+/**
+ * 编译域名规则列表，无效规则记录到errors
+ */
+function compileDomainRules(rules: string[], path: string, errors: string[]): DomainMatcher {
+  const matcher = new DomainMatcher();
+  rules.forEach((rule, index) => {
+    if (!matcher.add(rule)) {
+      errors.push(`${path}[${index}]: invalid rule "${rule}", expected domain, wildcard or /regex/ pattern (only the i flag is allowed)`);
+    }
+  });
+  return matcher;
+}
+
+/**
+ * 来源（Origin）规则匹配器
+ * 支持 `*`、完整来源 `https://app.example.com`、通配符 `https://*.example.com` 和正则 `/^https:\/\/app\d+\.example\.com$/`
+ */
+class OriginMatcher {
+  private exact: Set<string> = new Set();
+  private patterns: RegExp[] = [];
+  private allowAll = false;
+  private entries = 0;
+
+  /**
+   * 添加来源规则，格式无效时返回false
+   */
+  add(rule: string): boolean {
+    const value = rule.trim();
+    if (!value) return false;
+
+    if (value === '*') {
+      this.allowAll = true;
+    } else if (/^\/(.+)\/([a-z]*)$/.test(value)) {
+      const [, source, flags] = value.match(/^\/(.+)\/([a-z]*)$/)!;
+      if (!REGEX_RULE_FLAGS.has(flags)) return false;
+      try {
+        this.patterns.push(new RegExp(source, flags));
+      } catch {
+        return false;
+      }
+    } else if (value.includes('*')) {
+      // 开头的 *. 匹配任意层级子域名，其余 * 只匹配单个标签内的字符
+      const source = value.toLowerCase()
+        .split('*')
+        .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('[a-z0-9-]*')
+        .replace(/:\/\/\[a-z0-9-\]\*\\\./, '://(?:[a-z0-9-]+\\.)+');
+      this.patterns.push(new RegExp(`^${source}$`));
+    } else {
+      this.exact.add(value.toLowerCase().replace(/\/$/, ''));
+    }
+    this.entries++;
+    return true;
+  }
+
+  matches(origin: string): boolean {
+    if (this.allowAll) return true;
+    const value = origin.toLowerCase();
+    return this.exact.has(value) || this.patterns.some(pattern => pattern.test(value));
+  }
+
+  // 是否允许任意来源
+  get isWildcard(): boolean {
+    return this.allowAll;
+  }
+
+  get size(): number {
+    return this.entries;
+  }
+
+  toJSON(): { entries: number; wildcard: boolean } {
+    return { entries: this.entries, wildcard: this.allowAll };
+  }
+}
+
+/**
+ * 编译来源规则列表，无效规则记录到errors
+ */
+function compileOriginRules(rules: string[], path: string, errors: string[]): OriginMatcher {
+  const matcher = new OriginMatcher();
+  rules.forEach((rule, index) => {
+    if (!matcher.add(rule)) {
+      errors.push(`${path}[${index}]: invalid rule "${rule}", expected origin, wildcard or /regex/ pattern (only the i flag is allowed)`);
+    }
+  });
+  return matcher;
+}
+
+/**
+ * 检查请求来源是否被允许，未配置来源白名单时允许所有来源
+ */
+function isOriginAllowed(config: Config, origin: string): boolean {
+  return config.allowedOriginMatcher.size === 0 || config.allowedOriginMatcher.matches(origin);
+}
+
+interface ValidationResult {
+  valid: boolean;
+  reason?: string;
+  // 是否为SSRF防护（内网地址、受限域名/端口）拦截
+  ssrf?: boolean;
+}
+
+/**
+ * 安全检查：验证目标URL和请求来源
+ */
+function validateRequest(url: string, ip: string, config: Config, origin?: string | null): ValidationResult {
+  // 检查IP黑名单
+  if (config.blockedIPMatcher.matches(ip)) {
+    return { valid: false, reason: 'IP blocked' };
+  }
+
+  // 检查URL长度
+  if (url.length > config.maxUrlLength) {
+    return { valid: false, reason: 'URL too long' };
+  }
+
+  // 解析目标域名
+  let targetDomain: string;
+  try {
+    const targetUrl = new URL(fixUrl(url));
+    targetDomain = targetUrl.hostname.toLowerCase();
+  } catch {
+    return { valid: false, reason: 'Invalid URL' };
+  }
+
+  // 检查域名黑名单
+  if (config.blockedDomainMatcher.matches(targetDomain)) {
+    return { valid: false, reason: 'Domain blocked' };
+  }
+
+  // 检查域名白名单
+  if (config.allowedDomainMatcher.size > 0 && !config.allowedDomainMatcher.matches(targetDomain)) {
+    return { valid: false, reason: 'Domain not allowed' };
+  }
+
+  // 检查来源白名单
+  if (origin) {
+    if (!isOriginAllowed(config, origin)) {
+      return { valid: false, reason: 'Origin not allowed' };
+    }
+  }
+
+  // 检查恶意URL模式
+  const maliciousPatterns = [
+    /javascript:/i,
+    /data:/i,
+    /vbscript:/i,
+    /file:/i,
+    /ftp:/i,
+    /about:/i,
+    /chrome:/i,
+    /chrome-extension:/i,
+    /moz-extension:/i
+  ];
+
+  if (maliciousPatterns.some(pattern => pattern.test(url))) {
+    return { valid: false, reason: 'Malicious URL pattern' };
+  }
+
+  // 增强URL安全验证 - 检查是否包含控制字符
+  if (/[\u0000-\u001F\u007F-\u009F]/.test(url)) {
+    return { valid: false, reason: 'URL contains control characters' };
+  }
+
+  // 检查是否尝试访问内网地址
+  try {
+    const targetUrl = new URL(fixUrl(url));
+    const hostname = targetUrl.hostname.toLowerCase();
+
+    // 检查特殊域名和元数据服务
+    const restrictedDomains = [
+      'localhost',
+      'metadata.google.internal',
+      'metadata.goog',
+      '169.254.169.254',  // AWS/GCP metadata service
+      'metadata',
+      'instance-data',
+      'consul',
+      'vault.service.consul'
+    ];
+
+    // 检查IP地址字面量（包括十进制、八进制、十六进制写法和IPv4映射的IPv6地址）
+    const literalAddress = parseIPAddress(hostname);
+    if (literalAddress && isRestrictedAddress(literalAddress)) {
+      return {
+        valid: false,
+        reason: `Access to private IPv${literalAddress.version} addresses is not allowed`,
+        ssrf: true
+      };
+    }
+
+    if (restrictedDomains.some(domain => hostname === domain || hostname.endsWith('.' + domain))) {
+      return { valid: false, reason: 'Access to restricted domains is not allowed', ssrf: true };
+    }
+
+    // 检查端口是否为敏感端口
+    const port = targetUrl.port;
+    if (port) {
+      const portNum = parseInt(port);
+      const restrictedPorts = [22, 23, 25, 53, 135, 139, 445, 993, 995, 1433, 1521, 3306, 3389, 5432, 5984, 6379, 9200, 11211, 27017];
+      if (restrictedPorts.includes(portNum)) {
+        return { valid: false, reason: 'Access to restricted ports is not allowed', ssrf: true };
+      }
+    }
+  } catch {
+    // URL解析失败已在前面处理
+  }
+
+  return { valid: true };
+}
+
+interface ResolvedTarget extends ValidationResult {
+  // 已校验的连接地址，用于固定连接
+  address?: string;
+  // 非403的错误状态码（如DNS解析失败）
+  status?: number;
+}
+
+/**
+ * 解析目标主机并检查所有解析结果
+ * 任意一个解析地址属于内网/保留地址即拒绝，返回的地址用于固定连接以防DNS重绑定
+ */
+async function resolveTarget(targetUrl: string, config: Config, resolver: DnsResolver): Promise<ResolvedTarget> {
+  let hostname: string;
+  try {
+    hostname = new URL(targetUrl).hostname.toLowerCase();
+  } catch {
+    return { valid: false, reason: 'Invalid URL' };
+  }
+
+  const literalAddress = parseIPAddress(hostname);
+  if (literalAddress) {
+    if (isRestrictedAddress(literalAddress)) {
+      return {
+        valid: false,
+        reason: `Access to private IPv${literalAddress.version} addresses is not allowed`,
+        ssrf: true
+      };
+    }
+    return { valid: true, address: formatIPAddress(literalAddress) };
+  }
+
+  if (!config.resolveDns || !DnsResolver.isAvailable()) {
+    return { valid: true };
+  }
+
+  let addresses: string[];
+  try {
+    addresses = await resolver.resolve(hostname);
+  } catch {
+    addresses = [];
+  }
+
+  if (addresses.length === 0) {
+    return { valid: false, reason: 'Target host could not be resolved', status: 502 };
+  }
+
+  const parsed = addresses.map(address => parseIPAddress(address));
+  if (parsed.some(address => !address || isRestrictedAddress(address))) {
+    return { valid: false, reason: 'Target host resolves to a private address', ssrf: true };
+  }
+
+  // 优先使用IPv4地址
+  const pinned = parsed.find(address => address!.version === 4) || parsed[0]!;
+  return { valid: true, address: formatIPAddress(pinned) };
+}
+
+// ==================== 目标策略模块 ====================
+/**
+ * 请求头/响应头改写规则，按 remove、rename、set、add 的顺序执行
+ * set 和 add 的值可以使用模板变量，如 {clientIp}
+ */
+interface HeaderModifications {
+  // 设置头部，覆盖已有的值
+  set?: Record<string, string>;
+  // 追加头部，保留已有的值
+  add?: Record<string, string>;
+  remove?: string[];
+  // 改名：{ 原名称: 新名称 }，原头部不存在时忽略
+  rename?: Record<string, string>;
+}
+
+// 合并所有匹配规则后的头部改写
+interface HeaderRewrite {
+  remove: string[];
+  rename: [string, string][];
+  set: Record<string, string>;
+  add: [string, string][];
+}
+
+// 头部改写规则的值中可以使用的模板变量
+interface HeaderTemplateVariables {
+  clientIp: string;
+  requestId: string;
+  // 请求来源，没有Origin头时为空字符串
+  origin: string;
+}
+
+const HEADER_TEMPLATE_VARIABLES: (keyof HeaderTemplateVariables)[] = ['clientIp', 'requestId', 'origin'];
+
+const HEADER_NAME_PATTERN = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+/**
+ * 上游响应头的处理方式：safe 不转发只对代理自身的源生效的头部，passthrough 原样转发
+ */
+type ResponseHeaderProfile = 'safe' | 'passthrough';
+
+// safe 方式下不转发的上游响应头。所有目标共用代理的源，转发这些头部会让一个目标的Cookie、HSTS、
+// CSP、清除站点数据等指令作用到代理自身，进而影响通过代理访问的其他目标
+const UNSAFE_UPSTREAM_RESPONSE_HEADERS = [
+  'set-cookie', 'set-cookie2', 'strict-transport-security', 'content-security-policy',
+  'content-security-policy-report-only', 'public-key-pins', 'public-key-pins-report-only', 'expect-ct',
+  'clear-site-data', 'report-to', 'reporting-endpoints', 'nel', 'alt-svc'
+];
+
+/**
+ * 按目标匹配的策略规则
+ * 匹配条件（hosts/paths/origins）都可省略，省略的条件视为匹配所有
+ */
+interface PolicyRule {
+  id: string;
+  // 目标域名规则，语法同 ALLOWED_DOMAINS
+  hosts?: string[];
+  // 目标路径规则：普通字符串按前缀匹配，含 * 时按通配符匹配完整路径
+  paths?: string[];
+  // 请求来源规则，语法同 ALLOWED_ORIGINS
+  origins?: string[];
+  timeout?: number;
+  retries?: number;
+  // 每个IP在 rateLimitWindow 内对该规则匹配目标的最大请求数
+  rateLimit?: number;
+  allowedMethods?: string[];
+  maxBodySize?: number;
+  // 缓存时间（毫秒），0表示不缓存
+  cacheTTL?: number;
+  requestHeaders?: HeaderModifications;
+  responseHeaders?: HeaderModifications;
+  responseHeaderProfile?: ResponseHeaderProfile;
+}
+
+// 合并所有匹配规则后的生效策略
+interface TargetPolicy {
+  ruleIds: string[];
+  timeout: number;
+  retries: number;
+  rateLimit?: { ruleId: string; limit: number };
+  allowedMethods?: string[];
+  maxBodySize: number;
+  cacheTTL?: number;
+  requestHeaders: HeaderRewrite;
+  responseHeaders: HeaderRewrite;
+  responseHeaderProfile: ResponseHeaderProfile;
+}
+
+/**
+ * 校验配置中的策略规则列表，错误写入errors并返回有效的规则
+ */
+function parsePolicyRules(value: unknown, path: string, errors: string[]): PolicyRule[] {
+  if (!Array.isArray(value)) {
+    errors.push(`${path}: expected an array of rules, got ${JSON.stringify(value)}`);
+    return [];
+  }
+
+  const ids = new Set<string>();
+  const rules: PolicyRule[] = [];
+  const knownFields = ['id', 'hosts', 'paths', 'origins', 'timeout', 'retries', 'rateLimit', 'allowedMethods',
+    'maxBodySize', 'cacheTTL', 'requestHeaders', 'responseHeaders', 'responseHeaderProfile'];
+
+  value.forEach((item, index) => {
+    const rulePath = `${path}[${index}]`;
+    const errorCount = errors.length;
+    if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+      errors.push(`${rulePath}: expected an object, got ${JSON.stringify(item)}`);
+      return;
+    }
+    const rule = item as Record<string, unknown>;
+
+    for (const key of Object.keys(rule)) {
+      if (!knownFields.includes(key)) {
+        errors.push(`${rulePath}.${key}: unknown rule field`);
+      }
+    }
+
+    if (typeof rule.id !== 'string' || !rule.id.trim()) {
+      errors.push(`${rulePath}.id: expected a non-empty string`);
+    } else if (ids.has(rule.id)) {
+      errors.push(`${rulePath}.id: duplicate rule id "${rule.id}"`);
+    } else {
+      ids.add(rule.id);
+    }
+
+    for (const key of ['hosts', 'paths', 'origins', 'allowedMethods']) {
+      const list = rule[key];
+      if (list !== undefined && (!Array.isArray(list) || list.some(entry => typeof entry !== 'string' || !entry.trim()))) {
+        errors.push(`${rulePath}.${key}: expected an array of non-empty strings`);
+      }
+    }
+
+    for (const key of ['timeout', 'retries', 'rateLimit', 'maxBodySize', 'cacheTTL']) {
+      const number = rule[key];
+      if (number !== undefined && (typeof number !== 'number' || !Number.isInteger(number) || number < 0)) {
+        errors.push(`${rulePath}.${key}: expected a non-negative integer, got ${JSON.stringify(number)}`);
+      }
+    }
+
+    for (const key of ['requestHeaders', 'responseHeaders']) {
+      const modifications = rule[key] as Record<string, unknown> | undefined;
+      if (modifications === undefined) continue;
+      if (typeof modifications !== 'object' || modifications === null || Array.isArray(modifications)) {
+        errors.push(`${rulePath}.${key}: expected an object with "set", "add", "remove" and/or "rename"`);
+        continue;
+      }
+      const { set, add, remove, rename, ...rest } = modifications;
+      if (Object.keys(rest).length > 0) {
+        errors.push(`${rulePath}.${key}: unknown fields ${Object.keys(rest).join(', ')}`);
+      }
+      for (const [field, values] of [['set', set], ['add', add], ['rename', rename]] as const) {
+        if (values === undefined) continue;
+        if (typeof values !== 'object' || values === null || Array.isArray(values) ||
+            Object.values(values).some(value => typeof value !== 'string')) {
+          errors.push(`${rulePath}.${key}.${field}: expected an object of header names to string values`);
+          continue;
+        }
+        for (const [name, value] of Object.entries(values as Record<string, string>)) {
+          if (!HEADER_NAME_PATTERN.test(name) || (field === 'rename' && !HEADER_NAME_PATTERN.test(value))) {
+            errors.push(`${rulePath}.${key}.${field}.${name}: invalid header name`);
+            continue;
+          }
+          if (field === 'rename') continue;
+          for (const [, variable] of value.matchAll(/\{(\w+)\}/g)) {
+            if (!HEADER_TEMPLATE_VARIABLES.includes(variable as keyof HeaderTemplateVariables)) {
+              errors.push(`${rulePath}.${key}.${field}.${name}: unknown template variable {${variable}}, ` +
+                `expected one of ${HEADER_TEMPLATE_VARIABLES.map(item => `{${item}}`).join(', ')}`);
+            }
+          }
+        }
+      }
+      if (remove !== undefined && (!Array.isArray(remove) || remove.some(header => typeof header !== 'string'))) {
+        errors.push(`${rulePath}.${key}.remove: expected an array of header names`);
+      }
+    }
+
+    if (rule.responseHeaderProfile !== undefined && rule.responseHeaderProfile !== 'safe' &&
+        rule.responseHeaderProfile !== 'passthrough') {
+      errors.push(`${rulePath}.responseHeaderProfile: expected "safe" or "passthrough"`);
+    }
+
+    if (errors.length === errorCount) {
+      rules.push(rule as unknown as PolicyRule);
+    }
+  });
+
+  return rules;
+}
+
+interface CompiledPolicyRule {
+  rule: PolicyRule;
+  hosts?: DomainMatcher;
+  paths?: (path: string) => boolean;
+  origins?: OriginMatcher;
+}
+
+/**
+ * 策略规则引擎，在加载配置时编译
+ * 所有匹配的规则按配置顺序生效：同一设置项以第一条设置了它的规则为准，请求头/响应头修改按顺序累加
+ */
+class PolicyEngine {
+  private rules: CompiledPolicyRule[];
+  private defaults: { timeout: number; maxRetries: number; maxBodySize: number; responseHeaderProfile: ResponseHeaderProfile };
+
+  constructor(rules: PolicyRule[],
+    defaults: { timeout: number; maxRetries: number; maxBodySize: number; responseHeaderProfile: ResponseHeaderProfile },
+    path: string, errors: string[]) {
+    this.defaults = defaults;
+    this.rules = rules.map((rule, index) => {
+      const rulePath = `${path}[${index}]`;
+      const compiled: CompiledPolicyRule = { rule };
+      if (rule.hosts?.length) {
+        compiled.hosts = compileDomainRules(rule.hosts, `${rulePath}.hosts`, errors);
+      }
+      if (rule.origins?.length) {
+        compiled.origins = compileOriginRules(rule.origins, `${rulePath}.origins`, errors);
+      }
+      if (rule.paths?.length) {
+        const matchers = rule.paths.map(pattern => {
+          if (!pattern.includes('*')) {
+            return (path: string) => path.startsWith(pattern);
+          }
+          const source = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+          const regex = new RegExp(`^${source}$`);
+          return (path: string) => regex.test(path);
+        });
+        compiled.paths = (path: string) => matchers.some(matcher => matcher(path));
+      }
+      return compiled;
+    });
+  }
+
+  /**
+   * 计算目标URL的生效策略
+   */
+  resolve(targetUrl: string, origin?: string): TargetPolicy {
+    const policy: TargetPolicy = {
+      ruleIds: [],
+      timeout: this.defaults.timeout,
+      retries: this.defaults.maxRetries,
+      maxBodySize: this.defaults.maxBodySize,
+      requestHeaders: { remove: [], rename: [], set: {}, add: [] },
+      responseHeaders: { remove: [], rename: [], set: {}, add: [] },
+      responseHeaderProfile: this.defaults.responseHeaderProfile
+    };
+    if (this.rules.length === 0) return policy;
+
+    const url = new URL(targetUrl);
+    const overridden = new Set<string>();
+    const override = <K extends keyof TargetPolicy>(key: K, value: TargetPolicy[K] | undefined) => {
+      if (value !== undefined && !overridden.has(key)) {
+        policy[key] = value;
+        overridden.add(key);
+      }
+    };
+
+    for (const { rule, hosts, paths, origins } of this.rules) {
+      if (hosts && !hosts.matches(url.hostname)) continue;
+      if (paths && !paths(url.pathname)) continue;
+      if (origins && (!origin || !origins.matches(origin))) continue;
+
+      policy.ruleIds.push(rule.id);
+      override('timeout', rule.timeout);
+      override('retries', rule.retries);
+      override('rateLimit', rule.rateLimit !== undefined ? { ruleId: rule.id, limit: rule.rateLimit } : undefined);
+      override('allowedMethods', rule.allowedMethods?.map(method => method.toUpperCase()));
+      override('maxBodySize', rule.maxBodySize);
+      override('cacheTTL', rule.cacheTTL);
+      override('responseHeaderProfile', rule.responseHeaderProfile);
+
+      for (const key of ['requestHeaders', 'responseHeaders'] as const) {
+        policy[key].remove.push(...(rule[key]?.remove || []));
+        policy[key].rename.push(...Object.entries(rule[key]?.rename || {}));
+        Object.assign(policy[key].set, rule[key]?.set);
+        policy[key].add.push(...Object.entries(rule[key]?.add || {}));
+      }
+    }
+
+    return policy;
+  }
+
+  // 配置了独立限流的规则
+  getRateLimitedRules(): { id: string; limit: number }[] {
+    return this.rules
+      .filter(({ rule }) => rule.rateLimit !== undefined)
+      .map(({ rule }) => ({ id: rule.id, limit: rule.rateLimit! }));
+  }
+
+  get size(): number {
+    return this.rules.length;
+  }
+
+  toJSON(): { rules: number } {
+    return { rules: this.rules.length };
+  }
+}
+
+/**
+ * 替换头部值中的模板变量，未知的变量保持原样
+ */
+function renderHeaderTemplate(template: string, variables: HeaderTemplateVariables): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    HEADER_TEMPLATE_VARIABLES.includes(name as keyof HeaderTemplateVariables)
+      ? variables[name as keyof HeaderTemplateVariables]
+      : match);
+}
+
+function hasHeaderRewrites(rewrite: HeaderRewrite): boolean {
+  return rewrite.remove.length > 0 || rewrite.rename.length > 0 || rewrite.add.length > 0 ||
+    Object.keys(rewrite.set).length > 0;
+}
+
+/**
+ * 按策略修改headers：依次删除、改名、设置和追加
+ */
+function applyHeaderModifications(headers: Headers, modifications: HeaderRewrite, variables: HeaderTemplateVariables): void {
+  for (const name of modifications.remove) {
+    headers.delete(name);
+  }
+  for (const [from, to] of modifications.rename) {
+    const value = headers.get(from);
+    if (value === null) continue;
+    headers.delete(from);
+    headers.set(to, value);
+  }
+  for (const [name, value] of Object.entries(modifications.set)) {
+    headers.set(name, renderHeaderTemplate(value, variables));
+  }
+  for (const [name, value] of modifications.add) {
+    headers.append(name, renderHeaderTemplate(value, variables));
+  }
+}
+
+// ==================== 客户端密钥模块 ====================
+// 客户端密钥的额度和访问范围，省略的项使用全局配置
+interface ClientKeyLimits {
+  // 该密钥在 rateLimitWindow 内的最大请求数（所有IP共享），设置后替代按IP的全局限流
+  rateLimit?: number;
+  // 该密钥的最大并发请求数，与全局并发限制同时生效
+  concurrentLimit?: number;
+  // 允许访问的目标域名，语法同 ALLOWED_DOMAINS
+  allowedDomains?: string[];
+  // 允许的请求来源，语法同 ALLOWED_ORIGINS
+  allowedOrigins?: string[];
+}
+
+// 持久化的密钥记录，只保存密钥的SHA-256摘要
+interface ClientKeyRecord extends ClientKeyLimits {
+  id: string;
+  hash: string;
+  // 密钥明文前缀，便于识别
+  prefix: string;
+  createdAt: string;
+}
+
+interface ClientKey {
+  record: ClientKeyRecord;
+  domains?: DomainMatcher;
+  origins?: OriginMatcher;
+  rateLimiter?: RateLimiter;
+  concurrency?: ConcurrencyLimiter;
+}
+
+const CLIENT_KEY_ID_PATTERN = /^[A-Za-z0-9_.-]{1,64}$/;
+
+/**
+ * 计算SHA-256摘要（十六进制），用于客户端密钥、缓存键和磁盘缓存的响应体
+ */
+async function sha256Hex(value: string | Uint8Array<ArrayBuffer>): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', typeof value === 'string' ? new TextEncoder().encode(value) : value);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * 计算HMAC-SHA256（十六进制），用于Webhook签名和控制台会话
+ */
+async function hmacSha256Hex(secret: string, value: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(value));
+  return Array.from(new Uint8Array(signature), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * 校验密钥额度设置，错误写入errors并返回规范化的值
+ * 值为null表示清除该项（用于更新）
+ */
+function parseClientKeyLimits(value: Record<string, unknown>, path: string, errors: string[]): ClientKeyLimits {
+  const limits: ClientKeyLimits = {};
+
+  for (const key of ['rateLimit', 'concurrentLimit'] as const) {
+    const number = value[key];
+    if (number === undefined || number === null) continue;
+    if (typeof number !== 'number' || !Number.isInteger(number) || number < 1) {
+      errors.push(`${path}.${key}: expected a positive integer, got ${JSON.stringify(number)}`);
+    } else {
+      limits[key] = number;
+    }
+  }
+
+  for (const key of ['allowedDomains', 'allowedOrigins'] as const) {
+    const list = value[key];
+    if (list === undefined || list === null) continue;
+    if (!Array.isArray(list) || list.some(entry => typeof entry !== 'string' || !entry.trim())) {
+      errors.push(`${path}.${key}: expected an array of non-empty strings`);
+      continue;
+    }
+    const compile = key === 'allowedDomains' ? compileDomainRules : compileOriginRules;
+    compile(list, `${path}.${key}`, errors);
+    limits[key] = list.map(entry => entry.trim());
+  }
+
+  return limits;
+}
+
+/**
+ * 客户端密钥存储
+ * 密钥只在创建时返回一次明文，之后按SHA-256摘要查找；配置了文件路径时每次变更都会写入文件
+ */
+class ClientKeyStore {
+  private keys: Map<string, ClientKey> = new Map();
+  private byHash: Map<string, ClientKey> = new Map();
+  private store: StateStore;
+  private windowMs: number;
+  private algorithm: RateLimitAlgorithmName;
+  private writing: Promise<void> = Promise.resolve();
+  readonly path?: string;
+
+  constructor(path: string | undefined, store: StateStore, windowMs: number, algorithm: RateLimitAlgorithmName) {
+    this.path = path;
+    this.store = store;
+    this.windowMs = windowMs;
+    this.algorithm = algorithm;
+    if (path) this.load(path);
+  }
+
+  // 从文件加载密钥记录，文件不存在时视为空
+  private load(path: string): void {
+    let content: string;
+    try {
+      content = Deno.readTextFileSync(path);
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return;
+      throw new ConfigError([`${path}: ${error instanceof Error ? error.message : error}`]);
+    }
+
+    const errors: string[] = [];
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch (error) {
+      throw new ConfigError([`${path}: ${error instanceof Error ? error.message : error}`]);
+    }
+
+    const records = (data as { keys?: unknown })?.keys;
+    if (!Array.isArray(records)) {
+      throw new ConfigError([`${path} $.keys: expected an array of key records`]);
+    }
+
+    records.forEach((item, index) => {
+      const recordPath = `${path} $.keys[${index}]`;
+      const record = item as Record<string, unknown>;
+      if (typeof record?.id !== 'string' || !CLIENT_KEY_ID_PATTERN.test(record.id) || this.keys.has(record.id)) {
+        errors.push(`${recordPath}.id: expected a unique key id`);
+        return;
+      }
+      if (typeof record.hash !== 'string' || !/^[0-9a-f]{64}$/.test(record.hash)) {
+        errors.push(`${recordPath}.hash: expected a SHA-256 hex digest`);
+        return;
+      }
+      const limits = parseClientKeyLimits(record, recordPath, errors);
+      this.add({
+        id: record.id,
+        hash: record.hash,
+        prefix: typeof record.prefix === 'string' ? record.prefix : '',
+        createdAt: typeof record.createdAt === 'string' ? record.createdAt : new Date().toISOString(),
+        ...limits
+      });
+    });
+
+    if (errors.length > 0) {
+      this.destroy();
+      throw new ConfigError(errors);
+    }
+  }
+
+  private add(record: ClientKeyRecord): void {
+    const errors: string[] = [];
+    const key: ClientKey = { record };
+    if (record.allowedDomains?.length) key.domains = compileDomainRules(record.allowedDomains, record.id, errors);
+    if (record.allowedOrigins?.length) key.origins = compileOriginRules(record.allowedOrigins, record.id, errors);
+    if (record.rateLimit) {
+      key.rateLimiter = new RateLimiter(this.store, 'client-key', this.windowMs, record.rateLimit, this.algorithm);
+    }
+    if (record.concurrentLimit) {
+      key.concurrency = new ConcurrencyLimiter(this.store, `client-key:${record.id}`, record.concurrentLimit, record.concurrentLimit);
+    }
+
+    this.keys.set(record.id, key);
+    this.byHash.set(record.hash, key);
+  }
+
+  private remove(id: string): ClientKey | undefined {
+    const key = this.keys.get(id);
+    if (key) {
+      this.keys.delete(id);
+      this.byHash.delete(key.record.hash);
+    }
+    return key;
+  }
+
+  // 写入文件：先写临时文件再重命名，避免写入中断导致文件损坏；多次修改按顺序写入
+  private persist(): Promise<void> {
+    if (!this.path) return Promise.resolve();
+    const path = this.path;
+    const data = JSON.stringify({ keys: Array.from(this.keys.values(), key => key.record) }, null, 2) + '\n';
+    const write = this.writing.then(async () => {
+      await Deno.writeTextFile(`${path}.tmp`, data, { mode: 0o600 });
+      await Deno.rename(`${path}.tmp`, path);
+    });
+    this.writing = write.catch(() => {});
+    return write;
+  }
+
+  /**
+   * 根据请求中的密钥明文查找客户端密钥
+   */
+  async authenticate(presentedKey: string): Promise<ClientKey | null> {
+    return this.byHash.get(await sha256Hex(presentedKey)) || null;
+  }
+
+  /**
+   * 创建密钥，返回只出现这一次的明文密钥
+   */
+  async create(id: string, limits: ClientKeyLimits): Promise<{ key: string; record: ClientKeyRecord }> {
+    const bytes = crypto.getRandomValues(new Uint8Array(24));
+    const secret = btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+    const plainKey = `ck_${secret}`;
+    const record: ClientKeyRecord = {
+      id,
+      hash: await sha256Hex(plainKey),
+      prefix: plainKey.substring(0, 10),
+      createdAt: new Date().toISOString(),
+      ...limits
+    };
+
+    this.add(record);
+    try {
+      await this.persist();
+    } catch (error) {
+      this.remove(id);
+      throw error;
+    }
+    return { key: plainKey, record };
+  }
+
+  /**
+   * 更新密钥额度，传入null的项会被清除
+   */
+  async update(id: string, limits: ClientKeyLimits, cleared: (keyof ClientKeyLimits)[]): Promise<ClientKeyRecord | null> {
+    const existing = this.keys.get(id);
+    if (!existing) return null;
+
+    const record: ClientKeyRecord = { ...existing.record, ...limits };
+    for (const field of cleared) delete record[field];
+
+    this.remove(id);
+    this.add(record);
+    try {
+      await this.persist();
+    } catch (error) {
+      this.remove(id);
+      this.add(existing.record);
+      throw error;
+    }
+    return record;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const removed = this.remove(id);
+    if (!removed) return false;
+    try {
+      await this.persist();
+    } catch (error) {
+      this.add(removed.record);
+      throw error;
+    }
+    return true;
+  }
+
+  has(id: string): boolean {
+    return this.keys.has(id);
+  }
+
+  // 列出密钥（不含摘要）及当前并发数
+  list(): Promise<(Omit<ClientKeyRecord, 'hash'> & { activeRequests: number })[]> {
+    return Promise.all(Array.from(this.keys.values(), async ({ record, concurrency }) => {
+      const { hash: _hash, ...rest } = record;
+      return { ...rest, activeRequests: concurrency ? (await concurrency.getStats()).totalCount : 0 };
+    }));
+  }
+
+  /**
+   * 限流窗口或算法变化时重建各密钥的限流器
+   */
+  configureRateLimit(windowMs: number, algorithm: RateLimitAlgorithmName): void {
+    if (windowMs === this.windowMs && algorithm === this.algorithm) return;
+    this.windowMs = windowMs;
+    this.algorithm = algorithm;
+    for (const key of this.keys.values()) {
+      if (!key.record.rateLimit) continue;
+      key.rateLimiter = new RateLimiter(this.store, 'client-key', windowMs, key.record.rateLimit, algorithm);
+    }
+  }
+
+  get size(): number {
+    return this.keys.size;
+  }
+
+  destroy(): void {
+    this.keys.clear();
+    this.byHash.clear();
+  }
+}
+
+// ==================== 运行时规则模块 ====================
+// 可以在运行时增删的名单，与配置中同名的列表合并生效
+type RuntimeRuleList = 'blockedIPs' | 'blockedDomains' | 'allowedDomains' | 'allowedOrigins';
+
+const RUNTIME_RULE_LISTS: RuntimeRuleList[] = ['blockedIPs', 'blockedDomains', 'allowedDomains', 'allowedOrigins'];
+
+interface RuntimeRule {
+  id: string;
+  list: RuntimeRuleList;
+  value: string;
+  comment?: string;
+  createdAt: string;
+  // 过期时间（ISO 8601），过期后自动移除
+  expiresAt?: string;
+}
+
+/**
+ * 校验规则的名单、值、备注和过期时间，错误写入errors
+ * 过期时间可以是 expiresAt（ISO 8601）或 ttl（毫秒）
+ */
+function parseRuntimeRule(value: Record<string, unknown>, path: string, errors: string[]):
+  Pick<RuntimeRule, 'list' | 'value' | 'comment' | 'expiresAt'> | null {
+  const errorCount = errors.length;
+  const list = value.list as RuntimeRuleList;
+  if (!RUNTIME_RULE_LISTS.includes(list)) {
+    errors.push(`${path}.list: expected one of ${RUNTIME_RULE_LISTS.join(', ')}`);
+  }
+
+  const rule = typeof value.value === 'string' ? value.value.trim() : '';
+  if (!rule) {
+    errors.push(`${path}.value: expected a non-empty string`);
+  } else if (RUNTIME_RULE_LISTS.includes(list)) {
+    // 按对应名单的格式解析一次以校验规则
+    const matcher = list === 'blockedIPs' ? new CidrTrie() : list === 'allowedOrigins' ? new OriginMatcher() : new DomainMatcher();
+    if (!matcher.add(rule)) {
+      errors.push(`${path}.value: invalid rule "${rule}" for ${list}`);
+    }
+  }
+
+  if (value.comment !== undefined && (typeof value.comment !== 'string' || value.comment.length > 500)) {
+    errors.push(`${path}.comment: expected a string of at most 500 characters`);
+  }
+
+  let expiresAt: string | undefined;
+  if (value.expiresAt !== undefined && value.ttl !== undefined) {
+    errors.push(`${path}: expected only one of expiresAt and ttl`);
+  } else if (value.expiresAt !== undefined) {
+    const time = typeof value.expiresAt === 'string' ? Date.parse(value.expiresAt) : NaN;
+    if (Number.isNaN(time)) {
+      errors.push(`${path}.expiresAt: expected an ISO 8601 timestamp`);
+    } else {
+      expiresAt = new Date(time).toISOString();
+    }
+  } else if (value.ttl !== undefined) {
+    if (typeof value.ttl !== 'number' || !Number.isInteger(value.ttl) || value.ttl < 1) {
+      errors.push(`${path}.ttl: expected a positive integer (milliseconds)`);
+    } else {
+      expiresAt = new Date(Date.now() + value.ttl).toISOString();
+    }
+  }
+
+  if (errors.length > errorCount) return null;
+  return { list, value: rule, comment: value.comment as string | undefined, expiresAt };
+}
+
+/**
+ * 运行时名单：通过管理API增删，配置了文件时持久化，重启后仍然有效
+ * 规则不修改配置中的列表，而是与它们合并后重新编译配置中的匹配器
+ */
+class RuntimeRuleStore {
+  private rules: Map<string, RuntimeRule> = new Map();
+  // 规则变化（包括过期移除）后通知服务重新合并匹配器
+  private onChange: () => void;
+  private writing: Promise<void> = Promise.resolve();
+  private expiryTimer: number | null = null;
+  private isDestroyed: boolean = false;
+  readonly path?: string;
+
+  constructor(path: string | undefined, onChange: () => void) {
+    this.path = path;
+    this.onChange = onChange;
+    if (path) this.load(path);
+
+    // 定期移除过期规则
+    this.expiryTimer = setInterval(() => {
+      if (!this.isDestroyed) {
+        this.removeExpired();
+      }
+    }, 1000) as unknown as number;
+  }
+
+  // 从文件加载规则，文件不存在时视为空，已过期的规则直接丢弃
+  private load(path: string): void {
+    let content: string;
+    try {
+      content = Deno.readTextFileSync(path);
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return;
+      throw new ConfigError([`${path}: ${error instanceof Error ? error.message : error}`]);
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch (error) {
+      throw new ConfigError([`${path}: ${error instanceof Error ? error.message : error}`]);
+    }
+
+    const records = (data as { rules?: unknown })?.rules;
+    if (!Array.isArray(records)) {
+      throw new ConfigError([`${path} $.rules: expected an array of rules`]);
+    }
+
+    const errors: string[] = [];
+    const now = Date.now();
+    records.forEach((item, index) => {
+      const recordPath = `${path} $.rules[${index}]`;
+      const record = item as Record<string, unknown>;
+      if (typeof record?.id !== 'string' || !record.id || this.rules.has(record.id)) {
+        errors.push(`${recordPath}.id: expected a unique rule id`);
+        return;
+      }
+      const rule = parseRuntimeRule(record, recordPath, errors);
+      if (!rule || (rule.expiresAt && Date.parse(rule.expiresAt) <= now)) return;
+      this.rules.set(record.id, {
+        id: record.id,
+        ...rule,
+        createdAt: typeof record.createdAt === 'string' ? record.createdAt : new Date().toISOString()
+      });
+    });
+
+    if (errors.length > 0) {
+      this.destroy();
+      throw new ConfigError(errors);
+    }
+  }
+
+  // 写入文件：先写临时文件再重命名，多次修改按顺序写入
+  private persist(): Promise<void> {
+    if (!this.path) return Promise.resolve();
+    const path = this.path;
+    const data = JSON.stringify({ rules: Array.from(this.rules.values()) }, null, 2) + '\n';
+    const write = this.writing.then(async () => {
+      await Deno.writeTextFile(`${path}.tmp`, data, { mode: 0o600 });
+      await Deno.rename(`${path}.tmp`, path);
+    });
+    this.writing = write.catch(() => {});
+    return write;
+  }
+
+  private removeExpired(): void {
+    const now = Date.now();
+    let removed = 0;
+    for (const [id, rule] of this.rules) {
+      if (rule.expiresAt && Date.parse(rule.expiresAt) <= now) {
+        this.rules.delete(id);
+        removed++;
+      }
+    }
+    if (removed === 0) return;
+
+    this.onChange();
+    this.persist().catch(error => {
+      console.error(`❌ Failed to save rules file ${this.path}:`, error instanceof Error ? error.message : error);
+    });
+  }
+
+  /**
+   * 名单中当前生效的规则值
+   */
+  values(list: RuntimeRuleList): string[] {
+    const now = Date.now();
+    return Array.from(this.rules.values())
+      .filter(rule => rule.list === list && !(rule.expiresAt && Date.parse(rule.expiresAt) <= now))
+      .map(rule => rule.value);
+  }
+
+  /**
+   * 把规则合并到配置的匹配器中，返回新的配置对象（配置中的列表本身保持不变）
+   */
+  mergeInto(config: Config): Config {
+    // 规则在添加时已校验，这里不会产生错误
+    const errors: string[] = [];
+    const merged = (list: RuntimeRuleList) => [...config[list], ...this.values(list)];
+    return {
+      ...config,
+      blockedIPMatcher: compileIPRules(merged('blockedIPs'), 'blockedIPs', errors),
+      blockedDomainMatcher: compileDomainRules(merged('blockedDomains'), 'blockedDomains', errors),
+      allowedDomainMatcher: compileDomainRules(merged('allowedDomains'), 'allowedDomains', errors),
+      allowedOriginMatcher: compileOriginRules(merged('allowedOrigins'), 'allowedOrigins', errors)
+    };
+  }
+
+  list(list?: RuntimeRuleList): RuntimeRule[] {
+    return Array.from(this.rules.values()).filter(rule => !list || rule.list === list);
+  }
+
+  get(id: string): RuntimeRule | undefined {
+    return this.rules.get(id);
+  }
+
+  // 查找名单中相同值的规则
+  find(list: RuntimeRuleList, value: string): RuntimeRule | undefined {
+    return Array.from(this.rules.values()).find(rule => rule.list === list && rule.value === value);
+  }
+
+  async add(input: Pick<RuntimeRule, 'list' | 'value' | 'comment' | 'expiresAt'>): Promise<RuntimeRule> {
+    const rule: RuntimeRule = { id: randomHex(8), ...input, createdAt: new Date().toISOString() };
+    if (!rule.comment) delete rule.comment;
+    if (!rule.expiresAt) delete rule.expiresAt;
+
+    this.rules.set(rule.id, rule);
+    try {
+      await this.persist();
+    } catch (error) {
+      this.rules.delete(rule.id);
+      throw error;
+    }
+    this.onChange();
+    return rule;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const rule = this.rules.get(id);
+    if (!rule) return false;
+
+    this.rules.delete(id);
+    try {
+      await this.persist();
+    } catch (error) {
+      this.rules.set(id, rule);
+      throw error;
+    }
+    this.onChange();
+    return true;
+  }
+
+  get size(): number {
+    return this.rules.size;
+  }
+
+  destroy(): void {
+    this.isDestroyed = true;
+    if (this.expiryTimer !== null) {
+      clearInterval(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+    this.rules.clear();
+  }
+}
+
+// ==================== 请求处理模块 ====================
+/**
+ * 修复和标准化URL格式
+ */
+function fixUrl(url: string): string {
+  if (url.includes("://")) {
+    return url;
+  } else if (url.includes(':/')) {
+    return url.replace(':/', '://');
+  } else {
+    // 默认使用HTTPS协议，更安全
+    return "https://" + url;
+  }
+}
+
+/**
+ * 构建代理请求的headers
+ */
+function buildProxyHeaders(originalHeaders: Headers): Record<string, string> {
+  const proxyHeaders: Record<string, string> = {};
+  const dropHeaders = [
+    'content-length', 'host', 'connection', 'keep-alive',
+    'proxy-authenticate', 'proxy-authorization', 'te', 'trailers',
+    'transfer-encoding', 'upgrade', 'cf-connecting-ip', 'cf-ray',
+    'cf-visitor', 'cf-ipcountry', 'x-client-key'
+  ];
+
+  for (const [key, value] of originalHeaders.entries()) {
+    const lowerKey = key.toLowerCase();
+    if (!dropHeaders.includes(lowerKey)) {
+      proxyHeaders[key] = value;
+    }
+  }
+
+  // 优先保留用户的User-Agent，只在没有时才设置默认值
+  // 使用更真实的默认User-Agent，模拟常见浏览器
+  if (!proxyHeaders['User-Agent'] && !proxyHeaders['user-agent']) {
+    // 使用多个真实的User-Agent轮换，减少被识别为爬虫的风险
+    const defaultUserAgents = [
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:121.0) Gecko/20100101 Firefox/121.0',
+      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.2 Safari/605.1.15',
+      'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+    ];
+
+    // 基于时间戳选择User-Agent，确保一定的随机性但又相对稳定
+    const index = Math.floor(Date.now() / (1000 * 60 * 10)) % defaultUserAgents.length;
+    proxyHeaders['User-Agent'] = defaultUserAgents[index];
+  }
+
+  // 增强其他重要请求头的处理，提高请求成功率
+  // 如果没有Accept头，添加通用的Accept头
+  if (!proxyHeaders['Accept'] && !proxyHeaders['accept']) {
+    proxyHeaders['Accept'] = 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8,application/signed-exchange;v=b3;q=0.7';
+  }
+
+  // 如果没有Accept-Language头，添加常见的语言设置
+  if (!proxyHeaders['Accept-Language'] && !proxyHeaders['accept-language']) {
+    proxyHeaders['Accept-Language'] = 'en-US,en;q=0.9,zh-CN;q=0.8,zh;q=0.7';
+  }
+
+  // 如果没有Accept-Encoding头，添加常见的编码支持
+  if (!proxyHeaders['Accept-Encoding'] && !proxyHeaders['accept-encoding']) {
+    proxyHeaders['Accept-Encoding'] = 'gzip, deflate, br';
+  }
+
+  // 添加DNT头，表明不希望被跟踪（提高隐私性）
+  if (!proxyHeaders['DNT'] && !proxyHeaders['dnt']) {
+    proxyHeaders['DNT'] = '1';
+  }
+
+  // 添加Sec-Fetch-* 头，模拟真实浏览器行为
+  if (!proxyHeaders['Sec-Fetch-Dest'] && !proxyHeaders['sec-fetch-dest']) {
+    proxyHeaders['Sec-Fetch-Dest'] = 'document';
+  }
+  if (!proxyHeaders['Sec-Fetch-Mode'] && !proxyHeaders['sec-fetch-mode']) {
+    proxyHeaders['Sec-Fetch-Mode'] = 'navigate';
+  }
+  if (!proxyHeaders['Sec-Fetch-Site'] && !proxyHeaders['sec-fetch-site']) {
+    proxyHeaders['Sec-Fetch-Site'] = 'none';
+  }
+
+  return proxyHeaders;
+}
+
+// 请求体超过大小限制（声明的Content-Length或实际读取的字节数）
+class RequestBodyTooLargeError extends Error {
+  constructor(maxBodySize: number) {
+    super(`Request body too large. Maximum size: ${maxBodySize} bytes`);
+    this.name = 'RequestBodyTooLargeError';
+  }
+}
+
+/**
+ * 流式请求体：原样转发客户端发送的字节，边转发边计数，超过上限时以RequestBodyTooLargeError中止
+ * 可重放时保留已读取的数据，重试或重定向时先重放保留的数据再继续读取剩余部分；
+ * 保留的数据超过replayLimit时丢弃并变为不可重放，之后不再重试
+ */
+class RequestBody {
+  private reader: ReadableStreamDefaultReader<Uint8Array>;
+  // 已读取的数据块，只在可重放时保留
+  private chunks: Uint8Array[] = [];
+  private bytesRead = 0;
+  private done = false;
+  // 每次调用stream()递增，旧的流不再读取
+  private generation = 0;
+  private replayLimit: number;
+  readonly maxBodySize: number;
+  exceeded = false;
+
+  constructor(source: ReadableStream<Uint8Array>, maxBodySize: number, replayLimit: number) {
+    this.reader = source.getReader();
+    this.maxBodySize = maxBodySize;
+    this.replayLimit = replayLimit;
+  }
+
+  get replayable(): boolean {
+    return this.replayLimit > 0;
+  }
+
+  /**
+   * 是否还能从头发送：可重放，或者还没有读取过任何数据
+   */
+  get canReplay(): boolean {
+    return this.replayable || this.generation === 0;
+  }
+
+  /**
+   * 创建一次发送用的流，不能从头发送时返回null
+   */
+  stream(): ReadableStream<Uint8Array> | null {
+    if (!this.canReplay) return null;
+    const generation = ++this.generation;
+    let index = 0;
+
+    return new ReadableStream<Uint8Array>({
+      pull: async controller => {
+        if (generation !== this.generation) {
+          controller.error(new Error('Request body superseded by a newer attempt'));
+          return;
+        }
+        if (index < this.chunks.length) {
+          controller.enqueue(this.chunks[index++]);
+          return;
+        }
+        if (this.done) {
+          controller.close();
+          return;
+        }
+
+        let result: ReadableStreamReadResult<Uint8Array>;
+        try {
+          result = await this.reader.read();
+        } catch (error) {
+          controller.error(error);
+          return;
+        }
+        if (result.done) {
+          this.done = true;
+          controller.close();
+          return;
+        }
+
+        this.bytesRead += result.value.byteLength;
+        if (this.bytesRead > this.maxBodySize) {
+          this.exceeded = true;
+          this.reader.cancel().catch(() => {});
+          controller.error(new RequestBodyTooLargeError(this.maxBodySize));
+          return;
+        }
+        if (this.replayable && this.bytesRead > this.replayLimit) {
+          this.replayLimit = 0;
+          this.chunks = [];
+          index = 0;
+        }
+        if (this.replayable) {
+          this.chunks.push(result.value);
+          index++;
+        }
+        controller.enqueue(result.value);
+      }
+      // 取消单次发送（例如上游提前响应）时不取消客户端的请求体，后续尝试可能还要读取
+    });
+  }
+}
+
+/**
+ * 创建流式请求体，只有可能带请求体的方法才转发
+ * 声明的Content-Length超过上限时直接拒绝，分块上传在实际读取超过上限时中止
+ * replayLimit为保留用于重放的最大字节数，0表示不保留；声明的长度超过它时从一开始就不保留
+ */
+function createRequestBody(request: Request, maxBodySize: number, replayLimit: number): RequestBody | undefined {
+  if (!['POST', 'PUT', 'PATCH', 'DELETE'].includes(request.method) || !request.body) {
+    return undefined;
+  }
+
+  const contentLength = request.headers.get('content-length');
+  if (contentLength && parseInt(contentLength) > maxBodySize) {
+    throw new RequestBodyTooLargeError(maxBodySize);
+  }
+  if (contentLength && parseInt(contentLength) > replayLimit) {
+    replayLimit = 0;
+  }
+
+  return new RequestBody(request.body, maxBodySize, replayLimit);
+}
+
+// 上游超时的阶段：建立连接、等待响应头、响应体相邻数据块的间隔、整个请求的总时长
+type UpstreamTimeoutPhase = 'connect' | 'ttfb' | 'idle' | 'total';
+
+class UpstreamTimeoutError extends Error {
+  phase: UpstreamTimeoutPhase;
+
+  constructor(phase: UpstreamTimeoutPhase) {
+    super(`Upstream ${phase} timeout`);
+    this.name = 'UpstreamTimeoutError';
+    this.phase = phase;
+  }
+}
+
+/**
+ * 限制响应体的传输时间：等待上游数据超过idleTimeout，或到达总时长截止时间时调用onTimeout中止上游请求
+ * 只在下游读取数据时计时，客户端读取慢不会触发空闲超时
+ */
+function limitBodyTiming(
+  body: ReadableStream<Uint8Array>,
+  idleTimeout: number,
+  deadline: number,
+  onTimeout: (phase: UpstreamTimeoutPhase) => void
+): ReadableStream<Uint8Array> {
+  const reader = body.getReader();
+  let idleTimer: number | undefined;
+  let totalTimer: number | undefined;
+  let timedOut: UpstreamTimeoutPhase | null = null;
+  const timeout = (phase: UpstreamTimeoutPhase) => {
+    if (timedOut) return;
+    timedOut = phase;
+    onTimeout(phase);
+  };
+  const clearTimers = () => {
+    clearTimeout(idleTimer);
+    clearTimeout(totalTimer);
+  };
+
+  return new ReadableStream<Uint8Array>({
+    start() {
+      if (Number.isFinite(deadline)) {
+        totalTimer = setTimeout(() => timeout('total'), Math.max(0, deadline - Date.now())) as unknown as number;
+      }
+    },
+    async pull(controller) {
+      if (idleTimeout > 0) {
+        idleTimer = setTimeout(() => timeout('idle'), idleTimeout) as unknown as number;
+      }
+      try {
+        const { done, value } = await reader.read();
+        clearTimeout(idleTimer);
+        if (done) {
+          clearTimers();
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        clearTimers();
+        controller.error(timedOut ? new UpstreamTimeoutError(timedOut) : error);
+      }
+    },
+    cancel(reason) {
+      clearTimers();
+      return reader.cancel(reason);
+    }
+  });
+}
+
+/**
+ * 请求是否可以重试：方法在重试方法列表中（默认为幂等方法），或者带有Idempotency-Key头部
+ */
+function isRetryableRequest(method: string, headers: Headers, config: Config): boolean {
+  return config.retryMethods.some(item => item.toUpperCase() === method.toUpperCase()) ||
+    headers.has('idempotency-key');
+}
+
+/**
+ * 解析Retry-After头部（秒数或HTTP日期），返回等待的毫秒数
+ */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return parseInt(trimmed) * 1000;
+  const time = Date.parse(trimmed);
+  return Number.isNaN(time) ? null : Math.max(0, time - Date.now());
+}
+
+// 重试预算的统计窗口
+const RETRY_BUDGET_WINDOW = 10000;
+
+interface RetryBudgetStats {
+  // 统计窗口内的请求数和重试数
+  window: { requests: number; retries: number };
+  // 启动以来的重试总数，以及因预算耗尽而放弃的重试数
+  total: { retries: number; exhausted: number };
+}
+
+/**
+ * 全局重试预算：窗口内的重试数不超过请求数的一定比例（至少允许minRetries次），
+ * 上游整体故障时重试不会成倍放大流量
+ */
+class RetryBudget {
+  private percent: number;
+  private minRetries: number;
+  // 按秒分桶的请求数和重试数
+  private buckets: Map<number, { requests: number; retries: number }> = new Map();
+  private totalRetries = 0;
+  private exhausted = 0;
+
+  constructor(percent: number, minRetries: number) {
+    this.percent = percent;
+    this.minRetries = minRetries;
+  }
+
+  configure(percent: number, minRetries: number): void {
+    this.percent = percent;
+    this.minRetries = minRetries;
+  }
+
+  private bucket(): { requests: number; retries: number } {
+    const second = Math.floor(Date.now() / 1000);
+    let bucket = this.buckets.get(second);
+    if (!bucket) {
+      bucket = { requests: 0, retries: 0 };
+      this.buckets.set(second, bucket);
+      // 移除窗口之外的桶
+      for (const key of this.buckets.keys()) {
+        if (key <= second - RETRY_BUDGET_WINDOW / 1000) this.buckets.delete(key);
+      }
+    }
+    return bucket;
+  }
+
+  private windowTotals(): { requests: number; retries: number } {
+    const since = Math.floor(Date.now() / 1000) - RETRY_BUDGET_WINDOW / 1000;
+    let requests = 0;
+    let retries = 0;
+    for (const [second, bucket] of this.buckets) {
+      if (second <= since) continue;
+      requests += bucket.requests;
+      retries += bucket.retries;
+    }
+    return { requests, retries };
+  }
+
+  recordRequest(): void {
+    this.bucket().requests++;
+  }
+
+  /**
+   * 申请一次重试，预算耗尽时返回false
+   */
+  tryAcquire(): boolean {
+    const { requests, retries } = this.windowTotals();
+    if (retries >= Math.max(this.minRetries, requests * this.percent / 100)) {
+      this.exhausted++;
+      return false;
+    }
+    this.bucket().retries++;
+    this.totalRetries++;
+    return true;
+  }
+
+  getStats(): RetryBudgetStats {
+    return { window: this.windowTotals(), total: { retries: this.totalRetries, exhausted: this.exhausted } };
+  }
+}
+
+// 上游熔断器的状态：正常放行、断开（快速失败）、半开（只放行少量探测请求）
+type CircuitState = 'closed' | 'open' | 'half-open';
+
+interface CircuitBreakerOptions {
+  // 连续失败次数达到该值时断开
+  failureThreshold: number;
+  // 统计窗口内请求数不少于minRequests且失败率（%）达到该值时断开
+  errorRate: number;
+  minRequests: number;
+  window: number;
+  // 断开后经过多久进入半开状态
+  openDuration: number;
+  // 半开状态同时放行的探测请求数，全部成功后恢复
+  halfOpenRequests: number;
+}
+
+/**
+ * 上游主机的熔断状态（管理API返回的格式）
+ */
+interface CircuitInfo {
+  host: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  // 统计窗口内的请求数和失败数
+  window: { requests: number; failures: number };
+  // 累计断开次数
+  opens: number;
+  lastFailure?: { error: string; at: string };
+  openedAt?: string;
+  // 断开状态下进入半开的时间
+  halfOpenAt?: string;
+}
+
+class CircuitOpenError extends Error {
+  host: string;
+  // 建议客户端等待的毫秒数
+  retryAfter: number;
+
+  constructor(host: string, retryAfter: number) {
+    super(`Circuit open for ${host}`);
+    this.name = 'CircuitOpenError';
+    this.host = host;
+    this.retryAfter = retryAfter;
+  }
+}
+
+interface Circuit {
+  state: CircuitState;
+  consecutiveFailures: number;
+  // 按秒分桶的请求数和失败数
+  buckets: Map<number, { requests: number; failures: number }>;
+  opens: number;
+  lastFailure?: { error: string; at: number };
+  openedAt: number;
+  // 半开状态下正在进行和已经成功的探测请求数
+  probes: number;
+  probeSuccesses: number;
+  updatedAt: number;
+}
+
+/**
+ * 一次请求的熔断许可：记录每次尝试的结果，请求结束后释放
+ */
+interface CircuitPermit {
+  record(success: boolean, error?: string): void;
+  // 熔断器断开后不再重试
+  allowRetry(): boolean;
+  release(): void;
+}
+
+/**
+ * 按上游主机熔断：连续失败或窗口内失败率过高时断开，断开期间直接拒绝请求；
+ * 经过openDuration后进入半开状态，只放行少量探测请求，探测全部成功后恢复，任一失败则重新断开。
+ * 状态按实例保存
+ */
+class CircuitBreaker {
+  private options: CircuitBreakerOptions;
+  private circuits: Map<string, Circuit> = new Map();
+  // 状态变化时通知（用于记录日志）
+  private onStateChange: (host: string, state: CircuitState, circuit: CircuitInfo) => void;
+  private cleanupTimer: number | null = null;
+  private isDestroyed: boolean = false;
+
+  constructor(options: CircuitBreakerOptions, onStateChange: (host: string, state: CircuitState, circuit: CircuitInfo) => void) {
+    this.options = options;
+    this.onStateChange = onStateChange;
+
+    // 定期移除长时间没有请求的主机
+    this.cleanupTimer = setInterval(() => {
+      if (!this.isDestroyed) {
+        this.cleanup();
+      }
+    }, 60000) as unknown as number;
+  }
+
+  configure(options: CircuitBreakerOptions): void {
+    this.options = options;
+  }
+
+  /**
+   * 申请请求许可，断开（或半开且探测名额已满）时抛出CircuitOpenError
+   */
+  acquire(host: string): CircuitPermit {
+    const now = Date.now();
+    let circuit = this.circuits.get(host);
+    if (!circuit) {
+      circuit = {
+        state: 'closed',
+        consecutiveFailures: 0,
+        buckets: new Map(),
+        opens: 0,
+        openedAt: 0,
+        probes: 0,
+        probeSuccesses: 0,
+        updatedAt: now
+      };
+      this.circuits.set(host, circuit);
+    }
+    circuit.updatedAt = now;
+
+    if (circuit.state === 'open') {
+      const halfOpenAt = circuit.openedAt + this.options.openDuration;
+      if (now < halfOpenAt) {
+        throw new CircuitOpenError(host, halfOpenAt - now);
+      }
+      this.transition(host, circuit, 'half-open');
+    }
+
+    let probe = false;
+    if (circuit.state === 'half-open') {
+      if (circuit.probes >= this.options.halfOpenRequests) {
+        throw new CircuitOpenError(host, 1000);
+      }
+      circuit.probes++;
+      probe = true;
+    }
+
+    const target = circuit;
+    let released = false;
+    return {
+      record: (success, error) => this.record(host, target, probe, success, error),
+      allowRetry: () => this.circuits.get(host) === target && target.state !== 'open',
+      release: () => {
+        if (released) return;
+        released = true;
+        if (probe && target.state === 'half-open') target.probes = Math.max(0, target.probes - 1);
+      }
+    };
+  }
+
+  private record(host: string, circuit: Circuit, probe: boolean, success: boolean, error?: string): void {
+    // 已被手动重置的主机不再记录
+    if (this.circuits.get(host) !== circuit) return;
+    const now = Date.now();
+    if (!success) circuit.lastFailure = { error: error || 'Unknown error', at: now };
+
+    if (circuit.state === 'half-open') {
+      // 断开前发出的请求结果不影响探测
+      if (!probe) return;
+      if (!success) {
+        this.transition(host, circuit, 'open');
+      } else if (++circuit.probeSuccesses >= this.options.halfOpenRequests) {
+        this.transition(host, circuit, 'closed');
+      }
+      return;
+    }
+    if (circuit.state !== 'closed') return;
+
+    const bucket = this.bucket(circuit, now);
+    bucket.requests++;
+    if (success) {
+      circuit.consecutiveFailures = 0;
+      return;
+    }
+    bucket.failures++;
+    circuit.consecutiveFailures++;
+
+    const { requests, failures } = this.windowTotals(circuit, now);
+    if (circuit.consecutiveFailures >= this.options.failureThreshold ||
+      (requests >= this.options.minRequests && failures * 100 >= requests * this.options.errorRate)) {
+      this.transition(host, circuit, 'open');
+    }
+  }
+
+  private transition(host: string, circuit: Circuit, state: CircuitState): void {
+    circuit.state = state;
+    circuit.probes = 0;
+    circuit.probeSuccesses = 0;
+    if (state === 'open') {
+      circuit.openedAt = Date.now();
+      circuit.opens++;
+    } else if (state === 'closed') {
+      circuit.consecutiveFailures = 0;
+      circuit.buckets.clear();
+    }
+    this.onStateChange(host, state, this.toInfo(host, circuit));
+  }
+
+  private bucket(circuit: Circuit, now: number): { requests: number; failures: number } {
+    const second = Math.floor(now / 1000);
+    let bucket = circuit.buckets.get(second);
+    if (!bucket) {
+      bucket = { requests: 0, failures: 0 };
+      circuit.buckets.set(second, bucket);
+      // 移除窗口之外的桶
+      const since = Math.floor((now - this.options.window) / 1000);
+      for (const key of circuit.buckets.keys()) {
+        if (key <= since) circuit.buckets.delete(key);
+      }
+    }
+    return bucket;
+  }
+
+  private windowTotals(circuit: Circuit, now: number): { requests: number; failures: number } {
+    const since = Math.floor((now - this.options.window) / 1000);
+    let requests = 0;
+    let failures = 0;
+    for (const [second, bucket] of circuit.buckets) {
+      if (second <= since) continue;
+      requests += bucket.requests;
+      failures += bucket.failures;
+    }
+    return { requests, failures };
+  }
+
+  private toInfo(host: string, circuit: Circuit): CircuitInfo {
+    const info: CircuitInfo = {
+      host,
+      state: circuit.state,
+      consecutiveFailures: circuit.consecutiveFailures,
+      window: this.windowTotals(circuit, Date.now()),
+      opens: circuit.opens
+    };
+    if (circuit.lastFailure) {
+      info.lastFailure = { error: circuit.lastFailure.error, at: new Date(circuit.lastFailure.at).toISOString() };
+    }
+    if (circuit.state !== 'closed') {
+      info.openedAt = new Date(circuit.openedAt).toISOString();
+    }
+    if (circuit.state === 'open') {
+      info.halfOpenAt = new Date(circuit.openedAt + this.options.openDuration).toISOString();
+    }
+    return info;
+  }
+
+  get(host: string): CircuitInfo | null {
+    const circuit = this.circuits.get(host);
+    return circuit ? this.toInfo(host, circuit) : null;
+  }
+
+  /**
+   * 所有跟踪中的主机，未恢复的排在前面
+   */
+  list(): CircuitInfo[] {
+    const order: Record<CircuitState, number> = { open: 0, 'half-open': 1, closed: 2 };
+    return Array.from(this.circuits, ([host, circuit]) => this.toInfo(host, circuit))
+      .sort((a, b) => order[a.state] - order[b.state] || a.host.localeCompare(b.host));
+  }
+
+  /**
+   * 各状态的主机数
+   */
+  counts(): Record<CircuitState, number> {
+    const counts: Record<CircuitState, number> = { closed: 0, open: 0, 'half-open': 0 };
+    for (const circuit of this.circuits.values()) counts[circuit.state]++;
+    return counts;
+  }
+
+  /**
+   * 手动重置：清除主机的熔断状态，之后的请求正常放行
+   */
+  reset(host: string): boolean {
+    return this.circuits.delete(host);
+  }
+
+  // 移除窗口内没有请求的主机（断开的主机在可以进入半开状态之后才移除）
+  private cleanup(): void {
+    const now = Date.now();
+    for (const [host, circuit] of this.circuits) {
+      const idleSince = circuit.state === 'open'
+        ? Math.max(circuit.updatedAt, circuit.openedAt + this.options.openDuration)
+        : circuit.updatedAt;
+      if (circuit.state !== 'half-open' && now - idleSince > this.options.window) {
+        this.circuits.delete(host);
+      }
+    }
+  }
+
+  destroy(): void {
+    this.isDestroyed = true;
+    if (this.cleanupTimer !== null) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
+    this.circuits.clear();
+  }
+}
+
+interface ProxyRequestOptions {
+  // 固定连接地址的HTTP客户端
+  client?: Deno.HttpClient;
+  // 目标策略覆盖的超时时间（等待响应头）和重试次数
+  timeout?: number;
+  maxRetries?: number;
+  // 全局重试预算，未提供时不限制
+  retryBudget?: RetryBudget;
+  // 目标主机的熔断许可，每次尝试的结果都会记录
+  circuit?: CircuitPermit;
+  // 出口代理，每次尝试重新选择（轮询并跳过不健康的代理）；选定后调用onEgress
+  egress?: EgressRoute;
+  onEgress?: (label: string) => void;
+  // 固定连接的客户端从time之后是否有连接超时（UPSTREAM_CONNECT_TIMEOUT），用于判断超时阶段
+  connectTimedOut?: (time: number) => boolean;
+  // 客户端断开时中止上游请求
+  signal?: AbortSignal;
+  // 每次重试前调用，reason为 status/timeout/error
+  onRetry?: (reason: 'status' | 'timeout' | 'error') => void;
+  // 任一阶段超时时调用（包括之后会重试的超时）
+  onTimeout?: (phase: UpstreamTimeoutPhase) => void;
+  // 重试日志使用的日志器和请求ID
+  logger?: Logger;
+  requestId?: string;
+  // 上游请求的span：每次尝试记录一个子span，并通过traceparent传给上游
+  span?: Span;
+  tracestate?: string;
+  // 以下字段用于重定向跳转时覆盖原始请求
+  method?: string;
+  headers?: Record<string, string>;
+  body?: RequestBody;
+}
+
+/**
+ * 执行代理请求（带智能重试机制）
+ * 只重试幂等方法或带Idempotency-Key的请求，按指数退避（带随机抖动）等待，遵循上游的Retry-After，
+ * 并受全局重试预算限制。不会自动跟随重定向，重定向由调用方逐跳校验后处理。
+ * 连接、等待响应头、响应体空闲和总时长分别计时，超时抛出UpstreamTimeoutError（响应体超时时以该错误中断响应体）
+ */
+async function performProxy(request: Request, targetUrl: string, config: Config, options: ProxyRequestOptions = {}): Promise<Response> {
+  const method = options.method || request.method;
+  const headers = options.headers || buildProxyHeaders(request.headers);
+  const timeout = options.timeout ?? config.timeout;
+  const deadline = config.upstreamTotalTimeout > 0 ? Date.now() + config.upstreamTotalTimeout : Infinity;
+
+  // 重试配置：非幂等请求不重试
+  const maxRetries = isRetryableRequest(method, request.headers, config) ? (options.maxRetries ?? config.maxRetries) : 0;
+  const body = 'body' in options ? options.body : createRequestBody(request, config.maxBodySize, maxRetries > 0 ? config.retryMaxBodySize : 0);
+  options.retryBudget?.recordRequest();
+
+  // 还有重试次数，且请求体可以从头重新发送
+  const canRetry = (attempt: number): boolean => attempt < maxRetries && (!body || body.canReplay);
+
+  // 判断是否应该重试的错误类型
+  const shouldRetry = (error: any): boolean => {
+    // 网络错误、连接被拒绝、DNS错误等应该重试
+    if (error instanceof Error) {
+      const message = error.message.toLowerCase();
+      return message.includes('network') ||
+             message.includes('connection') ||
+             message.includes('econnrefused') ||
+             message.includes('enotfound') ||
+             message.includes('timeout') ||
+             message.includes('fetch');
+    }
+    return false;
+  };
+
+  // 判断HTTP状态码是否应该重试
+  const shouldRetryStatus = (status: number): boolean => {
+    // 5xx服务器错误、429限流、502/503/504网关错误应该重试
+    return status >= 500 || status === 429 || status === 502 || status === 503 || status === 504;
+  };
+
+  const warn = (message: string, fields: Record<string, unknown>) => options.logger
+    ? options.logger.warn(message, { requestId: options.requestId, url: targetUrl, ...fields })
+    : console.warn(message, fields);
+
+  // 下一次重试前的等待时间，不应重试时返回null
+  // 指数退避以retryBaseDelay起、retryMaxDelay封顶；上游要求等待更久时遵循Retry-After，超过retryMaxDelay则不重试
+  const nextRetryDelay = (attempt: number, retryAfter: number | null = null): number | null => {
+    if (!canRetry(attempt)) return null;
+    if (options.circuit && !options.circuit.allowRetry()) return null;
+    if (retryAfter !== null && retryAfter > config.retryMaxDelay) return null;
+    const backoff = Math.min(config.retryBaseDelay * 2 ** attempt, config.retryMaxDelay) * (0.5 + Math.random() / 2);
+    const delay = Math.round(Math.max(backoff, retryAfter ?? 0));
+    if (Date.now() + delay >= deadline) return null;
+    if (options.retryBudget && !options.retryBudget.tryAcquire()) {
+      warn('Retry budget exhausted, not retrying', { attempt: attempt + 1 });
+      return null;
+    }
+    return delay;
+  };
+
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    if (options.signal?.aborted) {
+      throw new Error('Client disconnected');
+    }
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      options.onTimeout?.('total');
+      throw new UpstreamTimeoutError('total');
+    }
+
+    const controller = new AbortController();
+    let timedOut = null as UpstreamTimeoutPhase | null;
+    // 等待响应头的时间不超过总时长的剩余部分
+    const timeoutId = setTimeout(() => {
+      timedOut = timeout < remaining ? 'ttfb' : 'total';
+      controller.abort();
+    }, Math.min(timeout, remaining));
+    const onClientAbort = () => controller.abort();
+    options.signal?.addEventListener('abort', onClientAbort);
+
+    // 每次尝试作为上游请求span的子span，traceparent指向这次尝试
+    const attemptSpan = options.span?.startChild('upstream attempt', 'client', {
+      'http.request.method': method,
+      'url.full': targetUrl,
+      'http.request.resend_count': attempt
+    });
+    const attemptHeaders = attemptSpan
+      ? { ...headers, traceparent: formatTraceparent(attemptSpan.context), ...(options.tracestate ? { tracestate: options.tracestate } : {}) }
+      : headers;
+    const egress = options.egress?.acquire();
+    if (egress) {
+      attemptSpan?.setAttribute('ciao_cors.egress', egress.label);
+      options.onEgress?.(egress.label);
+    }
+
+    const attemptStart = Date.now();
+    try {
+      const response = await fetch(targetUrl, {
+        method,
+        headers: attemptHeaders,
+        body: body?.stream(),
+        signal: controller.signal,
+        redirect: 'manual',
+        client: egress?.client ?? options.client,
+        // 增加缓存控制
+        cache: request.headers.get('cache-control')?.includes('no-cache') ? 'no-cache' : 'default'
+      });
+
+      clearTimeout(timeoutId);
+      // 407只会来自出口代理（认证失败）
+      egress?.release(response.status === 407, 'Proxy authentication required');
+      // 收到响应头后，客户端断开通过取消响应体中止上游请求
+      options.signal?.removeEventListener('abort', onClientAbort);
+      attemptSpan?.setAttribute('http.response.status_code', response.status);
+      attemptSpan?.end(response.status >= 500 ? `HTTP ${response.status}` : undefined);
+      options.circuit?.record(response.status < 500, `HTTP ${response.status}`);
+
+      // 检查是否需要基于状态码重试
+      const delay = shouldRetryStatus(response.status)
+        ? nextRetryDelay(attempt, parseRetryAfter(response.headers.get('retry-after')))
+        : null;
+      if (delay !== null) {
+        await response.body?.cancel();
+        warn('Upstream attempt failed, retrying', { attempt: attempt + 1, status: response.status, delayMs: delay });
+        options.onRetry?.('status');
+        await new Promise(resolve => setTimeout(resolve, delay));
+        continue;
+      }
+
+      if (!response.body || (config.upstreamIdleTimeout <= 0 && !Number.isFinite(deadline))) {
+        return response;
+      }
+      const guardedBody = limitBodyTiming(response.body, config.upstreamIdleTimeout, deadline, phase => {
+        warn('Upstream response body timed out', { phase });
+        options.onTimeout?.(phase);
+        controller.abort();
+      });
+      return new Response(guardedBody, { status: response.status, statusText: response.statusText, headers: response.headers });
+    } catch (caught) {
+      clearTimeout(timeoutId);
+      options.signal?.removeEventListener('abort', onClientAbort);
+      // 上游连接器建立连接超时时关闭连接，请求以连接错误失败，按连接阶段超时处理
+      const connectTimedOut = egress ? egress.timedOutSince(attemptStart) : options.connectTimedOut?.(attemptStart);
+      const phase = controller.signal.aborted ? timedOut : connectTimedOut ? 'connect' : null;
+      const error = phase ? new UpstreamTimeoutError(phase) : caught;
+      attemptSpan?.end(error);
+      // 只有连接错误计入出口代理的健康状态
+      egress?.release(phase || options.signal?.aborted || body?.exceeded ? null : true,
+        error instanceof Error ? error.message : String(error));
+
+      if (options.signal?.aborted) {
+        throw new Error('Client disconnected');
+      }
+      if (body?.exceeded) {
+        throw new RequestBodyTooLargeError(body.maxBodySize);
+      }
+      options.circuit?.record(false, error instanceof Error ? error.message : String(error));
+
+      if (phase) {
+        options.onTimeout?.(phase);
+        const delay = phase !== 'total' ? nextRetryDelay(attempt) : null;
+        if (delay !== null) {
+          warn('Upstream attempt timed out, retrying', { attempt: attempt + 1, phase, delayMs: delay });
+          options.onRetry?.('timeout');
+          await new Promise(resolve => setTimeout(resolve, delay));
+          continue;
+        }
+        throw error;
+      }
+
+      const delay = shouldRetry(error) ? nextRetryDelay(attempt) : null;
+      if (delay !== null) {
+        warn('Upstream attempt failed, retrying', {
+          attempt: attempt + 1,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          delayMs: delay
+        });
+        options.onRetry?.('error');
+        await new Promise(resolve => setTimeout(resolve, delay));
+        continue;
+      }
+
+      throw error;
+    }
+  }
+
+  throw new Error('Max retries exceeded');
+}
+
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+/**
+ * 按照Fetch规范计算重定向后的请求：303以及POST的301/302改为GET并丢弃请求体，
+ * 跨域跳转时移除认证相关头部
+ */
+function buildRedirectRequest(
+  status: number,
+  fromUrl: string,
+  toUrl: string,
+  current: { method: string; headers: Record<string, string>; body: RequestBody | undefined }
+): { method: string; headers: Record<string, string>; body: RequestBody | undefined } {
+  let { method, body } = current;
+  const headers = { ...current.headers };
+  const removeHeaders = (names: string[]) => {
+    for (const key of Object.keys(headers)) {
+      if (names.includes(key.toLowerCase())) {
+        delete headers[key];
+      }
+    }
+  };
+
+  if ((status === 303 && method !== 'HEAD') || ((status === 301 || status === 302) && method === 'POST')) {
+    method = 'GET';
+    body = undefined;
+    removeHeaders(['content-type', 'content-encoding', 'content-language', 'content-location']);
+  }
+
+  if (new URL(fromUrl).origin !== new URL(toUrl).origin) {
+    removeHeaders(['authorization', 'cookie']);
+  }
+
+  return { method, headers, body };
+}
+
+/**
+ * 包装响应体，在响应体读取完毕、出错或被取消时执行回调，参数为已传输的字节数
+ */
+function onBodyComplete(body: ReadableStream<Uint8Array> | null, callback: (bytes: number) => void): ReadableStream<Uint8Array> | null {
+  let called = false;
+  let bytes = 0;
+  const complete = () => {
+    if (!called) {
+      called = true;
+      callback(bytes);
+    }
+  };
+
+  if (!body) {
+    complete();
+    return null;
+  }
+
+  const reader = body.getReader();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          complete();
+          controller.close();
+        } else {
+          bytes += value.byteLength;
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        complete();
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      complete();
+      return reader.cancel(reason);
+    }
+  });
+}
+
+/**
+ * 判断响应是否为Server-Sent Events事件流
+ */
+function isEventStream(headers: Headers): boolean {
+  return (headers.get('content-type') || '').split(';')[0].trim().toLowerCase() === 'text/event-stream';
+}
+
+// ==================== WebSocket代理模块 ====================
+/**
+ * 判断是否为WebSocket升级请求
+ */
+function isWebSocketUpgrade(request: Request): boolean {
+  return request.method === 'GET' && (request.headers.get('upgrade') || '')
+    .toLowerCase().split(',').some(value => value.trim() === 'websocket');
+}
+
+/**
+ * 把目标URL转换为WebSocket地址（http→ws，https→wss），不支持的协议返回null
+ */
+function toWebSocketUrl(targetUrl: string): string | null {
+  const schemes: Record<string, string> = { 'http:': 'ws:', 'https:': 'wss:', 'ws:': 'ws:', 'wss:': 'wss:' };
+  let url: URL;
+  try {
+    url = new URL(targetUrl);
+  } catch {
+    return null;
+  }
+  if (!schemes[url.protocol]) return null;
+  url.protocol = schemes[url.protocol];
+  url.hash = '';
+  return url.href;
+}
+
+/**
+ * 构建上游WebSocket握手的请求头：沿用代理请求的头部，去掉由WebSocket实现生成的握手头部和User-Agent
+ */
+function buildWebSocketHeaders(originalHeaders: Headers): Record<string, string> {
+  return Object.fromEntries(Object.entries(buildProxyHeaders(originalHeaders))
+    .filter(([name]) => {
+      const lowerName = name.toLowerCase();
+      return !lowerName.startsWith('sec-websocket-') && !lowerName.startsWith('sec-fetch-') &&
+        !['accept', 'accept-encoding', 'user-agent', 'x-request-id', 'traceparent', 'tracestate'].includes(lowerName);
+    }));
+}
+
+// WebSocket消息的字节数（文本按UTF-8编码计算）
+function webSocketMessageSize(data: string | ArrayBuffer): number {
+  return typeof data === 'string' ? new TextEncoder().encode(data).byteLength : data.byteLength;
+}
+
+/**
+ * WebSocket代理统计（当前实例），字节数只计算消息内容
+ */
+interface WebSocketStats {
+  // 当前打开的连接数
+  open: number;
+  total: number;
+  // 上游连接失败的次数
+  failed: number;
+  // 客户端发往上游的消息和字节数
+  messagesIn: number;
+  bytesIn: number;
+  // 上游发往客户端的消息和字节数
+  messagesOut: number;
+  bytesOut: number;
+}
+
+interface WebSocketRelayOptions {
+  // 客户端请求的子协议，由上游选择
+  protocols: string[];
+  headers: Record<string, string>;
+  // 固定到已校验地址的HTTP客户端
+  client?: Deno.HttpClient;
+  connectTimeout: number;
+  // 两个方向都没有消息时关闭连接（毫秒），0表示不限制
+  idleTimeout: number;
+  maxMessageSize: number;
+  // 连接结束时调用一次，参数为两个方向的字节数和关闭原因
+  onClose: (result: { bytesIn: number; bytesOut: number; code: number; reason: string }) => void;
+}
+
+/**
+ * WebSocket中继：先连接上游，成功后再升级客户端连接，然后在两个方向转发消息
+ */
+class WebSocketRelay {
+  private stats = { total: 0, failed: 0, messagesIn: 0, bytesIn: 0, messagesOut: 0, bytesOut: 0 };
+  // 当前连接的关闭函数和客户端连接关闭完成的Promise，服务关闭时使用
+  private connections: Map<(code: number, reason: string) => void, Promise<void>> = new Map();
+  private isDestroyed: boolean = false;
+
+  /**
+   * 建立到上游的连接并返回客户端的升级响应，上游连接失败时抛出错误
+   */
+  async open(request: Request, targetUrl: string, options: WebSocketRelayOptions): Promise<Response> {
+    let upstream: WebSocket;
+    try {
+      upstream = await this.connect(targetUrl, options);
+    } catch (error) {
+      this.stats.failed++;
+      throw error;
+    }
+    if (this.isDestroyed) {
+      upstream.close(1000, 'Server shutting down');
+      throw new Error('Server shutting down');
+    }
+
+    // 子协议以上游选择的为准
+    const { socket, response } = Deno.upgradeWebSocket(request, upstream.protocol ? { protocol: upstream.protocol } : {});
+    socket.binaryType = 'arraybuffer';
+    upstream.binaryType = 'arraybuffer';
+    this.stats.total++;
+
+    // 客户端连接打开前收到的上游消息
+    const pending: (string | ArrayBuffer)[] = [];
+    let bytesIn = 0;
+    let bytesOut = 0;
+    let idleTimer: number | undefined;
+    let closed = false;
+
+    const close = (code: number, reason: string) => {
+      if (closed) return;
+      closed = true;
+      clearTimeout(idleTimer);
+      this.connections.delete(close);
+      try {
+        socket.close(code, reason);
+      } catch {
+        // 客户端连接已关闭
+      }
+      try {
+        // 客户端一侧的WebSocket只能使用1000或3000-4999的关闭码
+        upstream.close(code === 1000 || (code >= 3000 && code <= 4999) ? code : 1000, reason);
+      } catch {
+        // 上游连接已关闭
+      }
+      options.onClose({ bytesIn, bytesOut, code, reason });
+    };
+    this.connections.set(close, new Promise(resolve => socket.addEventListener('close', () => resolve())));
+
+    const resetIdleTimer = () => {
+      if (options.idleTimeout <= 0) return;
+      clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => close(1001, 'Idle timeout'), options.idleTimeout) as unknown as number;
+    };
+    resetIdleTimer();
+
+    socket.onopen = () => {
+      for (const data of pending.splice(0)) socket.send(data);
+    };
+    socket.onmessage = event => {
+      const size = webSocketMessageSize(event.data);
+      if (size > options.maxMessageSize) return close(1009, 'Message too large');
+      upstream.send(event.data);
+      bytesIn += size;
+      this.stats.messagesIn++;
+      this.stats.bytesIn += size;
+      resetIdleTimer();
+    };
+    upstream.onmessage = event => {
+      const size = webSocketMessageSize(event.data);
+      if (size > options.maxMessageSize) return close(1009, 'Message too large');
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(event.data);
+      } else {
+        pending.push(event.data);
+      }
+      bytesOut += size;
+      this.stats.messagesOut++;
+      this.stats.bytesOut += size;
+      resetIdleTimer();
+    };
+    // 1005和1006表示没有收到关闭帧，不能发送给对方
+    socket.onclose = event => close(event.code === 1005 || event.code === 1006 ? 1000 : event.code, event.reason);
+    upstream.onclose = event => close(event.code === 1005 || event.code === 1006 ? 1011 : event.code,
+      event.reason || 'Upstream connection closed');
+
+    return response;
+  }
+
+  // 连接上游，超时或失败时拒绝
+  private connect(targetUrl: string, options: WebSocketRelayOptions): Promise<WebSocket> {
+    return new Promise((resolve, reject) => {
+      const upstream = new WebSocket(targetUrl, { protocols: options.protocols, headers: options.headers, client: options.client });
+      const timeoutId = setTimeout(() => {
+        upstream.close();
+        reject(new Error('Upstream WebSocket connection timed out'));
+      }, options.connectTimeout);
+      upstream.onopen = () => {
+        clearTimeout(timeoutId);
+        resolve(upstream);
+      };
+      upstream.onclose = () => {
+        clearTimeout(timeoutId);
+        reject(new Error('Upstream WebSocket connection failed'));
+      };
+    });
+  }
+
+  getStats(): WebSocketStats {
+    return { open: this.connections.size, ...this.stats };
+  }
+
+  // 关闭所有连接，等待关闭握手完成（最多deadlineMs）
+  async destroy(deadlineMs: number = 1000): Promise<void> {
+    this.isDestroyed = true;
+    const connections = Array.from(this.connections);
+    for (const [close] of connections) {
+      close(1001, 'Server shutting down');
+    }
+
+    let deadlineTimer: number | undefined;
+    const deadline = new Promise<void>(resolve => {
+      deadlineTimer = setTimeout(resolve, deadlineMs) as unknown as number;
+    });
+    await Promise.race([Promise.all(connections.map(([, closed]) => closed)), deadline]);
+    clearTimeout(deadlineTimer);
+  }
+}
+
+// ==================== 响应缓存模块 ====================
+// 没有显式过期时间时也可以缓存的状态码（RFC 9110 §15.1）
+const HEURISTICALLY_CACHEABLE_STATUSES = [200, 203, 204, 300, 301, 308, 404, 405, 410, 414, 501];
+
+// 过期但带有验证器（ETag/Last-Modified）的条目额外保留的时间，用于条件请求重新验证
+const STALE_RETENTION_MS = 60 * 60 * 1000;
+
+/**
+ * 解析Cache-Control头部，指令名转为小写，没有值的指令记为true
+ */
+function parseCacheControl(value: string | null): Map<string, string | true> {
+  const directives = new Map<string, string | true>();
+  if (!value) return directives;
+
+  for (const part of value.split(',')) {
+    const [name, ...rest] = part.split('=');
+    const directive = name.trim().toLowerCase();
+    if (!directive) continue;
+    directives.set(directive, rest.length > 0 ? rest.join('=').trim().replace(/^"(.*)"$/, '$1') : true);
+  }
+  return directives;
+}
+
+// 解析delta-seconds形式的指令值
+function parseDeltaSeconds(value: string | true | undefined): number | undefined {
+  return typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : undefined;
+}
+
+/**
+ * 按RFC 9111计算响应的新鲜期（毫秒），不能存储时返回null
+ * 上游没有给出 s-maxage/max-age/Expires 时使用defaultTTL作为启发式新鲜期
+ */
+function getCacheFreshness(request: Request, status: number, headers: Headers, defaultTTL: number): number | null {
+  const requestDirectives = parseCacheControl(request.headers.get('cache-control'));
+  const directives = parseCacheControl(headers.get('cache-control'));
+
+  // 共享缓存不能存储的响应
+  if (requestDirectives.has('no-store') || directives.has('no-store') || directives.has('private')) return null;
+  if (headers.has('set-cookie')) return null;
+  if ((headers.get('vary') || '').split(',').some(name => name.trim() === '*')) return null;
+  if (request.headers.has('authorization') &&
+      !directives.has('public') && !directives.has('s-maxage') && !directives.has('must-revalidate')) {
+    return null;
+  }
+  if (!HEURISTICALLY_CACHEABLE_STATUSES.includes(status)) return null;
+
+  const hasValidator = headers.has('etag') || headers.has('last-modified');
+  let freshness: number;
+  if (directives.has('no-cache')) {
+    freshness = 0;
+  } else if (parseDeltaSeconds(directives.get('s-maxage')) !== undefined) {
+    freshness = parseDeltaSeconds(directives.get('s-maxage'))! * 1000;
+  } else if (parseDeltaSeconds(directives.get('max-age')) !== undefined) {
+    freshness = parseDeltaSeconds(directives.get('max-age'))! * 1000;
+  } else if (headers.has('expires')) {
+    // 无效的Expires视为已过期
+    const expires = Date.parse(headers.get('expires')!);
+    const date = Date.parse(headers.get('date') || '') || Date.now();
+    freshness = isNaN(expires) ? 0 : Math.max(0, expires - date);
+  } else {
+    freshness = defaultTTL;
+  }
+
+  // 立即过期且无法重新验证的响应没有缓存价值
+  return freshness > 0 || hasValidator ? freshness : null;
+}
+
+// 缓存的上游响应，以可序列化的形式保存在共享存储中
+interface CachedResponse {
+  url: string;
+  status: number;
+  statusText: string;
+  headers: [string, string][];
+  body: Uint8Array<ArrayBuffer>;
+  // 收到响应的时间，以及上游给出的初始Age（毫秒）
+  responseTime: number;
+  initialAge: number;
+  // 新鲜期（毫秒）
+  freshness: number;
+}
+
+type CacheTier = 'memory' | 'disk';
+
+interface CacheLookup {
+  urlKey: string;
+  variant: string;
+  entry: CachedResponse;
+  // 当前Age（毫秒）
+  age: number;
+  fresh: boolean;
+  tier: CacheTier;
+}
+
+type CacheOutcome = 'HIT' | 'MISS' | 'REVALIDATED';
+
+interface CacheTierStats {
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+  hits: number;
+  misses: number;
+  hitRatio: number;
+}
+
+// 磁盘缓存索引中的条目，响应体按SHA-256摘要保存在 bodies 目录下
+interface DiskCacheEntry extends Omit<CachedResponse, 'body'> {
+  vary: string[];
+  bodyHash: string;
+  bodySize: number;
+  expiresAt: number;
+}
+
+// 磁盘缓存索引的键为 urlKey/variant，urlKey 是十六进制摘要，不含斜杠
+function splitDiskCacheId(id: string): [string, string] {
+  const index = id.indexOf('/');
+  return [id.slice(0, index), id.slice(index + 1)];
+}
+
+/**
+ * 磁盘缓存层
+ * 响应体按内容寻址保存（相同内容只存一份），索引保存在 index.json 中，启动时加载以便重启后继续使用
+ */
+class DiskCache {
+  readonly dir: string;
+  private maxBytes: number;
+  private maxEntrySize: number;
+  // 索引按最近使用顺序排列（越靠后越新），键为 urlKey/variant
+  private entries: Map<string, DiskCacheEntry> = new Map();
+  // 按 urlKey 索引的Vary请求头和变体，查找和替换变体时不需要遍历整个索引
+  private urls: Map<string, { vary: string[]; variants: Set<string> }> = new Map();
+  // 响应体文件的大小和引用计数
+  private bodies: Map<string, { size: number; refs: number }> = new Map();
+  private totalBytes = 0;
+  private dirty = false;
+  private flushTimer: number | null = null;
+  private isDestroyed: boolean = false;
+
+  constructor(dir: string, maxBytes: number, maxEntrySize: number) {
+    this.dir = dir;
+    this.maxBytes = maxBytes;
+    this.maxEntrySize = maxEntrySize;
+
+    try {
+      Deno.mkdirSync(`${dir}/bodies`, { recursive: true });
+    } catch (error) {
+      throw new ConfigError([`${dir}: ${error instanceof Error ? error.message : error}`]);
+    }
+    this.load();
+
+    // 定期写入索引并清理过期条目
+    this.flushTimer = setInterval(() => {
+      if (!this.isDestroyed) {
+        this.cleanup();
+        this.flush().catch(error => {
+          console.error('❌ Failed to write disk cache index:', error instanceof Error ? error.message : error);
+        });
+      }
+    }, 5000) as unknown as number;
+  }
+
+  private get indexPath(): string {
+    return `${this.dir}/index.json`;
+  }
+
+  private bodyPath(hash: string): string {
+    return `${this.dir}/bodies/${hash}`;
+  }
+
+  // 加载索引，丢弃响应体文件已丢失的条目，并删除没有被引用的响应体文件
+  private load(): void {
+    let records: [string, DiskCacheEntry][] = [];
+    try {
+      const data = JSON.parse(Deno.readTextFileSync(this.indexPath));
+      if (Array.isArray(data?.entries)) records = data.entries;
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) {
+        console.warn(`⚠️ Ignoring unreadable disk cache index ${this.indexPath}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    const now = Date.now();
+    const sizes = new Map<string, number>();
+    for (const file of Deno.readDirSync(`${this.dir}/bodies`)) {
+      if (!file.isFile) continue;
+      if (/^[0-9a-f]{64}$/.test(file.name)) {
+        sizes.set(file.name, Deno.statSync(this.bodyPath(file.name)).size);
+      } else {
+        // 写入中断留下的临时文件
+        Deno.removeSync(`${this.dir}/bodies/${file.name}`);
+      }
+    }
+
+    for (const [id, entry] of records) {
+      if (typeof id !== 'string' || typeof entry?.bodyHash !== 'string' || !(entry.expiresAt > now)) continue;
+      if (sizes.get(entry.bodyHash) !== entry.bodySize) continue;
+      this.addEntry(id, entry);
+    }
+
+    for (const hash of sizes.keys()) {
+      if (!this.bodies.has(hash)) Deno.removeSync(this.bodyPath(hash));
+    }
+    this.dirty = records.length !== this.entries.size;
+    if (this.entries.size > 0) {
+      console.log(`💾 Loaded ${this.entries.size} disk cache entries (${this.totalBytes} bytes)`);
+    }
+  }
+
+  private addEntry(id: string, entry: DiskCacheEntry): void {
+    this.removeEntry(id);
+    this.entries.set(id, entry);
+    const [urlKey, variant] = splitDiskCacheId(id);
+    const url = this.urls.get(urlKey);
+    if (url) {
+      url.vary = entry.vary;
+      url.variants.add(variant);
+    } else {
+      this.urls.set(urlKey, { vary: entry.vary, variants: new Set([variant]) });
+    }
+    const body = this.bodies.get(entry.bodyHash);
+    if (body) {
+      body.refs++;
+    } else {
+      this.bodies.set(entry.bodyHash, { size: entry.bodySize, refs: 1 });
+      this.totalBytes += entry.bodySize;
+    }
+    this.dirty = true;
+  }
+
+  // 从索引中移除条目，返回不再被引用、需要删除的响应体摘要
+  private removeEntry(id: string): string | undefined {
+    const entry = this.entries.get(id);
+    if (!entry) return undefined;
+    this.entries.delete(id);
+    this.dirty = true;
+    const [urlKey, variant] = splitDiskCacheId(id);
+    const url = this.urls.get(urlKey)!;
+    url.variants.delete(variant);
+    if (url.variants.size === 0) this.urls.delete(urlKey);
+
+    const body = this.bodies.get(entry.bodyHash)!;
+    if (--body.refs > 0) return undefined;
+    this.bodies.delete(entry.bodyHash);
+    this.totalBytes -= body.size;
+    return entry.bodyHash;
+  }
+
+  private async deleteBody(hash: string | undefined): Promise<void> {
+    if (!hash) return;
+    try {
+      await Deno.remove(this.bodyPath(hash));
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+    }
+  }
+
+  private async removeEntries(ids: string[]): Promise<number> {
+    const hashes = ids.map(id => this.removeEntry(id));
+    await Promise.all(hashes.map(hash => this.deleteBody(hash)));
+    return ids.length;
+  }
+
+  // 超出总大小时淘汰最久未使用的条目
+  private async evict(): Promise<void> {
+    const hashes: (string | undefined)[] = [];
+    for (const id of this.entries.keys()) {
+      if (this.totalBytes <= this.maxBytes) break;
+      hashes.push(this.removeEntry(id));
+    }
+    await Promise.all(hashes.map(hash => this.deleteBody(hash)));
+  }
+
+  private cleanup(): void {
+    const now = Date.now();
+    const expired = Array.from(this.entries).filter(([, entry]) => entry.expiresAt <= now).map(([id]) => id);
+    if (expired.length > 0) {
+      this.removeEntries(expired).catch(error => {
+        console.error('❌ Failed to remove expired disk cache entries:', error instanceof Error ? error.message : error);
+      });
+    }
+  }
+
+  configure(maxBytes: number, maxEntrySize: number): Promise<void> {
+    this.maxBytes = maxBytes;
+    this.maxEntrySize = maxEntrySize;
+    return this.evict();
+  }
+
+  // 单个响应体的大小上限
+  get entryLimit(): number {
+    return Math.min(this.maxEntrySize, this.maxBytes);
+  }
+
+  getVary(urlKey: string): string[] | undefined {
+    const url = this.urls.get(urlKey);
+    if (!url) return undefined;
+    const now = Date.now();
+    for (const variant of url.variants) {
+      if (this.entries.get(`${urlKey}/${variant}`)!.expiresAt > now) return url.vary;
+    }
+    return undefined;
+  }
+
+  async get(urlKey: string, variant: string): Promise<CachedResponse | undefined> {
+    const id = `${urlKey}/${variant}`;
+    const entry = this.entries.get(id);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      await this.removeEntries([id]);
+      return undefined;
+    }
+
+    let body: Uint8Array<ArrayBuffer>;
+    try {
+      body = await Deno.readFile(this.bodyPath(entry.bodyHash));
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+      this.removeEntry(id);
+      return undefined;
+    }
+
+    // 移到LRU末尾
+    this.entries.delete(id);
+    this.entries.set(id, entry);
+    this.dirty = true;
+
+    const { vary: _vary, bodyHash: _bodyHash, bodySize: _bodySize, expiresAt: _expiresAt, ...response } = entry;
+    return { ...response, body };
+  }
+
+  async set(urlKey: string, variant: string, vary: string[], response: CachedResponse, ttl: number): Promise<void> {
+    const { body, ...meta } = response;
+    if (body.byteLength > this.entryLimit) return;
+
+    const bodyHash = await sha256Hex(body);
+    if (!this.bodies.has(bodyHash)) {
+      // 先写临时文件再重命名，避免读到写了一半的文件
+      const tempPath = `${this.bodyPath(bodyHash)}.${crypto.randomUUID()}.tmp`;
+      await Deno.writeFile(tempPath, body);
+      await Deno.rename(tempPath, this.bodyPath(bodyHash));
+    }
+
+    // Vary变化后旧的变体不再可达。先加入新条目再移除旧条目，
+    // 与新条目相同的响应体仍被引用，不会被当作无用文件删除
+    const id = `${urlKey}/${variant}`;
+    const url = this.urls.get(urlKey);
+    const stale = url && url.vary.join() !== vary.join()
+      ? Array.from(url.variants, staleVariant => `${urlKey}/${staleVariant}`).filter(staleId => staleId !== id)
+      : [];
+    const previousHash = this.entries.get(id)?.bodyHash;
+
+    this.addEntry(id, {
+      ...meta,
+      vary,
+      bodyHash,
+      bodySize: body.byteLength,
+      expiresAt: Date.now() + ttl
+    });
+    const hashes = stale.map(staleId => this.removeEntry(staleId));
+    // 被替换的条目的响应体不再被引用时一并删除
+    if (previousHash && !this.bodies.has(previousHash)) hashes.push(previousHash);
+    await Promise.all(hashes.map(hash => this.deleteBody(hash)));
+    await this.evict();
+  }
+
+  /**
+   * 删除URL满足条件的条目，返回删除的条目数
+   */
+  async purge(matches: (url: string) => boolean): Promise<number> {
+    const ids = Array.from(this.entries).filter(([, entry]) => matches(entry.url)).map(([id]) => id);
+    return await this.removeEntries(ids);
+  }
+
+  async clear(): Promise<number> {
+    return await this.removeEntries(Array.from(this.entries.keys()));
+  }
+
+  // 索引有变化时写入文件：先写临时文件再重命名
+  async flush(): Promise<void> {
+    if (!this.dirty) return;
+    this.dirty = false;
+    const data = JSON.stringify({ entries: Array.from(this.entries) });
+    const tempPath = `${this.indexPath}.tmp`;
+    await Deno.writeTextFile(tempPath, data);
+    await Deno.rename(tempPath, this.indexPath);
+  }
+
+  getStats(): { entries: number; bytes: number; maxBytes: number } {
+    return { entries: this.entries.size, bytes: this.totalBytes, maxBytes: this.maxBytes };
+  }
+
+  destroy(): void {
+    this.isDestroyed = true;
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    // 退出前同步写入索引
+    if (this.dirty) {
+      try {
+        Deno.writeTextFileSync(`${this.indexPath}.tmp`, JSON.stringify({ entries: Array.from(this.entries) }));
+        Deno.renameSync(`${this.indexPath}.tmp`, this.indexPath);
+        this.dirty = false;
+      } catch (error) {
+        console.error('❌ Failed to write disk cache index:', error instanceof Error ? error.message : error);
+      }
+    }
+  }
+}
+
+/**
+ * 遵循RFC 9111的两级共享响应缓存
+ * 内存层的条目按 URL + Vary 请求头 保存在共享存储中，本实例写入的条目按最近使用顺序淘汰以限制总字节数；
+ * 配置了 CACHE_DIR 时，内存层放不下或已淘汰的响应由磁盘层提供，命中后重新放入内存层
+ */
+class ResponseCache {
+  private store: StateStore;
+  private disk?: DiskCache;
+  private maxBytes: number;
+  private maxEntrySize: number;
+  // 本实例写入条目的LRU索引（Map按插入顺序，越靠后越新）
+  private index: Map<string, { key: StateKey; size: number }> = new Map();
+  private totalBytes = 0;
+  private counters: Record<CacheOutcome, number> = { HIT: 0, MISS: 0, REVALIDATED: 0 };
+  private tierCounters: Record<CacheTier, { hits: number; misses: number }> = {
+    memory: { hits: 0, misses: 0 },
+    disk: { hits: 0, misses: 0 }
+  };
+
+  constructor(store: StateStore, maxBytes: number, maxEntrySize: number, disk?: DiskCache) {
+    this.store = store;
+    this.disk = disk;
+    this.maxBytes = maxBytes;
+    this.maxEntrySize = Math.min(maxEntrySize, store.maxValueSize);
+  }
+
+  /**
+   * 更新大小上限（配置重载时调用），超出新上限的条目立即淘汰
+   */
+  configure(maxBytes: number, maxEntrySize: number, diskMaxBytes: number, diskMaxEntrySize: number): void {
+    this.maxBytes = maxBytes;
+    this.maxEntrySize = Math.min(maxEntrySize, this.store.maxValueSize);
+    this.evict();
+    this.disk?.configure(diskMaxBytes, diskMaxEntrySize).catch(error => {
+      console.error('❌ Failed to evict disk cache entries:', error instanceof Error ? error.message : error);
+    });
+  }
+
+  get diskDir(): string | undefined {
+    return this.disk?.dir;
+  }
+
+  private get memoryEnabled(): boolean {
+    return this.maxBytes > 0 && this.maxEntrySize > 0;
+  }
+
+  get enabled(): boolean {
+    return this.memoryEnabled || this.disk !== undefined;
+  }
+
+  /**
+   * 请求是否可以使用缓存（只缓存不带Range、未要求no-store的GET请求）
+   */
+  accepts(request: Request): boolean {
+    return this.enabled && request.method === 'GET' && !request.headers.has('range') &&
+      !parseCacheControl(request.headers.get('cache-control')).has('no-store');
+  }
+
+  private async urlKey(targetUrl: string): Promise<string> {
+    return await sha256Hex(`GET ${targetUrl}`);
+  }
+
+  // 按Vary列出的请求头计算变体键
+  private async variantKey(vary: string[], headers: Headers): Promise<string> {
+    if (vary.length === 0) return 'default';
+    return await sha256Hex(vary.map(name => `${name}:${(headers.get(name) || '').trim().replace(/\s+/g, ' ')}`).join('\n'));
+  }
+
+  // 更新LRU顺序，给出size时记录新写入的条目
+  private touch(key: StateKey, size?: number): void {
+    const id = JSON.stringify(key);
+    const existing = this.index.get(id);
+    if (existing) {
+      this.index.delete(id);
+      if (size === undefined) {
+        this.index.set(id, existing);
+        return;
+      }
+      this.totalBytes -= existing.size;
+    }
+    if (size === undefined) return;
+
+    this.index.set(id, { key, size });
+    this.totalBytes += size;
+    this.evict();
+  }
+
+  // 超出总大小时淘汰最久未使用的条目
+  private evict(): void {
+    for (const [oldestId, oldest] of this.index) {
+      if (this.totalBytes <= this.maxBytes) break;
+      this.index.delete(oldestId);
+      this.totalBytes -= oldest.size;
+      this.store.delete(oldest.key).catch(() => {});
+    }
+  }
+
+  private forget(key: StateKey): void {
+    const id = JSON.stringify(key);
+    const existing = this.index.get(id);
+    if (existing) {
+      this.index.delete(id);
+      this.totalBytes -= existing.size;
+    }
+  }
+
+  // 依次查找内存层和磁盘层
+  private async find(request: Request, urlKey: string): Promise<{ variant: string; entry: CachedResponse; tier: CacheTier } | undefined> {
+    const vary = this.memoryEnabled ? await this.store.get<string[]>(['cache', urlKey, 'vary']) : undefined;
+    if (vary) {
+      const variant = await this.variantKey(vary, request.headers);
+      const key = ['cache', urlKey, variant];
+      const entry = await this.store.get<CachedResponse>(key);
+      if (entry) {
+        this.touch(key);
+        return { variant, entry, tier: 'memory' };
+      }
+      this.forget(key);
+    }
+    if (this.memoryEnabled) this.tierCounters.memory.misses++;
+
+    const diskVary = this.disk?.getVary(urlKey);
+    if (!this.disk || !diskVary) {
+      if (this.disk) this.tierCounters.disk.misses++;
+      return undefined;
+    }
+    const variant = await this.variantKey(diskVary, request.headers);
+    const entry = await this.disk.get(urlKey, variant);
+    if (!entry) {
+      this.tierCounters.disk.misses++;
+      return undefined;
+    }
+    return { variant, entry, tier: 'disk' };
+  }
+
+  /**
+   * 查找请求对应的缓存条目，并按请求的Cache-Control判断是否可以直接使用
+   */
+  async lookup(request: Request, targetUrl: string): Promise<CacheLookup | undefined> {
+    const urlKey = await this.urlKey(targetUrl);
+    const found = await this.find(request, urlKey);
+    if (!found) return undefined;
+    const { variant, entry, tier } = found;
+
+    const age = Math.max(0, Date.now() - entry.responseTime) + entry.initialAge;
+    const requestDirectives = parseCacheControl(request.headers.get('cache-control'));
+    const requestMaxAge = parseDeltaSeconds(requestDirectives.get('max-age'));
+    const noCache = requestDirectives.has('no-cache') ||
+      (!request.headers.has('cache-control') && /no-cache/i.test(request.headers.get('pragma') || ''));
+
+    const fresh = !noCache && age < entry.freshness && (requestMaxAge === undefined || age <= requestMaxAge * 1000);
+    if (fresh) {
+      this.tierCounters[tier].hits++;
+    } else {
+      this.tierCounters[tier].misses++;
+    }
+
+    // 磁盘层命中的条目重新放入内存层
+    if (tier === 'disk' && this.memoryEnabled) {
+      const vary = this.disk!.getVary(urlKey) || [];
+      this.saveMemory(urlKey, variant, vary, entry).catch(() => {});
+    }
+    return { urlKey, variant, entry, age, fresh, tier };
+  }
+
+  /**
+   * 写入上游响应，不可缓存或超过单条大小上限时放弃
+   */
+  async put(request: Request, targetUrl: string, response: Response, defaultTTL: number): Promise<void> {
+    const freshness = getCacheFreshness(request, response.status, response.headers, defaultTTL);
+    const limit = Math.max(this.memoryEnabled ? this.maxEntrySize : 0, this.disk?.entryLimit ?? 0);
+    const declaredSize = Number(response.headers.get('content-length') || 0);
+    if (freshness === null || declaredSize > limit) {
+      await response.body?.cancel();
+      return;
+    }
+
+    // 边读边检查大小，超过上限立即停止读取
+    const chunks: Uint8Array[] = [];
+    let bodySize = 0;
+    if (response.body) {
+      const reader = response.body.getReader();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        bodySize += value.byteLength;
+        if (bodySize > limit) {
+          await reader.cancel();
+          return;
+        }
+        chunks.push(value);
+      }
+    }
+    const body = new Uint8Array(bodySize);
+    let offset = 0;
+    for (const chunk of chunks) {
+      body.set(chunk, offset);
+      offset += chunk.byteLength;
+    }
+
+    const vary = (response.headers.get('vary') || '').split(',')
+      .map(name => name.trim().toLowerCase()).filter(Boolean).sort();
+    const entry: CachedResponse = {
+      url: targetUrl,
+      status: response.status,
+      statusText: response.statusText,
+      headers: Array.from(response.headers.entries()),
+      body,
+      responseTime: Date.now(),
+      initialAge: (parseDeltaSeconds(response.headers.get('age') || undefined) || 0) * 1000,
+      freshness
+    };
+    await this.save(await this.urlKey(targetUrl), await this.variantKey(vary, request.headers), vary, entry);
+  }
+
+  // 按大小上限分别写入内存层和磁盘层
+  private async save(urlKey: string, variant: string, vary: string[], entry: CachedResponse): Promise<void> {
+    const hasValidator = entry.headers.some(([name]) => name === 'etag' || name === 'last-modified');
+    const ttl = entry.freshness + (hasValidator ? STALE_RETENTION_MS : 0);
+
+    await Promise.all([
+      this.memoryEnabled ? this.saveMemory(urlKey, variant, vary, entry, ttl) : undefined,
+      this.disk?.set(urlKey, variant, vary, entry, ttl)
+    ]);
+  }
+
+  private async saveMemory(urlKey: string, variant: string, vary: string[], entry: CachedResponse, ttl?: number): Promise<void> {
+    const size = entry.headers.reduce((total, [name, value]) => total + name.length + value.length, entry.body.byteLength);
+    if (size > this.maxEntrySize) return;
+
+    // 从磁盘层提升的条目只保留到新鲜期结束
+    const storeTtl = ttl ?? Math.max(1000, entry.freshness - (Date.now() - entry.responseTime) - entry.initialAge);
+    const key = ['cache', urlKey, variant];
+    await this.store.set(['cache', urlKey, 'vary'], vary, storeTtl);
+    await this.store.set(key, entry, storeTtl);
+    this.touch(key, size);
+  }
+
+  /**
+   * 上游返回304时用新的响应头更新条目（RFC 9111 §4.3.4），返回更新后的条目
+   */
+  async refresh(request: Request, lookup: CacheLookup, notModified: Headers, defaultTTL: number): Promise<CachedResponse> {
+    const headers = new Headers(lookup.entry.headers);
+    for (const [name, value] of notModified.entries()) {
+      if (name !== 'content-length') headers.set(name, value);
+    }
+
+    const freshness = getCacheFreshness(request, lookup.entry.status, headers, defaultTTL);
+    const entry: CachedResponse = {
+      ...lookup.entry,
+      headers: Array.from(headers.entries()),
+      responseTime: Date.now(),
+      initialAge: (parseDeltaSeconds(notModified.get('age') || undefined) || 0) * 1000,
+      freshness: freshness ?? 0
+    };
+
+    if (freshness === null) {
+      await this.purge({ url: entry.url });
+    } else {
+      const vary = (headers.get('vary') || '').split(',').map(name => name.trim().toLowerCase()).filter(Boolean).sort();
+      await this.save(lookup.urlKey, lookup.variant, vary, entry);
+    }
+    return entry;
+  }
+
+  record(outcome: CacheOutcome): void {
+    this.counters[outcome]++;
+  }
+
+  /**
+   * 按URL或URL前缀（例如 https://example.com/ 清理整个主机）删除两级缓存中的条目，返回删除的条目数
+   */
+  async purge(filter: { url?: string; prefix?: string }): Promise<number> {
+    const matches = (url: string) => filter.url !== undefined ? url === filter.url : url.startsWith(filter.prefix || '');
+    const prefix = filter.url !== undefined ? ['cache', await this.urlKey(filter.url)] : ['cache'];
+
+    let removed = 0;
+    const urlKeys = new Set<string>();
+    for (const [key, value] of await this.store.list<CachedResponse | string[]>(prefix)) {
+      if (Array.isArray(value) || !matches(value.url)) continue;
+      await this.store.delete(key);
+      this.forget(key);
+      urlKeys.add(String(key[1]));
+      removed++;
+    }
+    for (const urlKey of urlKeys) {
+      await this.store.delete(['cache', urlKey, 'vary']);
+    }
+
+    return removed + (await this.disk?.purge(matches) ?? 0);
+  }
+
+  getStats(): { hits: number; misses: number; revalidated: number; memory: CacheTierStats; disk: CacheTierStats | null } {
+    const tierStats = (tier: CacheTier, usage: { entries: number; bytes: number; maxBytes: number }): CacheTierStats => {
+      const { hits, misses } = this.tierCounters[tier];
+      return { ...usage, hits, misses, hitRatio: hits + misses > 0 ? Math.round(hits / (hits + misses) * 10000) / 10000 : 0 };
+    };
+
+    return {
+      hits: this.counters.HIT,
+      misses: this.counters.MISS,
+      revalidated: this.counters.REVALIDATED,
+      memory: tierStats('memory', { entries: this.index.size, bytes: this.totalBytes, maxBytes: this.maxBytes }),
+      disk: this.disk ? tierStats('disk', this.disk.getStats()) : null
+    };
+  }
+
+  async clear(): Promise<number> {
+    this.index.clear();
+    this.totalBytes = 0;
+    return await this.store.deletePrefix(['cache']) + (await this.disk?.clear() ?? 0);
+  }
+
+  destroy(): void {
+    this.disk?.destroy();
+  }
+}
+
+/**
+ * 取出缓存条目的验证器，用作重新验证时的条件请求头
+ */
+function getCacheValidators(entry: CachedResponse): Record<string, string> | undefined {
+  const headers = new Headers(entry.headers);
+  const validators: Record<string, string> = {};
+  if (headers.has('etag')) validators['If-None-Match'] = headers.get('etag')!;
+  if (headers.has('last-modified')) validators['If-Modified-Since'] = headers.get('last-modified')!;
+  return Object.keys(validators).length > 0 ? validators : undefined;
+}
+
+/**
+ * 客户端的条件请求是否与缓存条目匹配（RFC 9110 §13.1）
+ */
+function isNotModified(request: Request, headers: Headers): boolean {
+  const ifNoneMatch = request.headers.get('if-none-match');
+  const etag = headers.get('etag');
+  if (ifNoneMatch) {
+    if (!etag) return false;
+    // 弱比较：忽略W/前缀
+    const normalize = (tag: string) => tag.trim().replace(/^W\//, '');
+    return ifNoneMatch.trim() === '*' || ifNoneMatch.split(',').some(tag => normalize(tag) === normalize(etag));
+  }
+
+  const ifModifiedSince = Date.parse(request.headers.get('if-modified-since') || '');
+  const lastModified = Date.parse(headers.get('last-modified') || '');
+  return !isNaN(ifModifiedSince) && !isNaN(lastModified) && lastModified <= ifModifiedSince;
+}
+
+// ==================== 统计和日志模块 ====================
+interface RequestStats {
+  totalRequests: number;
+  successfulRequests: number;
+  failedRequests: number;
+  topDomains: Map<string, number>;
+  topIPs: Map<string, number>;
+  statusCodes: Map<number, number>;
+  blockedRequests: number;
+  blockReasons: Map<string, number>;
+  policyRules: Map<string, { requests: number; failed: number }>;
+  clientKeys: Map<string, { requests: number; failed: number; rejected: number }>;
+  averageResponseTime: number;
+  startTime: number;
+}
+
+// 本实例累计的统计增量写入共享存储的间隔（毫秒）
+const STATS_FLUSH_INTERVAL = 5000;
+// 热门域名和IP各保留的条目数，超出部分按计数淘汰
+const STATS_TOP_CAPACITY = 100;
+// 每小时请求数保留的小时数
+const STATS_HOURLY_RETENTION = 24;
+
+type StatsTopKind = 'domain' | 'ip';
+
+/**
+ * 请求统计，计数器保存在共享存储中，多实例部署时合并所有实例的数据
+ * 请求只在本实例内累加，定期批量写入存储；热门域名和IP按计数只保留前 STATS_TOP_CAPACITY 个，
+ * 每小时、每分钟的请求数按时间窗口分桶并设置过期时间，读取统计时不需要遍历无上限的键
+ */
+class StatsCollector {
+  private store: StateStore;
+  private counters: Map<string, { key: StateKey; delta: number }> = new Map();
+  private topCounts: Record<StatsTopKind, Map<string, number>> = { domain: new Map(), ip: new Map() };
+  private buckets: Map<string, { key: StateKey; delta: number; expiresAt: number }> = new Map();
+  private flushTimer: number | null = null;
+  private isDestroyed: boolean = false;
+
+  constructor(store: StateStore) {
+    this.store = store;
+
+    // 记录统计开始时间，已有其他实例记录时沿用
+    this.store.update<number>(['stats', 'startTime'], startTime => ({ value: startTime ?? Date.now() }))
+      .catch(error => this.handleWriteError(error));
+
+    this.flushTimer = setInterval(() => {
+      if (!this.isDestroyed) {
+        this.flush().catch(error => this.handleWriteError(error));
+      }
+    }, STATS_FLUSH_INTERVAL) as unknown as number;
+  }
+
+  // 统计写入失败不影响请求处理
+  private handleWriteError(error: unknown): void {
+    console.error('❌ Failed to record stats:', error instanceof Error ? error.message : error);
+  }
+
+  private add(key: StateKey, delta: number): void {
+    const id = JSON.stringify(key);
+    const counter = this.counters.get(id);
+    if (counter) counter.delta += delta;
+    else this.counters.set(id, { key, delta });
+  }
+
+  // 按时间窗口累计请求数，窗口结束后保留retention毫秒
+  private addBucket(name: string, window: number, retention: number): void {
+    const start = Math.floor(Date.now() / window) * window;
+    const key: StateKey = ['stats', name, start];
+    const id = JSON.stringify(key);
+    const bucket = this.buckets.get(id);
+    if (bucket) bucket.delta++;
+    else this.buckets.set(id, { key, delta: 1, expiresAt: start + window + retention });
+  }
+
+  recordRequest(ip: string, domain: string, statusCode: number, responseTime: number, success: boolean, policyRules?: string[], clientKeyId?: string): void {
+    this.add(['stats', 'totalRequests'], 1);
+    this.add(['stats', success ? 'successfulRequests' : 'failedRequests'], 1);
+    this.add(['stats', 'responseTime'], responseTime);
+    this.add(['stats', 'status', statusCode], 1);
+    this.topCounts.domain.set(domain, (this.topCounts.domain.get(domain) || 0) + 1);
+    this.topCounts.ip.set(ip, (this.topCounts.ip.get(ip) || 0) + 1);
+    this.addBucket('hourly', 3600000, STATS_HOURLY_RETENTION * 3600000);
+    this.addBucket('minute', 60000, 60000);
+
+    // 记录策略规则命中统计
+    for (const ruleId of policyRules || []) {
+      this.add(['stats', 'policyRule', ruleId, 'requests'], 1);
+      if (!success) this.add(['stats', 'policyRule', ruleId, 'failed'], 1);
+    }
+
+    // 记录客户端密钥用量
+    if (clientKeyId) {
+      this.add(['stats', 'clientKey', clientKeyId, 'requests'], 1);
+      if (!success) this.add(['stats', 'clientKey', clientKeyId, 'failed'], 1);
+    }
+  }
+
+  // 记录被安全策略拦截的请求
+  recordBlocked(reason: string): void {
+    this.add(['stats', 'blockedRequests'], 1);
+    this.add(['stats', 'blockReason', reason], 1);
+  }
+
+  // 记录因密钥额度或访问范围被拒绝的请求
+  recordClientKeyRejected(clientKeyId: string): void {
+    this.add(['stats', 'clientKey', clientKeyId, 'rejected'], 1);
+  }
+
+  /**
+   * 把本实例累计的增量写入共享存储
+   */
+  private async flush(): Promise<void> {
+    const counters = Array.from(this.counters.values());
+    const topCounts = this.topCounts;
+    const buckets = Array.from(this.buckets.values());
+    this.counters = new Map();
+    this.topCounts = { domain: new Map(), ip: new Map() };
+    this.buckets = new Map();
+
+    const writes: Promise<unknown>[] = [];
+    // 单个原子操作的变更数量有限，分批提交
+    for (let index = 0; index < counters.length; index += 500) {
+      writes.push(this.store.increment(counters.slice(index, index + 500).map(({ key, delta }) => [key, delta])));
+    }
+    for (const kind of ['domain', 'ip'] as StatsTopKind[]) {
+      if (topCounts[kind].size === 0) continue;
+      writes.push(this.store.update<[string, number][]>(['stats', 'top', kind], current => ({
+        value: mergeTopCounts(current || [], topCounts[kind], STATS_TOP_CAPACITY)
+      })));
+    }
+    for (const { key, delta, expiresAt } of buckets) {
+      writes.push(this.store.update<number>(key, current => ({
+        value: (current || 0) + delta,
+        ttlMs: Math.max(1, expiresAt - Date.now())
+      })));
+    }
+    await Promise.all(writes);
+  }
+
+  // 从存储中的计数器汇总统计数据
+  private async collect(): Promise<RequestStats> {
+    await this.flush();
+
+    const stats: RequestStats = {
+      totalRequests: 0,
+      successfulRequests: 0,
+      failedRequests: 0,
+      topDomains: new Map(),
+      topIPs: new Map(),
+      statusCodes: new Map(),
+      blockedRequests: 0,
+      blockReasons: new Map(),
+      policyRules: new Map(),
+      clientKeys: new Map(),
+      averageResponseTime: 0,
+      startTime: Date.now()
+    };
+
+    const [
+      totalRequests, successfulRequests, failedRequests, blockedRequests, totalResponseTime, startTime,
+      topDomains, topIPs, statusCodes, blockReasons, policyRules, clientKeys
+    ] = await Promise.all([
+      this.store.get<number>(['stats', 'totalRequests']),
+      this.store.get<number>(['stats', 'successfulRequests']),
+      this.store.get<number>(['stats', 'failedRequests']),
+      this.store.get<number>(['stats', 'blockedRequests']),
+      this.store.get<number>(['stats', 'responseTime']),
+      this.store.get<number>(['stats', 'startTime']),
+      this.store.get<[string, number][]>(['stats', 'top', 'domain']),
+      this.store.get<[string, number][]>(['stats', 'top', 'ip']),
+      this.store.list<number>(['stats', 'status']),
+      this.store.list<number>(['stats', 'blockReason']),
+      this.store.list<number>(['stats', 'policyRule']),
+      this.store.list<number>(['stats', 'clientKey'])
+    ]);
+
+    stats.totalRequests = totalRequests || 0;
+    stats.successfulRequests = successfulRequests || 0;
+    stats.failedRequests = failedRequests || 0;
+    stats.blockedRequests = blockedRequests || 0;
+    stats.startTime = startTime ?? stats.startTime;
+    stats.topDomains = new Map(topDomains || []);
+    stats.topIPs = new Map(topIPs || []);
+    for (const [key, value] of statusCodes) stats.statusCodes.set(Number(key[2]), value);
+    for (const [key, value] of blockReasons) stats.blockReasons.set(String(key[2]), value);
+    for (const [key, value] of policyRules) {
+      const ruleStats = stats.policyRules.get(String(key[2])) || { requests: 0, failed: 0 };
+      ruleStats[key[3] as 'requests' | 'failed'] = value;
+      stats.policyRules.set(String(key[2]), ruleStats);
+    }
+    for (const [key, value] of clientKeys) {
+      const keyStats = stats.clientKeys.get(String(key[2])) || { requests: 0, failed: 0, rejected: 0 };
+      keyStats[key[3] as 'requests' | 'failed' | 'rejected'] = value;
+      stats.clientKeys.set(String(key[2]), keyStats);
+    }
+
+    stats.averageResponseTime = stats.totalRequests > 0 ? (totalResponseTime || 0) / stats.totalRequests : 0;
+    return stats;
+  }
+
+  // 最近24小时每小时的请求数（所有实例合计），按时间排序
+  private async getHourlyStats(): Promise<{ timestamp: number; requests: number }[]> {
+    const buckets = await this.store.list<number>(['stats', 'hourly']);
+    return buckets
+      .map(([key, requests]) => ({ timestamp: Number(key[2]), requests }))
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .slice(-STATS_HOURLY_RETENTION);
+  }
+
+  async getStats(): Promise<RequestStats & { hourlyStats?: { timestamp: number; requests: number }[] }> {
+    const stats = await this.collect();
+    const result = {
+      ...stats,
+      topDomains: new Map(Array.from(stats.topDomains.entries())
+        .sort((a, b) => b[1] - a[1]).slice(0, 10)),
+      topIPs: new Map(Array.from(stats.topIPs.entries())
+        .sort((a, b) => b[1] - a[1]).slice(0, 10)),
+      hourlyStats: await this.getHourlyStats()
+    };
+    return result;
+  }
+
+  // 添加性能分析数据
+  async getPerformanceData(): Promise<{
+    requestsPerMinute: number;
+    averageResponseTime: number;
+    errorRate: number;
+    topEndpoints: [string, number][];
+  }> {
+    const stats = await this.collect();
+
+    // 上一个完整分钟的请求数
+    const lastMinute = (Math.floor(Date.now() / 60000) - 1) * 60000;
+    const requestsLastMinute = (await this.store.get<number>(['stats', 'minute', lastMinute])) || 0;
+    
+    // 计算错误率
+    const errorRate = stats.totalRequests > 0 
+      ? stats.failedRequests / stats.totalRequests 
+      : 0;
+    
+    // 获取最常访问的目标域名
+    const topEndpoints = Array.from(stats.topDomains.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 5);
+    
+    return {
+      requestsPerMinute: requestsLastMinute,
+      averageResponseTime: stats.averageResponseTime,
+      errorRate: errorRate,
+      topEndpoints: topEndpoints
+    };
+  }
+
+  async reset(): Promise<void> {
+    this.counters.clear();
+    this.topCounts = { domain: new Map(), ip: new Map() };
+    // 保留每小时和每分钟的请求数
+    await Promise.all([
+      ...['totalRequests', 'successfulRequests', 'failedRequests', 'blockedRequests', 'responseTime']
+        .map(name => this.store.delete(['stats', name])),
+      ...['top', 'status', 'blockReason', 'policyRule', 'clientKey'].map(name => this.store.deletePrefix(['stats', name]))
+    ]);
+    await this.store.set(['stats', 'startTime'], Date.now());
+  }
+
+  // 清理资源，写入尚未提交的增量
+  async destroy(): Promise<void> {
+    this.isDestroyed = true;
+    if (this.flushTimer !== null) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    await this.flush().catch(error => this.handleWriteError(error));
+  }
+}
+
+/**
+ * 把本实例的计数合并到已有的热门列表，按计数从高到低保留前capacity个
+ * 被淘汰的条目之后再出现时从本次的计数重新开始，因此列表中的计数是近似值（偏低）
+ */
+function mergeTopCounts(current: [string, number][], counts: Map<string, number>, capacity: number): [string, number][] {
+  const merged = new Map(current);
+  for (const [name, count] of counts) {
+    merged.set(name, (merged.get(name) || 0) + count);
+  }
+  return Array.from(merged.entries()).sort((a, b) => b[1] - a[1]).slice(0, capacity);
+}
+
+type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LOG_LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+/**
+ * 一条结构化日志，type为access的是访问日志，字段见 AccessLogEntry
+ */
+interface LogRecord {
+  timestamp: string;
+  level: LogLevel;
+  type: 'access' | 'app';
+  message: string;
+  [field: string]: unknown;
+}
+
+/**
+ * 访问日志字段，字段名和含义保持稳定以便日志系统解析
+ */
+interface AccessLogEntry {
+  requestId: string;
+  traceId: string;
+  method: string;
+  path: string;
+  // 代理的目标URL，未到达代理阶段（管理API、被拒绝的请求）时为null
+  target: string | null;
+  status: number;
+  durationMs: number;
+  bytesIn: number;
+  bytesOut: number;
+  // 缓存结果：HIT/MISS/REVALIDATED，不可缓存时为null
+  cache: CacheOutcome | null;
+  retries: number;
+  policyRules: string[];
+  clientKey: string | null;
+  // 出口代理（规则ID:代理地址），直接连接时为null
+  egress: string | null;
+  ip: string;
+  userAgent: string | null;
+  referer: string | null;
+}
+
+/**
+ * 日志输出目标，每个目标有独立的最低级别
+ */
+interface LogSink {
+  readonly level: LogLevel;
+  write(record: LogRecord): void;
+  // 写出剩余的日志，超过deadlineMs不再等待
+  close(deadlineMs: number): Promise<void>;
+}
+
+/**
+ * 标准输出，text格式便于阅读，json格式每行一条记录
+ */
+class ConsoleSink implements LogSink {
+  readonly level: LogLevel;
+  private format: 'text' | 'json';
+
+  constructor(level: LogLevel, format: 'text' | 'json') {
+    this.level = level;
+    this.format = format;
+  }
+
+  write(record: LogRecord): void {
+    const output = record.level === 'error' ? console.error : record.level === 'warn' ? console.warn : console.log;
+    if (this.format === 'json') {
+      output(JSON.stringify(record));
+      return;
+    }
+
+    const { timestamp, level, type, message, ...fields } = record;
+    if (type === 'access') {
+      const entry = fields as unknown as AccessLogEntry;
+      const extras = [
+        entry.cache ? `cache=${entry.cache}` : '',
+        entry.retries > 0 ? `retries=${entry.retries}` : '',
+        entry.policyRules.length > 0 ? `rules=${entry.policyRules.join(',')}` : '',
+        entry.egress ? `egress=${entry.egress}` : ''
+      ].filter(Boolean).join(' ');
+      output(`[${timestamp}] [${entry.requestId}] ${entry.method} ${entry.path} -> ${entry.target ?? '-'} (${entry.status}) ` +
+        `${entry.durationMs}ms ${entry.bytesOut}B${extras ? ` ${extras}` : ''}`);
+      return;
+    }
+
+    const id = typeof fields.requestId === 'string' ? ` [${fields.requestId}]` : '';
+    const rest = Object.keys(fields).length > 0 ? ` ${JSON.stringify(fields)}` : '';
+    output(`[${timestamp}] ${level.toUpperCase()}${id} ${message}${rest}`);
+  }
+
+  close(): Promise<void> {
+    return Promise.resolve();
+  }
+}
+
+/**
+ * 本地文件（每行一条JSON），按大小和时间轮转，只保留最近的若干个轮转文件
+ */
+class FileSink implements LogSink {
+  readonly level: LogLevel;
+  private path: string;
+  private maxSize: number;
+  private rotate: 'daily' | 'hourly' | 'none';
+  private retention: number;
+  private buffer: string[] = [];
+  private size = 0;
+  // 当前文件所属的时间段，时间段变化时轮转
+  private period: string;
+  private writing: Promise<void> = Promise.resolve();
+  private flushTimer: number | null = null;
+  private isDestroyed: boolean = false;
+
+  constructor(path: string, level: LogLevel, maxSize: number, rotate: 'daily' | 'hourly' | 'none', retention: number) {
+    this.path = path;
+    this.level = level;
+    this.maxSize = maxSize;
+    this.rotate = rotate;
+    this.retention = retention;
+
+    try {
+      const directory = path.substring(0, path.lastIndexOf('/'));
+      if (directory) Deno.mkdirSync(directory, { recursive: true });
+      const info = Deno.statSync(path);
+      this.size = info.size;
+      this.period = this.periodOf(info.mtime || new Date());
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) {
+        throw new ConfigError([`${path}: ${error instanceof Error ? error.message : error}`]);
+      }
+      this.period = this.periodOf(new Date());
+    }
+
+    // 定期写入缓冲的日志
+    this.flushTimer = setInterval(() => {
+      if (!this.isDestroyed) {
+        this.flush();
+      }
+    }, 1000) as unknown as number;
+  }
+
+  private periodOf(date: Date): string {
+    const iso = date.toISOString();
+    return this.rotate === 'daily' ? iso.substring(0, 10) : this.rotate === 'hourly' ? iso.substring(0, 13) : '';
+  }
+
+  write(record: LogRecord): void {
+    this.buffer.push(JSON.stringify(record) + '\n');
+    if (this.buffer.length >= 100) {
+      this.flush();
+    }
+  }
+
+  // 按顺序写入，上一批写完后再写下一批
+  private flush(): void {
+    if (this.buffer.length === 0) return;
+    const data = new TextEncoder().encode(this.buffer.join(''));
+    this.buffer = [];
+
+    this.writing = this.writing.then(async () => {
+      if (this.size > 0 && (this.period !== this.periodOf(new Date()) || (this.maxSize > 0 && this.size + data.byteLength > this.maxSize))) {
+        await this.rotateFile();
+      }
+      await Deno.writeFile(this.path, data, { append: true, create: true });
+      this.size += data.byteLength;
+    }).catch(error => {
+      console.error(`❌ Failed to write log file ${this.path}:`, error instanceof Error ? error.message : error);
+    });
+  }
+
+  // 当前文件重命名为 <path>.<时间戳>，并删除超出保留数量的旧文件
+  private async rotateFile(): Promise<void> {
+    await Deno.rename(this.path, `${this.path}.${new Date().toISOString().replace(/[:.]/g, '-')}`);
+    this.size = 0;
+    this.period = this.periodOf(new Date());
+
+    const slash = this.path.lastIndexOf('/');
+    const directory = slash === -1 ? '.' : this.path.substring(0, slash) || '/';
+    const prefix = `${this.path.substring(slash + 1)}.`;
+    const rotated: string[] = [];
+    for await (const entry of Deno.readDir(directory)) {
+      if (entry.isFile && entry.name.startsWith(prefix)) rotated.push(entry.name);
+    }
+    for (const name of rotated.sort().reverse().slice(this.retention)) {
+      await Deno.remove(`${directory}/${name}`);
+    }
+  }
+
+  async close(): Promise<void> {
+    this.isDestroyed = true;
+    if (this.flushTimer !== null) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.flush();
+    await this.writing;
+  }
+}
+
+/**
+ * Webhook投递统计，记录数按日志条数计算
+ */
+interface WebhookDeliveryStats {
+  // 等待发送的日志条数
+  queued: number;
+  sent: number;
+  // 重试耗尽或被拒绝后写入死信文件的条数
+  failed: number;
+  // 队列已满时丢弃的条数
+  dropped: number;
+  // 批次的重试次数
+  retries: number;
+}
+
+// 接收方明确拒绝（4xx，408和429除外）时不再重试
+class WebhookRejectedError extends Error {
+  constructor(status: number) {
+    super(`Webhook rejected logs with HTTP ${status}`);
+    this.name = 'WebhookRejectedError';
+  }
+}
+
+/**
+ * Webhook，批量发送 { logs: LogRecord[] }
+ * 日志先进入有界队列，同一时间只发送一批；失败时按指数退避重试，重试耗尽后写入本地死信文件。
+ * 配置了密钥时，每次请求带 X-Ciao-Timestamp 和 X-Ciao-Signature: sha256=HMAC(密钥, "<时间戳>.<请求体>")
+ */
+class WebhookSink implements LogSink {
+  readonly level: LogLevel;
+  private url: string;
+  private secret?: string;
+  private deadLetterFile?: string;
+  private maxQueueSize: number;
+  private maxRetries: number;
+  private queue: LogRecord[] = [];
+  private batchSize = 50;
+  // 正在发送的批次，发送完成后才开始下一批以保持顺序
+  private sending: Promise<void> | null = null;
+  private controller: AbortController | null = null;
+  // 提前结束退避等待（关闭时使用）
+  private wakeUp: (() => void) | null = null;
+  private stats = { sent: 0, failed: 0, dropped: 0, retries: 0 };
+  private flushTimer: number | null = null;
+  private isDestroyed: boolean = false;
+  // 关闭期限已到，不再发送新的批次
+  private isAbandoned: boolean = false;
+
+  constructor(url: string, level: LogLevel, options: {
+    secret?: string;
+    queueSize: number;
+    maxRetries: number;
+    deadLetterFile?: string;
+    // 配置重载时沿用之前的统计
+    stats?: WebhookDeliveryStats | null;
+  }) {
+    this.url = url;
+    this.level = level;
+    this.maxQueueSize = options.queueSize;
+    this.maxRetries = options.maxRetries;
+    this.deadLetterFile = options.deadLetterFile;
+    this.secret = options.secret;
+    if (options.stats) {
+      const { sent, failed, dropped, retries } = options.stats;
+      this.stats = { sent, failed, dropped, retries };
+    }
+
+    // 定期发送未满一批的日志
+    this.flushTimer = setInterval(() => {
+      if (!this.isDestroyed) {
+        this.flush();
+      }
+    }, 5000) as unknown as number;
+  }
+
+  write(record: LogRecord): void {
+    // 队列已满时丢弃最旧的日志
+    if (this.queue.length >= this.maxQueueSize) {
+      this.queue.shift();
+      this.stats.dropped++;
+    }
+    this.queue.push(record);
+    if (this.queue.length >= this.batchSize) {
+      this.flush();
+    }
+  }
+
+  getStats(): WebhookDeliveryStats {
+    return { queued: this.queue.length, ...this.stats };
+  }
+
+  private flush(): void {
+    if (this.sending || this.isAbandoned || this.queue.length === 0) return;
+    const logs = this.queue.splice(0, this.batchSize);
+
+    this.sending = this.deliver(logs).finally(() => {
+      this.sending = null;
+      // 积压超过一批或正在关闭时继续发送
+      if (this.queue.length >= this.batchSize || this.isDestroyed) {
+        this.flush();
+      }
+    });
+  }
+
+  // 发送一批日志，失败时按指数退避重试（1秒起，上限60秒，带随机抖动）
+  private async deliver(logs: LogRecord[]): Promise<void> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await this.send(logs);
+        this.stats.sent += logs.length;
+        return;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (error instanceof WebhookRejectedError || attempt >= this.maxRetries || this.isDestroyed) {
+          this.stats.failed += logs.length;
+          await this.writeDeadLetter(logs, message, attempt + 1);
+          return;
+        }
+        this.stats.retries++;
+        await this.backoff(Math.min(1000 * 2 ** attempt, 60000) * (0.5 + Math.random() / 2));
+      }
+    }
+  }
+
+  private async send(logs: LogRecord[]): Promise<void> {
+    const body = JSON.stringify({ logs });
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.secret) {
+      // 每次尝试重新签名，时间戳反映实际发送时间
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      headers['X-Ciao-Timestamp'] = timestamp;
+      headers['X-Ciao-Signature'] = `sha256=${await hmacSha256Hex(this.secret, `${timestamp}.${body}`)}`;
+    }
+
+    this.controller = new AbortController();
+    const timeoutId = setTimeout(() => this.controller?.abort(), 10000);
+    try {
+      const response = await fetch(this.url, { method: 'POST', headers, body, signal: this.controller.signal });
+      await response.body?.cancel();
+      if (response.status >= 400 && response.status < 500 && response.status !== 408 && response.status !== 429) {
+        throw new WebhookRejectedError(response.status);
+      }
+      if (!response.ok) {
+        throw new Error(`Webhook responded with HTTP ${response.status}`);
+      }
+    } finally {
+      clearTimeout(timeoutId);
+      this.controller = null;
+    }
+  }
+
+  private backoff(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      const timeoutId = setTimeout(() => {
+        this.wakeUp = null;
+        resolve();
+      }, ms);
+      this.wakeUp = () => {
+        clearTimeout(timeoutId);
+        this.wakeUp = null;
+        resolve();
+      };
+    });
+  }
+
+  // 无法投递的批次追加到死信文件（每行一个批次），未配置文件时只输出错误
+  private async writeDeadLetter(logs: LogRecord[], error: string, attempts: number): Promise<void> {
+    if (!this.deadLetterFile) {
+      console.error(`❌ Failed to deliver ${logs.length} log records to webhook: ${error}`);
+      return;
+    }
+    const line = JSON.stringify({ failedAt: new Date().toISOString(), error, attempts, logs }) + '\n';
+    try {
+      await Deno.writeTextFile(this.deadLetterFile, line, { append: true, create: true });
+    } catch (writeError) {
+      console.error(`❌ Failed to write dead letter file ${this.deadLetterFile}:`,
+        writeError instanceof Error ? writeError.message : writeError);
+    }
+  }
+
+  async close(deadlineMs: number): Promise<void> {
+    this.isDestroyed = true;
+    if (this.flushTimer !== null) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    // 跳过退避等待，失败的批次直接写入死信文件
+    this.wakeUp?.();
+    this.flush();
+
+    let deadlineTimer: number | undefined;
+    const deadline = new Promise<void>(resolve => {
+      deadlineTimer = setTimeout(resolve, deadlineMs) as unknown as number;
+    });
+    const drained = (async () => {
+      while (this.sending) await this.sending;
+    })();
+    await Promise.race([drained, deadline]);
+    clearTimeout(deadlineTimer);
+
+    // 期限已到：中止正在发送的请求，剩余日志写入死信文件
+    this.isAbandoned = true;
+    this.controller?.abort();
+    await this.sending;
+    if (this.queue.length > 0) {
+      const logs = this.queue.splice(0);
+      this.stats.failed += logs.length;
+      await this.writeDeadLetter(logs, 'Shutdown deadline exceeded', 0);
+    }
+  }
+}
+
+/**
+ * 结构化日志：按级别分发到标准输出、文件和Webhook
+ */
+class Logger {
+  private sinks: LogSink[] = [];
+  private webhookSink: WebhookSink | null = null;
+  // 所有输出目标中最低的级别，低于它的日志直接丢弃
+  private minLevel = Infinity;
+
+  // previous: 配置重载前的日志器，用于沿用Webhook投递统计
+  constructor(config: Config, previous?: Logger) {
+    if (config.enableLogging) this.sinks.push(new ConsoleSink(config.logLevel, config.logFormat));
+    if (config.logFile) {
+      this.sinks.push(new FileSink(config.logFile, config.logFileLevel, config.logFileMaxSize, config.logFileRotate,
+        config.logFileRetention));
+    }
+    if (config.logWebhook) {
+      this.webhookSink = new WebhookSink(config.logWebhook, config.logWebhookLevel, {
+        secret: config.logWebhookSecret,
+        queueSize: config.logWebhookQueueSize,
+        maxRetries: config.logWebhookMaxRetries,
+        deadLetterFile: config.logWebhookDeadLetterFile,
+        stats: previous?.getDeliveryStats()
+      });
+      this.sinks.push(this.webhookSink);
+    }
+    this.minLevel = Math.min(...this.sinks.map(sink => LOG_LEVELS[sink.level]));
+  }
+
+  private emit(level: LogLevel, type: 'access' | 'app', message: string, fields?: Record<string, unknown>): void {
+    if (LOG_LEVELS[level] < this.minLevel) return;
+
+    const record: LogRecord = { timestamp: new Date().toISOString(), level, type, message, ...fields };
+    for (const sink of this.sinks) {
+      if (LOG_LEVELS[level] >= LOG_LEVELS[sink.level]) sink.write(record);
+    }
+  }
+
+  debug(message: string, fields?: Record<string, unknown>): void {
+    this.emit('debug', 'app', message, fields);
+  }
+
+  info(message: string, fields?: Record<string, unknown>): void {
+    this.emit('info', 'app', message, fields);
+  }
+
+  warn(message: string, fields?: Record<string, unknown>): void {
+    this.emit('warn', 'app', message, fields);
+  }
+
+  error(message: string, fields?: Record<string, unknown>): void {
+    this.emit('error', 'app', message, fields);
+  }
+
+  /**
+   * 记录访问日志，路径、目标URL和User-Agent中的敏感信息会被过滤
+   */
+  logRequest(entry: AccessLogEntry): void {
+    this.emit('info', 'access', 'request completed', {
+      ...entry,
+      path: this.sanitizeUrl(entry.path),
+      target: entry.target ? this.sanitizeUrl(entry.target) : null,
+      userAgent: this.sanitizeUserAgent(entry.userAgent)
+    });
+  }
+
+  logError(error: Error, context?: Record<string, unknown>): void {
+    this.emit('error', 'app', error.message, { ...context, stack: error.stack });
+  }
+
+  // Webhook投递统计，未配置Webhook时为null
+  getDeliveryStats(): WebhookDeliveryStats | null {
+    return this.webhookSink?.getStats() ?? null;
+  }
+
+  // 清理资源，等待缓冲的日志写出（最多deadlineMs）
+  async cleanup(deadlineMs: number = 5000): Promise<void> {
+    const sinks = this.sinks;
+    this.sinks = [];
+    await Promise.all(sinks.map(sink => sink.close(deadlineMs)));
+  }
+
+  // 清理URL中的敏感信息
+  private sanitizeUrl(url: string): string {
+    const absolute = /^(https?|wss?):\/\//.test(url);
+    try {
+      const urlObj = new URL(absolute ? url : `http://example.com${url}`);
+      // 移除查询参数中的敏感信息
+      const sensitiveParams = ['key', 'token', 'password', 'secret', 'auth', 'api_key'];
+      sensitiveParams.forEach(param => {
+        if (urlObj.searchParams.has(param)) {
+          urlObj.searchParams.set(param, '***');
+        }
+      });
+      return absolute ? urlObj.toString() : urlObj.pathname + urlObj.search;
+    } catch {
+      return url;
+    }
+  }
+
+  // 清理User-Agent中的敏感信息
+  private sanitizeUserAgent(userAgent: string | null): string | null {
+    if (!userAgent) return null;
+    // 移除可能的敏感信息，保留基本的浏览器信息
+    return userAgent.replace(/\b[\w-]{32,}\b/g, '***'); // 移除长的token-like字符串
+  }
+}
+
+// ==================== 监控指标模块 ====================
+// 耗时直方图的桶上限（秒）
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+// 方法标签只使用标准方法，其他值归入OTHER，避免任意方法名产生新的时间序列
+const METRIC_METHODS = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'];
+
+type MetricLabels = Record<string, string>;
+
+interface MetricDefinition {
+  type: 'counter' | 'gauge' | 'histogram';
+  help: string;
+}
+
+// 进程内累计的指标，抓取时才计算的指标（缓存、并发、内存）不在这里定义
+const METRIC_DEFINITIONS: Record<string, MetricDefinition> = {
+  ciao_cors_requests_total: { type: 'counter', help: 'Requests handled, by method and response status class.' },
+  ciao_cors_request_duration_seconds: { type: 'histogram', help: 'Total time to produce the response headers.' },
+  ciao_cors_upstream_requests_total: { type: 'counter', help: 'Upstream fetches, by target domain and status class.' },
+  ciao_cors_upstream_duration_seconds: { type: 'histogram', help: 'Time until upstream response headers, by target domain.' },
+  ciao_cors_upstream_retries_total: { type: 'counter', help: 'Upstream retry attempts, by reason.' },
+  ciao_cors_upstream_timeouts_total: { type: 'counter', help: 'Upstream timeouts, by phase (connect, ttfb, idle, total).' },
+  ciao_cors_circuit_rejected_total: { type: 'counter', help: 'Requests failed fast because the upstream circuit was open.' },
+  ciao_cors_rate_limited_total: { type: 'counter', help: 'Requests rejected by rate limiting, by scope.' },
+  ciao_cors_concurrency_rejected_total: { type: 'counter', help: 'Requests rejected by concurrency limits, by scope.' },
+  ciao_cors_blocked_total: { type: 'counter', help: 'Requests blocked by security policy.' }
+};
+
+interface MetricSeries {
+  labels: MetricLabels;
+  value: number;
+  // 直方图各桶的计数（不累计），最后一项为超出最大桶上限的观测
+  buckets?: number[];
+}
+
+/**
+ * 抓取时的一组指标样本
+ */
+interface MetricSnapshot {
+  name: string;
+  type: 'counter' | 'gauge';
+  help: string;
+  samples: [MetricLabels, number][];
+}
+
+function formatMetricLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels)
+    .map(([name, value]) => `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function statusClass(status: number): string {
+  return `${Math.floor(status / 100)}xx`;
+}
+
+/**
+ * Prometheus指标收集，按实例统计，由 /metrics 以文本格式输出
+ * 目标域名标签的取值数量有上限，超出后的新域名记为 other
+ */
+class MetricsCollector {
+  private series: Map<string, Map<string, MetricSeries>> = new Map();
+  private domains: Set<string> = new Set();
+  private maxDomains: number;
+
+  constructor(maxDomains: number) {
+    this.maxDomains = maxDomains;
+  }
+
+  setMaxDomains(maxDomains: number): void {
+    this.maxDomains = maxDomains;
+  }
+
+  // 目标域名标签（已记录的域名继续使用，新域名在达到上限后归入other）
+  private domainLabel(hostname: string): string {
+    if (this.domains.has(hostname)) return hostname;
+    if (this.domains.size >= this.maxDomains) return 'other';
+    this.domains.add(hostname);
+    return hostname;
+  }
+
+  private getSeries(name: string, labels: MetricLabels): MetricSeries {
+    let family = this.series.get(name);
+    if (!family) {
+      family = new Map();
+      this.series.set(name, family);
+    }
+    const id = formatMetricLabels(labels);
+    let series = family.get(id);
+    if (!series) {
+      series = { labels, value: 0 };
+      if (METRIC_DEFINITIONS[name].type === 'histogram') series.buckets = new Array(LATENCY_BUCKETS.length + 1).fill(0);
+      family.set(id, series);
+    }
+    return series;
+  }
+
+  private inc(name: string, labels: MetricLabels = {}, value = 1): void {
+    this.getSeries(name, labels).value += value;
+  }
+
+  private observe(name: string, labels: MetricLabels, seconds: number): void {
+    const series = this.getSeries(name, labels);
+    series.value += seconds;
+    const bucket = LATENCY_BUCKETS.findIndex(bound => seconds <= bound);
+    series.buckets![bucket === -1 ? LATENCY_BUCKETS.length : bucket]++;
+  }
+
+  recordRequest(method: string, status: number, seconds: number): void {
+    const methodLabel = METRIC_METHODS.includes(method) ? method : 'OTHER';
+    this.inc('ciao_cors_requests_total', { method: methodLabel, status_class: statusClass(status) });
+    this.observe('ciao_cors_request_duration_seconds', {}, seconds);
+  }
+
+  // status为null表示上游请求失败（连接错误、超时等）
+  recordUpstream(hostname: string, status: number | null, seconds: number): void {
+    const domain = this.domainLabel(hostname);
+    this.inc('ciao_cors_upstream_requests_total', { domain, status_class: status === null ? 'error' : statusClass(status) });
+    if (status !== null) this.observe('ciao_cors_upstream_duration_seconds', { domain }, seconds);
+  }
+
+  recordRetry(reason: string): void {
+    this.inc('ciao_cors_upstream_retries_total', { reason });
+  }
+
+  recordUpstreamTimeout(phase: UpstreamTimeoutPhase): void {
+    this.inc('ciao_cors_upstream_timeouts_total', { phase });
+  }
+
+  recordCircuitRejected(): void {
+    this.inc('ciao_cors_circuit_rejected_total');
+  }
+
+  recordRateLimited(scope: 'ip' | 'policy' | 'client_key'): void {
+    this.inc('ciao_cors_rate_limited_total', { scope });
+  }
+
+  recordConcurrencyRejected(scope: 'ip' | 'client_key' | 'websocket'): void {
+    this.inc('ciao_cors_concurrency_rejected_total', { scope });
+  }
+
+  recordBlocked(): void {
+    this.inc('ciao_cors_blocked_total');
+  }
+
+  /**
+   * 输出Prometheus文本格式（0.0.4），snapshots为抓取时计算的附加指标
+   */
+  render(snapshots: MetricSnapshot[]): string {
+    const lines: string[] = [];
+
+    for (const [name, definition] of Object.entries(METRIC_DEFINITIONS)) {
+      lines.push(`# HELP ${name} ${definition.help}`, `# TYPE ${name} ${definition.type}`);
+      const family = this.series.get(name);
+      if (!family) continue;
+
+      for (const [id, series] of family) {
+        if (definition.type !== 'histogram') {
+          lines.push(`${name}${id} ${series.value}`);
+          continue;
+        }
+
+        let cumulative = 0;
+        LATENCY_BUCKETS.forEach((bound, index) => {
+          cumulative += series.buckets![index];
+          lines.push(`${name}_bucket${formatMetricLabels({ ...series.labels, le: String(bound) })} ${cumulative}`);
+        });
+        cumulative += series.buckets![LATENCY_BUCKETS.length];
+        lines.push(`${name}_bucket${formatMetricLabels({ ...series.labels, le: '+Inf' })} ${cumulative}`);
+        lines.push(`${name}_sum${id} ${series.value}`);
+        lines.push(`${name}_count${id} ${cumulative}`);
+      }
+    }
+
+    for (const snapshot of snapshots) {
+      lines.push(`# HELP ${snapshot.name} ${snapshot.help}`, `# TYPE ${snapshot.name} ${snapshot.type}`);
+      for (const [labels, value] of snapshot.samples) {
+        lines.push(`${snapshot.name}${formatMetricLabels(labels)} ${value}`);
+      }
+    }
+
+    return lines.join('\n') + '\n';
+  }
+}
+
+// ==================== 链路追踪模块 ====================
+// W3C Trace Context：version-traceId-parentId-flags
+const TRACEPARENT_PATTERN = /^00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+// 接受调用方传入的X-Request-Id格式
+const REQUEST_ID_PATTERN = /^[\w.:@/+=-]{1,128}$/;
+
+// 单次导出的span数量上限，达到后立即导出
+const TRACE_BATCH_SIZE = 100;
+
+interface SpanContext {
+  traceId: string;
+  spanId: string;
+  sampled: boolean;
+}
+
+type SpanKind = 'internal' | 'server' | 'client';
+type SpanAttributes = Record<string, string | number | boolean>;
+
+// OTLP中的SpanKind枚举值
+const OTLP_SPAN_KINDS: Record<SpanKind, number> = { internal: 1, server: 2, client: 3 };
+
+function randomHex(bytes: number): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(bytes)), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * 解析traceparent头部，格式无效或ID全为0时返回null
+ */
+function parseTraceparent(value: string | null): SpanContext | null {
+  const match = value?.trim().toLowerCase().match(TRACEPARENT_PATTERN);
+  if (!match || /^0+$/.test(match[1]) || /^0+$/.test(match[2])) return null;
+  return { traceId: match[1], spanId: match[2], sampled: (parseInt(match[3], 16) & 1) === 1 };
+}
+
+function formatTraceparent(context: SpanContext): string {
+  return `00-${context.traceId}-${context.spanId}-${context.sampled ? '01' : '00'}`;
+}
+
+// 毫秒时间戳转为OTLP使用的纳秒字符串
+function toUnixNano(ms: number): string {
+  return (BigInt(Math.floor(ms)) * 1000000n + BigInt(Math.round((ms % 1) * 1e6))).toString();
+}
+
+function toOtlpAttributes(attributes: SpanAttributes): { key: string; value: Record<string, unknown> }[] {
+  return Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value: typeof value === 'boolean' ? { boolValue: value }
+      : typeof value === 'number' ? (Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value })
+      : { stringValue: value }
+  }));
+}
+
+class Span {
+  readonly context: SpanContext;
+  readonly name: string;
+  private tracer: Tracer;
+  private kind: SpanKind;
+  private parentSpanId?: string;
+  private attributes: SpanAttributes;
+  private startTime: number;
+  private endTime?: number;
+  private error?: string;
+
+  constructor(tracer: Tracer, name: string, kind: SpanKind, context: SpanContext, parentSpanId?: string, attributes: SpanAttributes = {}) {
+    this.tracer = tracer;
+    this.name = name;
+    this.kind = kind;
+    this.context = context;
+    this.parentSpanId = parentSpanId;
+    this.attributes = { ...attributes };
+    this.startTime = performance.timeOrigin + performance.now();
+  }
+
+  startChild(name: string, kind: SpanKind = 'internal', attributes?: SpanAttributes): Span {
+    return this.tracer.startSpan(name, this.context, kind, attributes);
+  }
+
+  setAttribute(key: string, value: string | number | boolean): this {
+    this.attributes[key] = value;
+    return this;
+  }
+
+  /**
+   * 结束span，error不为空时标记为错误状态；重复调用无效
+   */
+  end(error?: unknown): void {
+    if (this.endTime !== undefined) return;
+    this.endTime = performance.timeOrigin + performance.now();
+    if (error !== undefined) this.error = error instanceof Error ? error.message : String(error);
+    this.tracer.record(this);
+  }
+
+  toOtlp(): Record<string, unknown> {
+    return {
+      traceId: this.context.traceId,
+      spanId: this.context.spanId,
+      parentSpanId: this.parentSpanId,
+      name: this.name,
+      kind: OTLP_SPAN_KINDS[this.kind],
+      startTimeUnixNano: toUnixNano(this.startTime),
+      endTimeUnixNano: toUnixNano(this.endTime ?? this.startTime),
+      attributes: toOtlpAttributes(this.attributes),
+      status: this.error !== undefined ? { code: 2, message: this.error } : { code: 1 }
+    };
+  }
+}
+
+/**
+ * 链路追踪：生成W3C traceparent传给上游，配置了OTLP_ENDPOINT时通过OTLP/HTTP（JSON）批量导出span
+ */
+class Tracer {
+  private endpoint?: string;
+  private queue: Span[] = [];
+  private flushTimer: number | null = null;
+  private isDestroyed: boolean = false;
+
+  constructor(endpoint?: string) {
+    this.endpoint = endpoint;
+
+    // 定期导出未满一批的span
+    if (this.endpoint) {
+      this.flushTimer = setInterval(() => {
+        if (!this.isDestroyed) {
+          this.flush();
+        }
+      }, 5000) as unknown as number;
+    }
+  }
+
+  /**
+   * 开始一个span，parent为空时开始新的trace
+   */
+  startSpan(name: string, parent: SpanContext | null, kind: SpanKind = 'internal', attributes?: SpanAttributes): Span {
+    const context: SpanContext = {
+      traceId: parent?.traceId ?? randomHex(16),
+      spanId: randomHex(8),
+      sampled: parent?.sampled ?? true
+    };
+    return new Span(this, name, kind, context, parent?.spanId, attributes);
+  }
+
+  record(span: Span): void {
+    if (!this.endpoint || !span.context.sampled || this.isDestroyed) return;
+    this.queue.push(span);
+    if (this.queue.length >= TRACE_BATCH_SIZE) {
+      this.flush();
+    }
+  }
+
+  // 导出失败时丢弃这批span，不影响请求处理
+  private flush(): void {
+    if (!this.endpoint || this.queue.length === 0) return;
+    const spans = this.queue;
+    this.queue = [];
+
+    fetch(this.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        resourceSpans: [{
+          resource: { attributes: toOtlpAttributes({ 'service.name': 'ciao-cors', 'service.version': '1.3.0' }) },
+          scopeSpans: [{ scope: { name: 'ciao-cors' }, spans: spans.map(span => span.toOtlp()) }]
+        }]
+      })
+    }).then(response => response.body?.cancel()).catch(error => {
+      console.error('❌ Failed to export spans:', error instanceof Error ? error.message : error);
+    });
+  }
+
+  cleanup(): void {
+    this.flush();
+    this.isDestroyed = true;
+    if (this.flushTimer !== null) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+  }
+}
+
+/**
+ * 单个请求的追踪上下文，在请求处理、缓存和上游请求之间传递
+ */
+interface RequestContext {
+  requestId: string;
+  // 整个请求的服务端span
+  span: Span;
+  // 可信调用方传入的tracestate，原样传给上游
+  tracestate?: string;
+  // 请求来自管理端口（ADMIN_PORT）
+  admin: boolean;
+  // 客户端IP，见 getClientIP
+  clientIP: string;
+  // 以下字段在处理过程中填写，用于访问日志
+  target?: string;
+  cache?: CacheOutcome;
+  retries: number;
+  policyRules: string[];
+  clientKey?: string;
+  // 最后一次上游请求使用的出口代理
+  egress?: string;
+  // WebSocket连接结束时完成，访问日志在此时记录
+  webSocket?: Promise<{ bytesIn: number; bytesOut: number }>;
+}
+
+// ==================== 管理控制台模块 ====================
+// 会话Cookie名称，只在 /_api/ 路径下发送；会话只在管理端口（ADMIN_PORT）上有效
+const DASHBOARD_SESSION_COOKIE = 'ciao_session';
+
+// 控制台事件流的推送间隔（毫秒）
+const DASHBOARD_UPDATE_INTERVAL = 2000;
+
+/**
+ * 读取请求中的Cookie
+ */
+function getCookie(request: Request, name: string): string | null {
+  for (const part of (request.headers.get('cookie') || '').split(';')) {
+    const separator = part.indexOf('=');
+    if (separator !== -1 && part.substring(0, separator).trim() === name) {
+      return part.substring(separator + 1).trim();
+    }
+  }
+  return null;
+}
+
+/**
+ * 会话在共享存储中的键：HMAC(API密钥, 令牌)
+ * 存储中不保存令牌本身；更换API密钥后所有会话都找不到对应的键，立即失效
+ */
+async function getSessionKey(apiKey: string, token: string): Promise<StateKey> {
+  return ['dashboard', 'session', await hmacSha256Hex(apiKey, `session:${token}`)];
+}
+
+/**
+ * 创建控制台会话，返回随机令牌；会话保存在共享存储中，到期自动删除
+ */
+async function createDashboardSession(store: StateStore, apiKey: string, ttl: number): Promise<string> {
+  const token = randomHex(32);
+  await store.set(await getSessionKey(apiKey, token), { expiresAt: Date.now() + ttl }, ttl);
+  return token;
+}
+
+/**
+ * 验证会话令牌，令牌无效、已过期或已退出登录时返回false
+ */
+async function verifyDashboardSession(store: StateStore, apiKey: string, token: string): Promise<boolean> {
+  if (!/^[0-9a-f]{64}$/.test(token)) return false;
+  const session = await store.get<{ expiresAt: number }>(await getSessionKey(apiKey, token));
+  return !!session && session.expiresAt > Date.now();
+}
+
+/**
+ * 退出登录：删除服务端的会话，令牌随即失效
+ */
+async function revokeDashboardSession(store: StateStore, apiKey: string, token: string): Promise<void> {
+  if (!/^[0-9a-f]{64}$/.test(token)) return;
+  await store.delete(await getSessionKey(apiKey, token));
+}
+
+/**
+ * 控制台页面：所有样式和脚本内联，不加载外部资源
+ * 数据通过 dashboard/events 事件流推送，页面中的域名和IP一律以文本方式写入
+ */
+function renderDashboard(nonce: string): string {
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="referrer" content="no-referrer">
+<title>CIAO-CORS 控制台</title>
+<style nonce="${nonce}">
+  * { box-sizing: border-box; }
+  body { margin: 0; font: 14px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", "PingFang SC", "Microsoft YaHei", sans-serif; background: #f4f5f7; color: #1f2328; }
+  header { display: flex; align-items: center; gap: 12px; padding: 12px 24px; background: #1f2328; color: #fff; }
+  header h1 { margin: 0; font-size: 18px; }
+  header .meta { flex: 1; color: #9da7b3; font-size: 12px; }
+  main { padding: 20px 24px; max-width: 1280px; margin: 0 auto; }
+  button { padding: 6px 14px; border: 1px solid #d0d7de; border-radius: 6px; background: #fff; cursor: pointer; font: inherit; }
+  button:hover { background: #f3f4f6; }
+  button.danger { color: #cf222e; }
+  .grid { display: grid; grid-template-columns: repeat(auto-fill, minmax(180px, 1fr)); gap: 12px; margin-bottom: 16px; }
+  .panels { display: grid; grid-template-columns: repeat(auto-fill, minmax(380px, 1fr)); gap: 16px; margin-bottom: 16px; }
+  .card, .panel { background: #fff; border: 1px solid #d0d7de; border-radius: 8px; padding: 12px 16px; }
+  .card .label { color: #656d76; font-size: 12px; }
+  .card .value { font-size: 22px; font-weight: 600; }
+  .card .sub { color: #656d76; font-size: 12px; }
+  .panel h2 { margin: 0 0 8px; font-size: 14px; }
+  .actions { display: flex; gap: 8px; align-items: center; margin-bottom: 16px; }
+  .actions .message { color: #656d76; }
+  table { width: 100%; border-collapse: collapse; }
+  td { padding: 3px 0; border-bottom: 1px solid #eaeef2; word-break: break-all; }
+  td.num { text-align: right; white-space: nowrap; padding-left: 12px; font-variant-numeric: tabular-nums; }
+  .bar { height: 6px; background: #0969da; border-radius: 3px; min-width: 2px; }
+  .status-2 .bar { background: #1a7f37; } .status-3 .bar { background: #8250df; }
+  .status-4 .bar { background: #bf8700; } .status-5 .bar { background: #cf222e; }
+  .chart { display: flex; align-items: flex-end; gap: 2px; height: 120px; }
+  .chart div { flex: 1; background: #0969da; min-height: 1px; border-radius: 2px 2px 0 0; }
+  .empty { color: #8c959f; }
+  #login { max-width: 360px; margin: 80px auto; }
+  #login input { width: 100%; padding: 8px; margin: 8px 0; border: 1px solid #d0d7de; border-radius: 6px; font: inherit; }
+  #login .error { color: #cf222e; min-height: 1.5em; }
+  [hidden] { display: none !important; }
+</style>
+</head>
+<body>
+<header>
+  <h1>CIAO-CORS</h1>
+  <span class="meta" id="meta">连接中…</span>
+  <button id="logout">退出</button>
+</header>
+<form class="panel" id="login" hidden>
+  <h2>登录控制台</h2>
+  <input type="password" id="key" placeholder="API密钥" autocomplete="current-password" required>
+  <div class="error" id="login-error"></div>
+  <button type="submit">登录</button>
+</form>
+<main id="dashboard" hidden>
+  <div class="actions">
+    <button id="reset-stats" class="danger">重置统计</button>
+    <button id="clear-cache" class="danger">清空缓存</button>
+    <button id="reload-config">重载配置</button>
+    <span class="message" id="message"></span>
+  </div>
+  <div class="grid">
+    <div class="card"><div class="label">实时流量</div><div class="value" id="rate">-</div><div class="sub">请求/秒</div></div>
+    <div class="card"><div class="label">总请求</div><div class="value" id="total">-</div><div class="sub" id="total-sub"></div></div>
+    <div class="card"><div class="label">被拦截</div><div class="value" id="blocked">-</div></div>
+    <div class="card"><div class="label">平均响应时间</div><div class="value" id="latency">-</div></div>
+    <div class="card"><div class="label">并发请求</div><div class="value" id="inflight">-</div><div class="sub" id="inflight-sub"></div></div>
+    <div class="card"><div class="label">缓存</div><div class="value" id="cache">-</div><div class="sub" id="cache-sub"></div></div>
+  </div>
+  <div class="panels">
+    <div class="panel"><h2>实时流量（最近2分钟）</h2><div class="chart" id="traffic"></div></div>
+    <div class="panel"><h2>每小时请求</h2><div class="chart" id="hourly"></div></div>
+    <div class="panel"><h2>状态码分布</h2><table id="status-codes"></table></div>
+    <div class="panel"><h2>热门域名</h2><table id="top-domains"></table></div>
+    <div class="panel"><h2>热门IP</h2><table id="top-ips"></table></div>
+  </div>
+</main>
+<script nonce="${nonce}">
+(() => {
+  const $ = id => document.getElementById(id);
+  const traffic = [];
+  let previous = null;
+  // 当前事件流连接
+  let stream = null;
+  // 没有会话（代理端口）时API密钥只保存在内存中，刷新页面后需要重新登录
+  let apiKey = null;
+  const authHeaders = () => apiKey ? { Authorization: 'Bearer ' + apiKey } : {};
+
+  const number = value => Number(value || 0).toLocaleString();
+  const bytes = value => {
+    const units = ['B', 'KB', 'MB', 'GB'];
+    let size = value || 0, unit = 0;
+    while (size >= 1024 && unit < units.length - 1) { size /= 1024; unit++; }
+    return size.toFixed(unit === 0 ? 0 : 1) + ' ' + units[unit];
+  };
+  const duration = ms => {
+    const s = Math.floor(ms / 1000);
+    return Math.floor(s / 86400) + '天' + Math.floor(s % 86400 / 3600) + '小时' + Math.floor(s % 3600 / 60) + '分';
+  };
+
+  // 表格行：名称、数量、占比条
+  function renderTable(table, rows, className) {
+    table.replaceChildren();
+    if (rows.length === 0) {
+      const cell = table.insertRow().insertCell();
+      cell.className = 'empty';
+      cell.textContent = '暂无数据';
+      return;
+    }
+    const max = Math.max(...rows.map(row => row[1]));
+    for (const [name, count] of rows) {
+      const row = table.insertRow();
+      if (className) row.className = className(name);
+      const label = row.insertCell();
+      label.textContent = name;
+      const bar = document.createElement('div');
+      bar.className = 'bar';
+      bar.style.width = (count / max * 100) + '%';
+      label.appendChild(bar);
+      const value = row.insertCell();
+      value.className = 'num';
+      value.textContent = number(count);
+    }
+  }
+
+  function renderChart(chart, values, titles) {
+    chart.replaceChildren();
+    const max = Math.max(1, ...values);
+    values.forEach((value, index) => {
+      const column = document.createElement('div');
+      column.style.height = (value / max * 100) + '%';
+      column.title = titles[index];
+      chart.appendChild(column);
+    });
+  }
+
+  function render(data) {
+    const now = Date.now();
+    const stats = data.stats;
+    $('meta').textContent = 'v' + data.version + ' · ' + data.stateBackend +
+      (data.uptime != null ? ' · 运行 ' + duration(data.uptime) : '') + ' · 更新于 ' + new Date(now).toLocaleTimeString();
+
+    if (stats) {
+      // 实时流量按相邻两次推送的总请求数之差计算
+      if (previous && stats.totalRequests >= previous.total) {
+        traffic.push([now, (stats.totalRequests - previous.total) / ((now - previous.time) / 1000)]);
+        if (traffic.length > 60) traffic.shift();
+      }
+      previous = { total: stats.totalRequests, time: now };
+      $('rate').textContent = traffic.length > 0 ? traffic[traffic.length - 1][1].toFixed(1) : '-';
+      $('total').textContent = number(stats.totalRequests);
+      $('total-sub').textContent = '成功 ' + number(stats.successfulRequests) + ' · 失败 ' + number(stats.failedRequests);
+      $('blocked').textContent = number(stats.blockedRequests);
+      $('latency').textContent = Math.round(stats.averageResponseTime || 0) + ' ms';
+      renderChart($('traffic'), traffic.map(point => point[1]),
+        traffic.map(point => new Date(point[0]).toLocaleTimeString() + '  ' + point[1].toFixed(2) + ' req/s'));
+      renderChart($('hourly'), (stats.hourlyStats || []).map(point => point.requests),
+        (stats.hourlyStats || []).map(point => new Date(point.timestamp).toLocaleString() + '  ' + number(point.requests)));
+      renderTable($('status-codes'), Object.entries(stats.statusCodes).sort((a, b) => a[0] - b[0]),
+        code => 'status-' + String(code).charAt(0));
+      renderTable($('top-domains'), Object.entries(stats.topDomains));
+      renderTable($('top-ips'), Object.entries(stats.topIPs));
+    } else {
+      for (const id of ['rate', 'total', 'blocked', 'latency']) $(id).textContent = '-';
+      $('total-sub').textContent = '统计已禁用（ENABLE_STATS=false）';
+    }
+
+    $('inflight').textContent = number(data.concurrency.totalCount);
+    $('inflight-sub').textContent = data.concurrency.activeIPs + ' 个客户端IP';
+    const cache = data.cache;
+    $('cache').textContent = cache.memory ? bytes(cache.memory.bytes) : '已禁用';
+    $('cache-sub').textContent = (cache.memory ? number(cache.memory.entries) + ' 条' : '') +
+      (cache.disk ? ' · 磁盘 ' + bytes(cache.disk.bytes) : '') +
+      ' · 命中 ' + number(cache.hits) + ' / 未命中 ' + number(cache.misses);
+  }
+
+  function showLogin(error) {
+    if (stream) stream.abort();
+    stream = null;
+    $('dashboard').hidden = true;
+    $('logout').hidden = true;
+    $('login').hidden = false;
+    $('login-error').textContent = error || '';
+    $('meta').textContent = '';
+    $('key').focus();
+  }
+
+  // 事件流通过fetch读取（EventSource不能携带Authorization头）
+  async function connect() {
+    $('login').hidden = true;
+    $('logout').hidden = false;
+    if (stream) stream.abort();
+    const current = stream = new AbortController();
+    try {
+      const response = await fetch('dashboard/events', { headers: authHeaders(), signal: current.signal });
+      if (response.status === 401) return showLogin();
+      if (!response.ok) throw new Error('HTTP ' + response.status);
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+        let end;
+        while ((end = buffer.indexOf('\\n\\n')) !== -1) {
+          const event = buffer.substring(0, end);
+          buffer = buffer.substring(end + 2);
+          const type = (event.match(/^event: (.*)$/m) || [])[1];
+          if (type === 'unauthorized') return showLogin('会话已过期，请重新登录');
+          if (type === 'stats') {
+            $('dashboard').hidden = false;
+            render(JSON.parse((event.match(/^data: (.*)$/m) || [])[1]));
+          }
+        }
+      }
+    } catch {
+      if (current.signal.aborted) return;
+    }
+    // 网络错误或连接被关闭时稍后重连
+    if (stream !== current) return;
+    $('meta').textContent = '连接断开，正在重连…';
+    setTimeout(() => { if (stream === current) connect(); }, 3000);
+  }
+
+  $('login').addEventListener('submit', async event => {
+    event.preventDefault();
+    const key = $('key').value;
+    const response = await fetch('dashboard/login', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ key })
+    });
+    const result = await response.json().catch(() => ({}));
+    $('key').value = '';
+    if (response.ok) {
+      apiKey = result.session === false ? key : null;
+      connect();
+    } else {
+      showLogin(response.status === 401 ? 'API密钥错误' : '登录失败（HTTP ' + response.status + '）');
+    }
+  });
+
+  $('logout').addEventListener('click', async () => {
+    apiKey = null;
+    await fetch('dashboard/logout', { method: 'POST' });
+    showLogin();
+  });
+
+  const actions = {
+    'reset-stats': '确定要重置所有统计数据吗？',
+    'clear-cache': '确定要清空响应缓存吗？',
+    'reload-config': null
+  };
+  for (const [action, question] of Object.entries(actions)) {
+    $(action).addEventListener('click', async () => {
+      if (question && !confirm(question)) return;
+      const response = await fetch(action, { method: 'POST', headers: authHeaders() });
+      const result = await response.json().catch(() => ({}));
+      if (response.status === 401) return showLogin('会话已过期，请重新登录');
+      $('message').textContent = new Date().toLocaleTimeString() + ' ' +
+        (result.message || result.error || ('HTTP ' + response.status));
+      if (action === 'reset-stats') { previous = null; traffic.length = 0; }
+    });
+  }
+
+  connect();
+})();
+</script>
+</body>
+</html>`;
+}
+
+// ==================== 主服务模块 ====================
+class CiaoCorsServer {
+  private config: Config;
+  private clientKeys: ClientKeyStore;
+  // 运行时名单，合并在config的匹配器中
+  private rules: RuntimeRuleStore;
+  private rateLimiter: RateLimiter;
+  private policyRateLimiters: Map<string, RateLimiter>;
+  private concurrencyLimiter: ConcurrencyLimiter;
+  // 同时打开的WebSocket连接数，与普通请求的并发分开计算
+  private webSocketLimiter: ConcurrencyLimiter;
+  private webSockets: WebSocketRelay;
+  private abuseDetector: AbuseDetector;
+  private statsCollector: StatsCollector;
+  private metrics: MetricsCollector;
+  private tracer: Tracer;
+  private logger: Logger;
+  private dnsResolver: DnsResolver;
+  private pinnedClients: PinnedClientPool | null;
+  private egressRouter: EgressRouter | null;
+  private retryBudget: RetryBudget;
+  private circuitBreaker: CircuitBreaker;
+  // 限流、并发、统计和缓存共用的状态存储
+  private store: StateStore;
+  private responseCache: ResponseCache;
+  private configWatcher: Deno.FsWatcher | null = null;
+  private isDestroyed: boolean = false;
+
+  constructor(config: Config = loadConfig(), store: StateStore = new MemoryStateStore()) {
+    this.config = config;
+    this.store = store;
+    this.clientKeys = new ClientKeyStore(this.config.clientKeysFile, store, this.config.rateLimitWindow,
+      this.config.rateLimitAlgorithm);
+    this.rules = new RuntimeRuleStore(this.config.rulesFile, () => this.applyRuntimeRules());
+    this.config = this.rules.mergeInto(this.config);
+    this.rateLimiter = new RateLimiter(store, 'ip', this.config.rateLimitWindow, this.config.rateLimit,
+      this.config.rateLimitAlgorithm);
+    this.policyRateLimiters = this.createPolicyRateLimiters(this.config);
+    this.concurrencyLimiter = new ConcurrencyLimiter(store, 'ip', this.config.concurrentLimit, this.config.totalConcurrentLimit);
+    this.webSocketLimiter = new ConcurrencyLimiter(store, 'websocket', this.config.wsMaxConnectionsPerIP,
+      this.config.wsMaxConnections);
+    this.webSockets = new WebSocketRelay();
+    this.abuseDetector = new AbuseDetector(store, this.config.abuseScoreThreshold, this.config.abuseBanDurations);
+    this.statsCollector = new StatsCollector(store);
+    this.metrics = new MetricsCollector(this.config.metricsMaxDomains);
+    this.tracer = new Tracer(this.config.otlpEndpoint);
+    const diskCache = this.config.cacheDir
+      ? new DiskCache(this.config.cacheDir, this.config.cacheDiskMaxBytes, this.config.cacheDiskMaxEntrySize)
+      : undefined;
+    this.responseCache = new ResponseCache(store, this.config.cacheMaxBytes, this.config.cacheMaxEntrySize, diskCache);
+    this.logger = new Logger(this.config);
+    this.dnsResolver = new DnsResolver(this.config.dnsCacheTTL, Math.min(this.config.timeout, 5000));
+    this.pinnedClients = PinnedClientPool.isAvailable() ? new PinnedClientPool(this.config.upstreamConnectTimeout) : null;
+    this.egressRouter = EgressRouter.isAvailable()
+      ? new EgressRouter(this.config.egressProxies, this.config.egressFailureThreshold, this.config.egressUnhealthyDuration,
+        this.config.upstreamConnectTimeout, (proxy, error) => this.logger.warn('Egress proxy marked unhealthy', { proxy, error }))
+      : null;
+    if (!this.egressRouter && this.config.egressProxies.length > 0) {
+      console.warn('Warning: EGRESS_PROXIES is set but upstream connectors are not available ' +
+        '(requires Deno.createHttpClient, --allow-read and --allow-write), upstream requests are sent directly');
+    }
+    if (!this.pinnedClients && this.config.resolveDns) {
+      console.warn('Warning: upstream connectors are not available (requires Deno.createHttpClient, ' +
+        '--allow-read and --allow-write), connections are not pinned to the checked addresses');
+    }
+    this.retryBudget = new RetryBudget(this.config.retryBudgetPercent, this.config.retryBudgetMin);
+    this.circuitBreaker = new CircuitBreaker(this.getCircuitBreakerOptions(this.config), (host, state, circuit) => {
+      if (state === 'open') {
+        this.logger.warn('Circuit opened', {
+          host,
+          consecutiveFailures: circuit.consecutiveFailures,
+          window: circuit.window,
+          error: circuit.lastFailure?.error
+        });
+      } else {
+        this.logger.info(state === 'closed' ? 'Circuit closed' : 'Circuit half-open', { host });
+      }
+    });
+  }
+
+  private getCircuitBreakerOptions(config: Config): CircuitBreakerOptions {
+    return {
+      failureThreshold: config.circuitFailureThreshold,
+      errorRate: config.circuitErrorRate,
+      minRequests: config.circuitMinRequests,
+      window: config.circuitWindow,
+      openDuration: config.circuitOpenDuration,
+      halfOpenRequests: config.circuitHalfOpenRequests
+    };
+  }
+
+  /**
+   * 处理一个请求；remoteAddr为连接的对端地址，用于确定客户端IP
+   */
+  async handleRequest(request: Request, admin = false, remoteAddr?: string): Promise<Response> {
+    const startTime = performance.now();
+    const context = this.createRequestContext(request, admin, this.getClientIP(request, remoteAddr));
+    const response = await this.processRequest(request, context);
+    if (this.config.enableMetrics) {
+      this.metrics.recordRequest(request.method, response.status, (performance.now() - startTime) / 1000);
+    }
+
+    context.span.setAttribute('http.response.status_code', response.status);
+    context.span.end(response.status >= 500 ? `HTTP ${response.status}` : undefined);
+
+    // 每个响应都带上请求ID，暴露头部不是 * 时追加以便浏览器读取
+    response.headers.set('X-Request-Id', context.requestId);
+    const exposed = response.headers.get('Access-Control-Expose-Headers');
+    if (exposed !== '*') {
+      response.headers.set('Access-Control-Expose-Headers', exposed ? `${exposed}, X-Request-Id` : 'X-Request-Id');
+    }
+    // 上游请求发生过重试时告知客户端重试次数
+    if (context.retries > 0) {
+      response.headers.set('X-Proxy-Retries', String(context.retries));
+      if (exposed !== '*') {
+        response.headers.append('Access-Control-Expose-Headers', 'X-Proxy-Retries');
+      }
+    }
+
+    const logAccess = (bytesIn: number, bytesOut: number) => {
+      this.logger.logRequest({
+        requestId: context.requestId,
+        traceId: context.span.context.traceId,
+        method: request.method,
+        path: new URL(request.url).pathname,
+        target: context.target ?? null,
+        status: response.status,
+        durationMs: Math.round(performance.now() - startTime),
+        bytesIn,
+        bytesOut,
+        cache: context.cache ?? null,
+        retries: context.retries,
+        policyRules: context.policyRules,
+        clientKey: context.clientKey ?? null,
+        egress: context.egress ?? null,
+        ip: context.clientIP,
+        userAgent: request.headers.get('user-agent'),
+        referer: request.headers.get('referer')
+      });
+    };
+
+    // WebSocket升级响应必须原样返回，连接结束后记录访问日志（字节数为转发的消息内容）
+    if (context.webSocket) {
+      context.webSocket.then(({ bytesIn, bytesOut }) => logAccess(bytesIn, bytesOut));
+      return response;
+    }
+
+    // 响应体传输完毕后记录访问日志
+    const body = onBodyComplete(response.body, bytesOut => {
+      logAccess(Number(request.headers.get('content-length')) || 0, bytesOut);
+    });
+    return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+  }
+
+  /**
+   * 创建请求ID和追踪上下文：只沿用可信调用方（TRUSTED_CALLERS）传入的X-Request-Id和traceparent
+   */
+  private createRequestContext(request: Request, admin: boolean, clientIP: string): RequestContext {
+    const trusted = this.config.trustedCallerMatcher.matches(clientIP);
+    const presentedId = request.headers.get('x-request-id')?.trim();
+    const parent = trusted ? parseTraceparent(request.headers.get('traceparent')) : null;
+
+    const url = new URL(request.url);
+    const span = this.tracer.startSpan(`${request.method} proxy`, parent, 'server', {
+      'http.request.method': request.method,
+      'url.path': url.pathname,
+      'client.address': clientIP
+    });
+    const requestId = trusted && presentedId && REQUEST_ID_PATTERN.test(presentedId)
+      ? presentedId
+      : crypto.randomUUID ? crypto.randomUUID() : `req-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+    span.setAttribute('ciao_cors.request_id', requestId);
+
+    return {
+      requestId,
+      span,
+      tracestate: parent ? request.headers.get('tracestate') || undefined : undefined,
+      admin,
+      clientIP,
+      retries: 0,
+      policyRules: []
+    };
+  }
+
+  private async processRequest(request: Request, context: RequestContext): Promise<Response> {
+    const { requestId } = context;
+    const startTime = Date.now();
+    const { clientIP } = context;
+    const origin = request.headers.get('origin');
+
+    try {
+      // 配置了管理端口时，管理API和控制台只在管理端口提供，管理端口也不代理请求
+      if (this.config.adminPort !== undefined) {
+        const isManagementPath = decodeURIComponent(new URL(request.url).pathname).startsWith('/_api/');
+        if (isManagementPath !== context.admin) {
+          return this.createErrorResponse(404, 'Not found');
+        }
+      }
+
+      // 处理OPTIONS预检请求
+      if (request.method === 'OPTIONS') {
+        return this.handlePreflight(request);
+      }
+
+      // 解析目标URL
+      const url = new URL(request.url);
+      let targetPath = decodeURIComponent(url.pathname.substring(1));
+
+      // 处理管理API
+      if (targetPath.startsWith('_api/')) {
+        return this.handleManagementApi(request, targetPath, context);
+      }
+
+      // Prometheus指标
+      if (targetPath === 'metrics') {
+        return await this.handleMetrics(request);
+      }
+
+      // 添加健康检查路径
+      if (targetPath === 'health' || targetPath === '_health') {
+        return new Response(JSON.stringify({
+          status: 'ok',
+          timestamp: new Date().toISOString(),
+          version: '1.3.0'
+        }), {
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      // 验证基本URL格式
+      if (targetPath.length < 3 || !targetPath.includes('.') ||
+          targetPath === 'favicon.ico' || targetPath === 'robots.txt') {
+        return this.createErrorResponse(400, 'Invalid URL format', {
+          usage: 'https://your-domain.com/{target-url}',
+          example: 'https://your-domain.com/httpbin.org/get'
+        });
+      }
+
+      // 添加必需头部验证（类似 cors-anywhere.com）
+      if (this.config.requireHeaders) {
+        const hasOrigin = request.headers.has('origin');
+        const hasXRequestedWith = request.headers.has('x-requested-with');
+
+        if (!hasOrigin && !hasXRequestedWith) {
+          return this.createErrorResponse(403, 'Missing required request header. Must specify one of: origin,x-requested-with', {
+            usage: 'Add "Origin" or "X-Requested-With" header to your request',
+            example: 'fetch(url, { headers: { "X-Requested-With": "XMLHttpRequest" } })'
+          });
+        }
+      }
+
+      // 检查滥用检测的临时封禁，未封禁的请求计入拒绝率的请求数
+      if (this.detectsAbuse(clientIP)) {
+        const ban = await this.abuseDetector.getBan(clientIP);
+        if (ban) {
+          if (this.config.enableStats) this.statsCollector.recordBlocked('Temporarily banned');
+          if (this.config.enableMetrics) this.metrics.recordBlocked();
+          return this.createErrorResponse(403, 'Temporarily banned due to abuse', {
+            expiresAt: ban.expiresAt,
+            retryAfter: Math.max(1, Math.ceil((Date.parse(ban.expiresAt) - Date.now()) / 1000))
+          });
+        }
+        this.abuseDetector.countRequest(clientIP);
+      }
+
+      // 识别客户端密钥（X-Client-Key 请求头或 client_key 查询参数）
+      const presentedKey = request.headers.get('x-client-key') || url.searchParams.get('client_key');
+      let clientKey: ClientKey | null = null;
+      if (presentedKey) {
+        clientKey = await this.clientKeys.authenticate(presentedKey);
+        if (!clientKey) {
+          this.recordAbuse(clientIP, detector => detector.record(clientIP, 'invalid_key', 'Invalid client key'));
+          return this.createErrorResponse(401, 'Invalid client key');
+        }
+      } else if (this.config.requireClientKey) {
+        return this.createErrorResponse(401, 'Client key required', {
+          usage: 'Add "X-Client-Key" header or "client_key" query parameter to your request'
+        });
+      }
+      const clientKeyId = clientKey?.record.id;
+      context.clientKey = clientKeyId;
+
+      // 检查请求频率限制，密钥设置了rateLimit时按密钥限流
+      let rateLimit = clientKey?.rateLimiter
+        ? await clientKey.rateLimiter.consume(clientKey.record.id)
+        : await this.rateLimiter.consume(clientIP);
+      if (!rateLimit.allowed) {
+        if (clientKeyId && this.config.enableStats) this.statsCollector.recordClientKeyRejected(clientKeyId);
+        if (this.config.enableMetrics) this.metrics.recordRateLimited(clientKey?.rateLimiter ? 'client_key' : 'ip');
+        this.recordAbuse(clientIP, detector => detector.record(clientIP, 'rate_limited', 'Rate limit exceeded'));
+        return this.createRateLimitedResponse(rateLimit);
+      }
+
+      // WebSocket连接单独限制数量，不占用普通请求的并发名额
+      if (isWebSocketUpgrade(request)) {
+        return await this.handleWebSocket(request, targetPath, clientIP, clientKey, context);
+      }
+
+      // 检查并发限制
       if (!(await this.concurrencyLimiter.acquire(clientIP))) {
+        if (this.config.enableMetrics) this.metrics.recordConcurrencyRejected('ip');
+        return this.createErrorResponse(503, 'Concurrency limit exceeded', {
+          retryAfter: 5
+        });
+      }
+      if (clientKey?.concurrency && !(await clientKey.concurrency.acquire(clientKey.record.id))) {
+        await this.concurrencyLimiter.release(clientIP);
+        if (this.config.enableStats) this.statsCollector.recordClientKeyRejected(clientKey.record.id);
+        if (this.config.enableMetrics) this.metrics.recordConcurrencyRejected('client_key');
         return this.createErrorResponse(503, 'Concurrency limit exceeded', {
+          clientKey: clientKey.record.id,
           retryAfter: 5
         });
       }
 
-      let response: Response;
-      let success = false;
+      // 并发名额在响应体传输完毕或客户端断开后释放，且只释放一次
+      const concurrencyLimiter = this.concurrencyLimiter;
+      let slotsReleased = false;
+      const releaseSlots = async () => {
+        if (slotsReleased) return;
+        slotsReleased = true;
+        await concurrencyLimiter.release(clientIP);
+        await clientKey?.concurrency?.release(clientKey.record.id);
+      };
+      let holdsSlots = false;
+
+      let response: Response;
+      let success = false;
+      let policyRules: string[] = [];
+
+      try {
+        // 安全验证
+        const validateSpan = context.span.startChild('validate request');
+        const validation = validateRequest(targetPath, clientIP, this.config, origin || undefined);
+        if (!validation.valid) validateSpan.setAttribute('ciao_cors.blocked_reason', validation.reason || 'blocked');
+        validateSpan.end();
+        if (!validation.valid) {
+          return this.createBlockedResponse(validation, clientIP);
+        }
+
+        // 执行代理请求
+        const targetUrl = fixUrl(targetPath);
+        context.target = targetUrl;
+
+        // 检查客户端密钥的访问范围
+        const keyError = clientKey && this.checkClientKeyScope(clientKey, targetUrl, clientIP, origin || undefined);
+        if (keyError) return keyError;
+
+        // 匹配目标策略规则
+        const policy = this.config.policyEngine.resolve(targetUrl, origin || undefined);
+        policyRules = policy.ruleIds;
+        context.policyRules = policyRules;
+
+        if (policy.allowedMethods && !policy.allowedMethods.includes(request.method)) {
+          this.recordAbuse(clientIP, detector => detector.record(clientIP, 'method_not_allowed', 'Method not allowed'));
+          return this.createErrorResponse(405, `Method ${request.method} not allowed for this target`, {
+            allowedMethods: policy.allowedMethods
+          });
+        }
+
+        // 策略规则的限流更严格时，以它的状态作为响应中的限流头部
+        const policyRateLimit = policy.rateLimit ? await this.consumePolicyRateLimit(policy.rateLimit.ruleId, clientIP) : null;
+        if (policyRateLimit && (!policyRateLimit.allowed || policyRateLimit.remaining < rateLimit.remaining)) {
+          rateLimit = policyRateLimit;
+        }
+        if (!rateLimit.allowed) {
+          if (this.config.enableMetrics) this.metrics.recordRateLimited('policy');
+          this.recordAbuse(clientIP, detector => detector.record(clientIP, 'rate_limited', 'Rate limit exceeded'));
+          return this.createRateLimitedResponse(rateLimit, { policyRule: policy.rateLimit!.ruleId });
+        }
+
+        // 按HTTP缓存语义查找GET请求的缓存，策略cacheTTL为0时该目标不使用缓存
+        const cacheTTL = policy.cacheTTL ?? this.config.cacheTTL;
+        const cacheable = this.responseCache.accepts(request) && policy.cacheTTL !== 0;
+        let cached: CacheLookup | undefined;
+        if (cacheable) {
+          const cacheSpan = context.span.startChild('cache lookup');
+          cached = await this.responseCache.lookup(request, targetUrl);
+          cacheSpan.setAttribute('ciao_cors.cache_result', cached ? (cached.fresh ? 'hit' : 'stale') : 'miss');
+          if (cached) cacheSpan.setAttribute('ciao_cors.cache_tier', cached.tier);
+          cacheSpan.end();
+        }
+
+        if (cached?.fresh) {
+          this.responseCache.record('HIT');
+          context.cache = 'HIT';
+          response = this.createCachedResponse(request, cached.entry, cached.age, 'HIT', policy,
+            this.getHeaderVariables(context, clientIP, origin || undefined), origin || undefined);
+          success = response.status < 400;
+        } else {
+          try {
+            // 执行新请求（逐跳校验重定向），过期的缓存条目带上验证器做条件请求
+            const validators = cached ? getCacheValidators(cached.entry) : undefined;
+            const result = await this.proxyWithRedirects(request, targetUrl, clientIP, policy, context, origin || undefined, validators);
+            if ('rejected' in result) {
+              return this.createBlockedResponse(result.rejected, clientIP);
+            }
+            const { response: proxyResponse, redirects, passthrough } = result;
+
+            if (cached && validators && proxyResponse.status === 304) {
+              // 上游确认缓存仍然有效，更新条目后返回缓存内容
+              await proxyResponse.body?.cancel();
+              const entry = await this.responseCache.refresh(request, cached, proxyResponse.headers, cacheTTL);
+              this.responseCache.record('REVALIDATED');
+              context.cache = 'REVALIDATED';
+              response = this.createCachedResponse(request, entry, entry.initialAge, 'REVALIDATED', policy,
+                this.getHeaderVariables(context, clientIP, origin || undefined), origin || undefined);
+              success = response.status < 400;
+            } else {
+              // 写入缓存（不跟随重定向的响应才对应请求的URL），事件流不缓存
+              // 透传的3xx不缓存：改写后的Location取自请求的Host和X-Forwarded-*头部，不能提供给其他客户端
+              const eventStream = isEventStream(proxyResponse.headers);
+              if (cacheable && !eventStream) context.cache = 'MISS';
+              if (cacheable && !eventStream && redirects.length === 0 && !passthrough) {
+                this.responseCache.record('MISS');
+                this.responseCache.put(request, targetUrl, proxyResponse.clone(), cacheTTL).catch(error => {
+                  // 响应体超时已在上游请求中记录
+                  if (error instanceof UpstreamTimeoutError) return;
+                  this.logger.error('Failed to cache response', { requestId, error: error instanceof Error ? error.message : error });
+                });
+              }
+
+              // 构建响应
+              const responseHeaders = this.buildCorsHeaders(proxyResponse.headers, origin || undefined,
+                policy.responseHeaderProfile);
+              applyHeaderModifications(responseHeaders, policy.responseHeaders,
+                this.getHeaderVariables(context, clientIP, origin || undefined));
+              if (redirects.length > 0) {
+                responseHeaders.set('X-Proxy-Final-Url', result.finalUrl);
+                responseHeaders.set('X-Proxy-Redirect-Chain',
+                  [...redirects.map(hop => `${hop.url} (${hop.status})`), result.finalUrl].join(' -> '));
+              }
+              if (cacheable && !eventStream) responseHeaders.set('X-Cache', 'MISS');
+              if (eventStream) {
+                // 事件流逐块转发，提示前置的反向代理（如Nginx）不要缓冲
+                responseHeaders.set('X-Accel-Buffering', 'no');
+              }
+              response = new Response(proxyResponse.body, {
+                status: proxyResponse.status,
+                statusText: proxyResponse.statusText,
+                headers: responseHeaders
+              });
+
+              success = proxyResponse.status < 400;
+            }
+          } catch (proxyError) {
+            // 处理代理请求错误
+            if (proxyError instanceof RequestBodyTooLargeError) {
+              return this.createErrorResponse(413, 'Request body too large');
+            }
+            throw proxyError; // 重新抛出其他错误
+          }
+        }
+        
+        // 记录统计
+        if (this.config.enableStats) {
+          const domain = new URL(targetUrl).hostname;
+          const responseTime = Date.now() - startTime;
+          this.statsCollector.recordRequest(clientIP, domain, response.status, responseTime, success, policyRules, clientKeyId);
+        }
+
+        applyRateLimitHeaders(response.headers, rateLimit);
+        const body = onBodyComplete(response.body, () => {
+          releaseSlots().catch(() => {});
+        });
+        holdsSlots = true;
+        return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+        
+      } finally {
+        if (!holdsSlots) await releaseSlots();
+      }
+
+    } catch (error) {
+      // 客户端在收到响应前断开，不再需要响应
+      if (request.signal.aborted) {
+        this.logger.debug('Client disconnected before response', { requestId, ip: clientIP });
+        if (this.config.enableStats) {
+          this.statsCollector.recordRequest(clientIP, 'error', 499, Date.now() - startTime, false);
+        }
+        return this.createErrorResponse(499, 'Client closed request');
+      }
+
+      // 上游超时返回504，并说明超时的阶段
+      if (error instanceof UpstreamTimeoutError) {
+        if (this.config.enableStats) {
+          this.statsCollector.recordRequest(clientIP, 'error', 504, Date.now() - startTime, false);
+        }
+        return this.createErrorResponse(504, 'Upstream timeout', { phase: error.phase });
+      }
+
+      // 目标主机熔断中，不请求上游
+      if (error instanceof CircuitOpenError) {
+        if (this.config.enableStats) {
+          this.statsCollector.recordRequest(clientIP, 'error', 503, Date.now() - startTime, false);
+        }
+        if (this.config.enableMetrics) this.metrics.recordCircuitRejected();
+        return this.createErrorResponse(503, 'Upstream circuit open', {
+          host: error.host,
+          retryAfter: Math.max(1, Math.ceil(error.retryAfter / 1000))
+        });
+      }
+
+      // 改进错误处理和日志
+      this.logger.logError(error as Error, {
+        url: request.url,
+        ip: clientIP,
+        requestId: requestId,
+        traceId: context.span.context.traceId,
+        timestamp: new Date().toISOString()
+      });
+
+      if (this.config.enableStats) {
+        this.statsCollector.recordRequest(clientIP, 'error', 500, Date.now() - startTime, false);
+      }
+
+      // 避免泄露敏感错误信息
+      const sanitizedMessage = error instanceof Error
+        ? (error.message.includes('ENOTFOUND') ? 'Target host not found' :
+           error.message.includes('ECONNREFUSED') ? 'Connection refused' :
+           error.message.includes('timeout') ? 'Request timeout' :
+           'Proxy error')
+        : 'Unknown error';
+
+      return this.createErrorResponse(500, 'Proxy error', {
+        message: sanitizedMessage
+      });
+    }
+  }
+
+  /**
+   * 处理CORS预检请求，按照配置的策略校验请求的来源、方法和头部
+   */
+  handlePreflight(request: Request): Response {
+    const origin = request.headers.get('origin');
+    if (origin && !isOriginAllowed(this.config, origin)) {
+      return this.createErrorResponse(403, 'Origin not allowed');
+    }
+
+    // 校验请求方法
+    const requestMethod = request.headers.get('access-control-request-method')?.trim().toUpperCase();
+    if (requestMethod && !this.config.corsAllowedMethods.includes(requestMethod)) {
+      return this.createErrorResponse(403, `Method not allowed by CORS policy: ${requestMethod}`);
+    }
+
+    // 校验请求头部
+    const requestHeaders = (request.headers.get('access-control-request-headers') || '')
+      .split(',')
+      .map(header => header.trim().toLowerCase())
+      .filter(Boolean);
+    const allowedHeaders = this.config.corsAllowedHeaders.map(header => header.toLowerCase());
+    const allowAnyHeader = allowedHeaders.includes('*');
+    const rejectedHeader = requestHeaders.find(header => !allowAnyHeader && !allowedHeaders.includes(header));
+    if (rejectedHeader) {
+      return this.createErrorResponse(403, `Request header not allowed by CORS policy: ${rejectedHeader}`);
+    }
+
+    const headers = this.buildCorsHeaders(new Headers(), origin || undefined);
+    if (requestHeaders.length > 0) {
+      // 携带凭证时通配符 * 不生效，需要回显具体的头部名称
+      headers.set('Access-Control-Allow-Headers',
+        allowAnyHeader && !this.config.corsAllowCredentials ? '*' : requestHeaders.join(', '));
+    }
+
+    // Private Network Access 预检
+    if (request.headers.get('access-control-request-private-network') === 'true') {
+      if (!this.config.corsAllowPrivateNetwork) {
+        return this.createErrorResponse(403, 'Private network access not allowed');
+      }
+      headers.set('Access-Control-Allow-Private-Network', 'true');
+    }
+
+    return new Response(null, {
+      status: 204,
+      headers
+    });
+  }
+
+  // API密钥验证（防时序攻击），未配置API_KEY时不需要验证
+  // 管理端口上没有提供密钥时接受控制台登录后的会话Cookie
+  private async isAuthorized(request: Request, admin = false): Promise<boolean> {
+    if (!this.config.apiKey) return true;
+
+    const authHeader = request.headers.get('authorization');
+    const providedKey = authHeader?.replace('Bearer ', '') ||
+                       new URL(request.url).searchParams.get('key');
+    if (providedKey) return this.constantTimeCompare(providedKey, this.config.apiKey);
+
+    // 代理端口上的页面（被代理的HTML）与控制台同源，会话Cookie在那里等于把管理权限交给任意网站
+    if (!admin) return false;
+
+    // 会话只用于同源请求，跨站请求即使带上Cookie也不认可（配合SameSite=Strict防止CSRF）
+    // 代理端口与管理端口同站不同源，Sec-Fetch-Site为same-site，同样不认可
+    const token = getCookie(request, DASHBOARD_SESSION_COOKIE);
+    const fetchSite = request.headers.get('sec-fetch-site');
+    if (!token || (fetchSite && fetchSite !== 'same-origin' && fetchSite !== 'none')) return false;
+    // 不发送Sec-Fetch-Site的浏览器通过Origin判断
+    const origin = request.headers.get('origin');
+    if (origin !== null) {
+      let originHost: string | null = null;
+      try {
+        originHost = new URL(origin).host;
+      } catch {
+        // Origin: null
+      }
+      if (originHost !== request.headers.get('host')) return false;
+    }
+    return await verifyDashboardSession(this.store, this.config.apiKey, token);
+  }
+
+  /**
+   * Prometheus指标（需要与管理API相同的API密钥）
+   */
+  private async handleMetrics(request: Request): Promise<Response> {
+    if (!this.config.enableMetrics) {
+      return this.createErrorResponse(404, 'Metrics disabled');
+    }
+    if (!(await this.isAuthorized(request))) {
+      return this.createErrorResponse(401, 'Invalid API key');
+    }
+
+    const cache = this.responseCache.getStats();
+    const tiers = (['memory', 'disk'] as const).flatMap(tier => cache[tier] ? [[tier, cache[tier]!] as const] : []);
+    const concurrency = await this.concurrencyLimiter.getStats();
+    const webSocket = this.webSockets.getStats();
+    const memory = Deno.memoryUsage();
+
+    const body = this.metrics.render([
+      {
+        name: 'ciao_cors_cache_requests_total',
+        type: 'counter',
+        help: 'Cacheable requests, by result.',
+        samples: [[{ result: 'hit' }, cache.hits], [{ result: 'miss' }, cache.misses], [{ result: 'revalidated' }, cache.revalidated]]
+      },
+      {
+        name: 'ciao_cors_cache_lookups_total',
+        type: 'counter',
+        help: 'Cache lookups, by tier and result.',
+        samples: tiers.flatMap(([tier, stats]) => [
+          [{ tier, result: 'hit' }, stats.hits] as [MetricLabels, number],
+          [{ tier, result: 'miss' }, stats.misses] as [MetricLabels, number]
+        ])
+      },
+      {
+        name: 'ciao_cors_cache_bytes',
+        type: 'gauge',
+        help: 'Bytes stored in the response cache, by tier.',
+        samples: tiers.map(([tier, stats]) => [{ tier }, stats.bytes])
+      },
+      {
+        name: 'ciao_cors_cache_entries',
+        type: 'gauge',
+        help: 'Entries in the response cache, by tier.',
+        samples: tiers.map(([tier, stats]) => [{ tier }, stats.entries])
+      },
+      {
+        name: 'ciao_cors_inflight_requests',
+        type: 'gauge',
+        help: 'Proxied requests currently in flight.',
+        samples: [[{}, concurrency.totalCount]]
+      },
+      {
+        name: 'ciao_cors_inflight_clients',
+        type: 'gauge',
+        help: 'Client IPs with requests currently in flight.',
+        samples: [[{}, concurrency.perIpCount.size]]
+      },
+      {
+        name: 'ciao_cors_websocket_connections',
+        type: 'gauge',
+        help: 'Proxied WebSocket connections currently open.',
+        samples: [[{}, webSocket.open]]
+      },
+      {
+        name: 'ciao_cors_websocket_bytes_total',
+        type: 'counter',
+        help: 'WebSocket message bytes relayed, by direction.',
+        samples: [[{ direction: 'in' }, webSocket.bytesIn], [{ direction: 'out' }, webSocket.bytesOut]]
+      },
+      {
+        name: 'ciao_cors_circuit_breakers',
+        type: 'gauge',
+        help: 'Tracked upstream hosts, by circuit breaker state.',
+        samples: Object.entries(this.circuitBreaker.counts()).map(([state, count]) => [{ state }, count])
+      },
+      {
+        name: 'process_resident_memory_bytes',
+        type: 'gauge',
+        help: 'Resident memory size in bytes.',
+        samples: [[{}, memory.rss]]
+      },
+      {
+        name: 'process_heap_bytes',
+        type: 'gauge',
+        help: 'V8 heap memory in bytes.',
+        samples: [[{ type: 'total' }, memory.heapTotal], [{ type: 'used' }, memory.heapUsed], [{ type: 'external' }, memory.external]]
+      }
+    ]);
+
+    return new Response(body, {
+      headers: { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' }
+    });
+  }
+
+  async handleManagementApi(request: Request, path: string, context: RequestContext): Promise<Response> {
+    const { admin } = context;
+    const apiPath = path.substring(5); // 移除 '_api/' 前缀
+
+    // 控制台页面和登录接口不需要预先认证
+    if (apiPath === 'dashboard' || apiPath.startsWith('dashboard/')) {
+      return await this.handleDashboard(request, apiPath.substring('dashboard/'.length), context);
+    }
+
+    if (!(await this.isAuthorized(request, admin))) {
+      return this.createErrorResponse(401, 'Invalid API key');
+    }
+
+    if (apiPath === 'client-keys' || apiPath.startsWith('client-keys/')) {
+      return await this.handleClientKeysApi(request, apiPath.substring('client-keys/'.length));
+    }
+
+    if (apiPath === 'rules' || apiPath.startsWith('rules/')) {
+      return await this.handleRulesApi(request, apiPath.substring('rules/'.length));
+    }
+
+    if (apiPath === 'bans' || apiPath.startsWith('bans/')) {
+      return await this.handleBansApi(request, apiPath.substring('bans/'.length));
+    }
+
+    if (apiPath === 'circuits' || apiPath.startsWith('circuits/')) {
+      return this.handleCircuitsApi(request, decodeURIComponent(apiPath.substring('circuits/'.length)));
+    }
+
+    switch (apiPath) {
+      case 'stats':
+        if (!this.config.enableStats) {
+          return this.createErrorResponse(404, 'Stats disabled');
+        }
+        return new Response(JSON.stringify(await this.collectStats(), null, 2), {
+          headers: { 'Content-Type': 'application/json' }
+        });
+
+      case 'health':
+        return new Response(JSON.stringify({
+          status: 'healthy',
+          timestamp: new Date().toISOString(),
+          version: '1.3.0',
+          memory: Deno.memoryUsage ? {
+            rss: Deno.memoryUsage().rss,
+            heapTotal: Deno.memoryUsage().heapTotal,
+            heapUsed: Deno.memoryUsage().heapUsed
+          } : undefined
+        }), {
+          headers: { 'Content-Type': 'application/json' }
+        });
+
+      case 'config':
+        // 返回脱敏的配置信息
+        const safeConfig = { ...this.config };
+        if (safeConfig.apiKey) safeConfig.apiKey = '***';
+        if (safeConfig.logWebhook) safeConfig.logWebhook = '***';
+        if (safeConfig.logWebhookSecret) safeConfig.logWebhookSecret = '***';
+        safeConfig.egressProxies = safeConfig.egressProxies.map(rule =>
+          rule.proxies ? { ...rule, proxies: rule.proxies.map(redactProxyUrl) } : rule);
+        
+        return new Response(JSON.stringify(safeConfig, null, 2), {
+          headers: { 'Content-Type': 'application/json' }
+        });
+
+      case 'reset-stats':
+        if (!this.config.enableStats) {
+          return this.createErrorResponse(404, 'Stats disabled');
+        }
+        await this.statsCollector.reset();
+        return new Response(JSON.stringify({
+          success: true,
+          message: 'Statistics reset successfully'
+        }), {
+          headers: { 'Content-Type': 'application/json' }
+        });
+
+      case 'clear-cache':
+        const cacheSize = await this.responseCache.clear();
+        return new Response(JSON.stringify({
+          success: true,
+          message: `Cache cleared successfully (${cacheSize} entries)`
+        }), {
+          headers: { 'Content-Type': 'application/json' }
+        });
+
+      case 'purge-cache': {
+        // 按URL或URL前缀清理，清理全部缓存使用 clear-cache
+        const params = new URL(request.url).searchParams;
+        const url = params.get('url') ?? undefined;
+        const prefix = params.get('prefix') ?? undefined;
+        if (!url && !prefix) {
+          return this.createErrorResponse(400, 'Either url or prefix parameter is required');
+        }
+        const purged = await this.responseCache.purge({ url, prefix });
+        return new Response(JSON.stringify({
+          success: true,
+          purged,
+          message: `Purged ${purged} cache entries`
+        }), {
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      case 'reload-config':
+        try {
+          const newConfig = this.reloadConfig();
 
-      try {
-        // 安全验证
-        const validation = validateRequest(targetPath, clientIP, this.config, origin || undefined);
-        if (!validation.valid) {
-          await this.concurrencyLimiter.release(clientIP);
-          return this.createErrorResponse(403, validation.reason || 'Request blocked');
+          return new Response(JSON.stringify({
+            success: true,
+            message: 'Configuration reloaded successfully',
+            timestamp: new Date().toISOString(),
+            config: {
+              port: newConfig.port,
+              configFile: newConfig.configFile,
+              enableStats: newConfig.enableStats,
+              enableLogging: newConfig.enableLogging,
+              rateLimit: newConfig.rateLimit,
+              concurrentLimit: newConfig.concurrentLimit,
+              totalConcurrentLimit: newConfig.totalConcurrentLimit,
+              maxUrlLength: newConfig.maxUrlLength,
+              maxBodySize: newConfig.maxBodySize,
+              timeout: newConfig.timeout,
+              logWebhook: newConfig.logWebhook ? '***' : undefined,
+              allowedOrigins: newConfig.allowedOrigins.length,
+              allowedDomains: newConfig.allowedDomains.length,
+              blockedIPs: newConfig.blockedIPs.length,
+              blockedDomains: newConfig.blockedDomains.length
+            }
+          }), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        } catch (error) {
+          return new Response(JSON.stringify({
+            success: false,
+            error: 'Failed to reload configuration',
+            message: error instanceof ConfigError ? 'Invalid configuration, previous configuration is still active'
+              : error instanceof Error ? error.message : 'Unknown error',
+            errors: error instanceof ConfigError ? error.errors : undefined,
+            timestamp: new Date().toISOString()
+          }), {
+            status: error instanceof ConfigError ? 400 : 500,
+            headers: { 'Content-Type': 'application/json' }
+          });
         }
 
-        // 执行代理请求
-        const targetUrl = fixUrl(targetPath);
+      case 'performance':
+        if (!this.config.enableStats) {
+          return this.createErrorResponse(404, 'Stats disabled');
+        }
+        const performanceData = await this.statsCollector.getPerformanceData();
+        return new Response(JSON.stringify(performanceData, null, 2), {
+          headers: { 'Content-Type': 'application/json' }
+        });
+
+      case 'version':
+        return new Response(JSON.stringify({
+          version: '1.3.0',
+          runtime: `Deno ${Deno.version.deno}`,
+          typescript: Deno.version.typescript,
+          v8: Deno.version.v8
+        }), {
+          headers: { 'Content-Type': 'application/json' }
+        });
+
+      default:
+        return this.createErrorResponse(404, 'API endpoint not found');
+    }
+  }
+
+  /**
+   * 统计快照，stats接口和控制台共用；统计关闭时stats和uptime为null
+   */
+  private async collectStats(): Promise<Record<string, unknown>> {
+    const stats = this.config.enableStats ? await this.statsCollector.getStats() : null;
+    const rateLimiterStats = await this.rateLimiter.getStats();
+    const concurrencyStats = await this.concurrencyLimiter.getStats();
 
-        // 检查GET请求的缓存（包含关键请求头以避免冲突）
-        const cacheKey = this.generateCacheKey(request, targetUrl);
-        const cachedResponse = request.method === 'GET' ? this.responseCache.get(cacheKey) : undefined;
+    return {
+      stats: stats && {
+        ...stats,
+        topDomains: Object.fromEntries(stats.topDomains),
+        topIPs: Object.fromEntries(stats.topIPs),
+        statusCodes: Object.fromEntries(stats.statusCodes),
+        blockReasons: Object.fromEntries(stats.blockReasons),
+        policyRules: Object.fromEntries(stats.policyRules),
+        clientKeys: Object.fromEntries(stats.clientKeys),
+        hourlyStats: stats.hourlyStats
+      },
+      rateLimiter: rateLimiterStats,
+      concurrency: {
+        totalCount: concurrencyStats.totalCount,
+        activeIPs: concurrencyStats.perIpCount.size
+      },
+      cache: this.responseCache.getStats(),
+      webSocket: this.webSockets.getStats(),
+      retries: this.retryBudget.getStats(),
+      logDelivery: this.logger.getDeliveryStats(),
+      stateBackend: this.store.backend,
+      pinnedClients: this.pinnedClients?.getStats(),
+      egress: this.egressRouter?.getStats() ?? [],
+      uptime: stats ? Date.now() - stats.startTime : null,
+      version: '1.3.0'
+    };
+  }
 
-        if (cachedResponse && (Date.now() - cachedResponse.timestamp < this.cacheTTL)) {
-          // 返回缓存的响应副本
-          const cachedBody = await cachedResponse.response.clone().arrayBuffer();
-          const cachedHeaders = new Headers(cachedResponse.response.headers);
+  /**
+   * 管理控制台
+   * GET dashboard 页面；POST dashboard/login 校验API密钥，在管理端口上换取会话Cookie；
+   * POST dashboard/logout 删除会话并清除Cookie；GET dashboard/events 统计事件流（Server-Sent Events）
+   * 代理端口上不创建会话，页面只在内存中保存API密钥，每个请求通过Authorization头发送
+   */
+  private async handleDashboard(request: Request, action: string, context: RequestContext): Promise<Response> {
+    const { admin } = context;
+    const secure = new URL(request.url).protocol === 'https:' || request.headers.get('x-forwarded-proto') === 'https';
+    const sessionCookie = (value: string, maxAge: number) =>
+      `${DASHBOARD_SESSION_COOKIE}=${value}; Path=/_api/; Max-Age=${maxAge}; HttpOnly; SameSite=Strict${secure ? '; Secure' : ''}`;
+
+    switch (action) {
+      case '': {
+        // 每次生成新的nonce，页面只允许执行自带的内联脚本和样式
+        const nonce = randomHex(16);
+        return new Response(renderDashboard(nonce), {
+          headers: {
+            'Content-Type': 'text/html; charset=utf-8',
+            'Content-Security-Policy': `default-src 'none'; script-src 'nonce-${nonce}'; style-src 'nonce-${nonce}'; ` +
+              `connect-src 'self'; form-action 'none'; frame-ancestors 'none'; base-uri 'none'`,
+            'Cache-Control': 'no-store',
+            'X-Content-Type-Options': 'nosniff',
+            'Referrer-Policy': 'no-referrer'
+          }
+        });
+      }
 
-          response = new Response(cachedBody, {
-            status: cachedResponse.response.status,
-            statusText: cachedResponse.response.statusText,
-            headers: this.buildCorsHeaders(cachedHeaders, origin || undefined)
+      case 'login': {
+        if (request.method !== 'POST') {
+          return this.createErrorResponse(405, 'Method not allowed');
+        }
+        if (!this.config.apiKey) {
+          return new Response(JSON.stringify({ success: true, message: 'No API key configured' }), {
+            headers: { 'Content-Type': 'application/json' }
           });
+        }
 
-          success = response.status < 400;
-        } else {
+        let key: unknown;
+        try {
+          key = (await request.json())?.key;
+        } catch {
+          return this.createErrorResponse(400, 'Request body must be a JSON object');
+        }
+        if (typeof key !== 'string' || !this.constantTimeCompare(key, this.config.apiKey)) {
+          this.logger.warn('Dashboard login failed', { ip: context.clientIP });
+          return this.createErrorResponse(401, 'Invalid API key');
+        }
+
+        if (!admin) {
+          return new Response(JSON.stringify({ success: true, session: false }), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        const ttl = this.config.dashboardSessionTTL;
+        const token = await createDashboardSession(this.store, this.config.apiKey, ttl);
+        return new Response(JSON.stringify({
+          success: true,
+          session: true,
+          expiresAt: new Date(Date.now() + ttl).toISOString()
+        }), {
+          headers: {
+            'Content-Type': 'application/json',
+            'Set-Cookie': sessionCookie(token, Math.floor(ttl / 1000))
+          }
+        });
+      }
+
+      case 'logout': {
+        if (request.method !== 'POST') {
+          return this.createErrorResponse(405, 'Method not allowed');
+        }
+        const token = getCookie(request, DASHBOARD_SESSION_COOKIE);
+        if (admin && token && this.config.apiKey) {
+          await revokeDashboardSession(this.store, this.config.apiKey, token);
+        }
+        return new Response(JSON.stringify({ success: true }), {
+          headers: { 'Content-Type': 'application/json', 'Set-Cookie': sessionCookie('', 0) }
+        });
+      }
+
+      case 'events':
+        if (!(await this.isAuthorized(request, admin))) {
+          return this.createErrorResponse(401, 'Invalid API key');
+        }
+        return this.createDashboardEvents(request, admin);
+
+      default:
+        return this.createErrorResponse(404, 'API endpoint not found');
+    }
+  }
+
+  /**
+   * 控制台事件流：定期推送 stats 事件；会话过期或API密钥变更后推送 unauthorized 事件并关闭
+   */
+  private createDashboardEvents(request: Request, admin: boolean): Response {
+    const encoder = new TextEncoder();
+    let timer: number | null = null;
+    let closed = false;
+
+    const stop = () => {
+      closed = true;
+      if (timer !== null) {
+        clearInterval(timer);
+        timer = null;
+      }
+    };
+
+    const body = new ReadableStream<Uint8Array>({
+      start: controller => {
+        const push = async () => {
           try {
-            // 执行新请求
-            const proxyResponse = await performProxy(request, targetUrl, this.config);
-
-            // 构建响应
-            response = new Response(proxyResponse.body, {
-              status: proxyResponse.status,
-              statusText: proxyResponse.statusText,
-              headers: this.buildCorsHeaders(proxyResponse.headers, origin || undefined)
-            });
-
-            success = proxyResponse.status < 400;
-
-            // 缓存GET请求的成功响应
-            if (request.method === 'GET' && success) {
-              this.responseCache.set(cacheKey, {
-                response: response.clone(),
-                timestamp: Date.now()
-              });
-            }
-          } catch (proxyError) {
-            // 处理代理请求错误
-            if (proxyError instanceof Error && proxyError.message.includes('Request body too large')) {
-              await this.concurrencyLimiter.release(clientIP);
-              return this.createErrorResponse(413, 'Request body too large');
+            const authorized = !this.isDestroyed && await this.isAuthorized(request, admin);
+            const event = authorized
+              ? `event: stats\ndata: ${JSON.stringify(await this.collectStats())}\n\n`
+              : 'event: unauthorized\ndata: {}\n\n';
+            if (closed) return;
+            controller.enqueue(encoder.encode(event));
+            if (!authorized) {
+              stop();
+              controller.close();
             }
-            throw proxyError; // 重新抛出其他错误
+          } catch (error) {
+            this.logger.warn('Failed to push dashboard stats', { error: error instanceof Error ? error.message : error });
+          }
+        };
+
+        push();
+        timer = setInterval(push, DASHBOARD_UPDATE_INTERVAL) as unknown as number;
+      },
+      // 客户端断开连接
+      cancel: stop
+    });
+
+    return new Response(body, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-store',
+        'X-Accel-Buffering': 'no'
+      }
+    });
+  }
+
+  /**
+   * 客户端密钥管理API
+   * GET client-keys 列出密钥；POST client-keys 创建密钥；PATCH/DELETE client-keys/{id} 更新或吊销密钥
+   */
+  private async handleClientKeysApi(request: Request, id: string): Promise<Response> {
+    const json = (data: unknown, status = 200) => new Response(JSON.stringify(data, null, 2), {
+      status,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+    const readBody = async (): Promise<Record<string, unknown> | null> => {
+      try {
+        const body = await request.json();
+        return typeof body === 'object' && body !== null && !Array.isArray(body) ? body : null;
+      } catch {
+        return null;
+      }
+    };
+
+    try {
+      if (!id) {
+        if (request.method === 'GET') {
+          const usage = this.config.enableStats ? (await this.statsCollector.getStats()).clientKeys : new Map();
+          return json({
+            keys: (await this.clientKeys.list()).map(key => ({ ...key, usage: usage.get(key.id) })),
+            persistent: Boolean(this.clientKeys.path)
+          });
+        }
+
+        if (request.method === 'POST') {
+          const body = await readBody();
+          if (!body) return this.createErrorResponse(400, 'Request body must be a JSON object');
+
+          const errors: string[] = [];
+          if (typeof body.id !== 'string' || !CLIENT_KEY_ID_PATTERN.test(body.id)) {
+            errors.push('$.id: expected 1-64 characters of letters, digits, "_", "-" or "."');
+          } else if (this.clientKeys.has(body.id)) {
+            return this.createErrorResponse(409, `Client key "${body.id}" already exists`);
           }
+          const limits = parseClientKeyLimits(body, '$', errors);
+          if (errors.length > 0) {
+            return this.createErrorResponse(400, 'Invalid client key', { errors });
+          }
+
+          const { key, record } = await this.clientKeys.create(body.id as string, limits);
+          const { hash: _hash, ...safeRecord } = record;
+          return json({
+            success: true,
+            message: 'Client key created, store it now: it will not be shown again',
+            key,
+            record: safeRecord
+          }, 201);
         }
-        
-        // 记录统计
-        if (this.config.enableStats) {
-          const domain = new URL(targetUrl).hostname;
-          const responseTime = Date.now() - startTime;
-          this.statsCollector.recordRequest(clientIP, domain, response.status, responseTime, success);
+      } else if (request.method === 'PATCH' || request.method === 'DELETE') {
+        if (!this.clientKeys.has(id)) {
+          return this.createErrorResponse(404, `Client key "${id}" not found`);
         }
 
-        // 记录日志
-        this.logger.logRequest(request, response, targetUrl, Date.now() - startTime);
-        
+        if (request.method === 'DELETE') {
+          await this.clientKeys.delete(id);
+          return json({ success: true, message: `Client key "${id}" revoked` });
+        }
+
+        const body = await readBody();
+        if (!body) return this.createErrorResponse(400, 'Request body must be a JSON object');
+        const errors: string[] = [];
+        const unknownFields = Object.keys(body)
+          .filter(field => !['rateLimit', 'concurrentLimit', 'allowedDomains', 'allowedOrigins'].includes(field));
+        if (unknownFields.length > 0) {
+          errors.push(`$: unknown fields ${unknownFields.join(', ')}`);
+        }
+        const limits = parseClientKeyLimits(body, '$', errors);
+        if (errors.length > 0) {
+          return this.createErrorResponse(400, 'Invalid client key', { errors });
+        }
+
+        const cleared = (Object.keys(body) as (keyof ClientKeyLimits)[]).filter(field => body[field] === null);
+        const record = await this.clientKeys.update(id, limits, cleared);
+        const { hash: _hash, ...safeRecord } = record!;
+        return json({ success: true, record: safeRecord });
+      }
+
+      return this.createErrorResponse(405, `Method ${request.method} not allowed`);
+    } catch (error) {
+      this.logger.logError(error as Error, { api: 'client-keys', id });
+      return this.createErrorResponse(500, 'Failed to save client keys', {
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * 运行时名单管理API
+   * GET rules 列出规则（可用 ?list= 筛选）；POST rules 添加规则；GET/DELETE rules/{id} 查看或删除规则
+   */
+  private async handleRulesApi(request: Request, id: string): Promise<Response> {
+    const json = (data: unknown, status = 200) => new Response(JSON.stringify(data, null, 2), {
+      status,
+      headers: { 'Content-Type': 'application/json' }
+    });
+    const methodNotAllowed = (allow: string) => {
+      const response = this.createErrorResponse(405, `Method ${request.method} not allowed`);
+      response.headers.set('Allow', allow);
+      return response;
+    };
+
+    try {
+      if (!id) {
+        if (request.method === 'GET') {
+          const list = new URL(request.url).searchParams.get('list');
+          if (list && !RUNTIME_RULE_LISTS.includes(list as RuntimeRuleList)) {
+            return this.createErrorResponse(400, `Unknown list "${list}"`, { lists: RUNTIME_RULE_LISTS });
+          }
+          const lists = list ? [list as RuntimeRuleList] : RUNTIME_RULE_LISTS;
+          return json({
+            rules: this.rules.list(list as RuntimeRuleList || undefined),
+            // 配置（环境变量或配置文件）中的名单，与运行时规则合并生效
+            configured: Object.fromEntries(lists.map(name => [name, this.config[name]])),
+            persistent: Boolean(this.rules.path)
+          });
+        }
+
+        if (request.method === 'POST') {
+          let body: unknown;
+          try {
+            body = await request.json();
+          } catch {
+            body = null;
+          }
+          if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+            return this.createErrorResponse(400, 'Request body must be a JSON object');
+          }
+
+          const errors: string[] = [];
+          const unknownFields = Object.keys(body).filter(field => !['list', 'value', 'comment', 'expiresAt', 'ttl'].includes(field));
+          if (unknownFields.length > 0) {
+            errors.push(`$: unknown fields ${unknownFields.join(', ')}`);
+          }
+          const input = parseRuntimeRule(body as Record<string, unknown>, '$', errors);
+          if (!input || errors.length > 0) {
+            return this.createErrorResponse(400, 'Invalid rule', { errors });
+          }
+          const existing = this.rules.find(input.list, input.value);
+          if (existing) {
+            return this.createErrorResponse(409, `Rule "${input.value}" already exists in ${input.list}`, { id: existing.id });
+          }
+
+          const rule = await this.rules.add(input);
+          this.logger.info('Runtime rule added', { rule });
+          return json({ success: true, rule }, 201);
+        }
+
+        return methodNotAllowed('GET, POST');
+      }
+
+      if (request.method !== 'GET' && request.method !== 'DELETE') {
+        return methodNotAllowed('GET, DELETE');
+      }
+      const rule = this.rules.get(id);
+      if (!rule) {
+        return this.createErrorResponse(404, `Rule "${id}" not found`);
+      }
+      if (request.method === 'GET') {
+        return json({ rule });
+      }
+
+      await this.rules.delete(id);
+      this.logger.info('Runtime rule removed', { rule });
+      return json({ success: true, message: `Rule "${id}" removed` });
+    } catch (error) {
+      this.logger.logError(error as Error, { api: 'rules', id });
+      return this.createErrorResponse(500, 'Failed to save rules', {
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * 滥用封禁管理API
+   * GET bans 列出当前封禁；GET bans/{ip} 查看封禁；DELETE bans/{ip} 解除封禁
+   */
+  private async handleBansApi(request: Request, ip: string): Promise<Response> {
+    const json = (data: unknown, status = 200) => new Response(JSON.stringify(data, null, 2), {
+      status,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+    if (!ip) {
+      if (request.method !== 'GET') {
+        const response = this.createErrorResponse(405, `Method ${request.method} not allowed`);
+        response.headers.set('Allow', 'GET');
         return response;
-        
-      } finally {
-        await this.concurrencyLimiter.release(clientIP);
       }
+      return json({
+        enabled: this.config.enableAbuseDetection,
+        threshold: this.config.abuseScoreThreshold,
+        durations: this.config.abuseBanDurations,
+        bans: await this.abuseDetector.listBans()
+      });
+    }
+
+    if (request.method !== 'GET' && request.method !== 'DELETE') {
+      const response = this.createErrorResponse(405, `Method ${request.method} not allowed`);
+      response.headers.set('Allow', 'GET, DELETE');
+      return response;
+    }
+    const ban = await this.abuseDetector.getBan(ip);
+    if (!ban) {
+      return this.createErrorResponse(404, `No active ban for ${ip}`);
+    }
+    if (request.method === 'GET') {
+      return json({ ban });
+    }
+
+    await this.abuseDetector.unban(ip);
+    this.logger.info('Client unbanned', { ip, reason: ban.reason });
+    return json({ success: true, message: `Ban for ${ip} removed` });
+  }
+
+  private handleCircuitsApi(request: Request, host: string): Response {
+    const json = (data: unknown, status = 200) => new Response(JSON.stringify(data, null, 2), {
+      status,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+    if (!host) {
+      if (request.method !== 'GET') {
+        const response = this.createErrorResponse(405, `Method ${request.method} not allowed`);
+        response.headers.set('Allow', 'GET');
+        return response;
+      }
+      return json({
+        enabled: this.config.enableCircuitBreaker,
+        ...this.getCircuitBreakerOptions(this.config),
+        circuits: this.circuitBreaker.list()
+      });
+    }
+
+    if (request.method !== 'GET' && request.method !== 'DELETE') {
+      const response = this.createErrorResponse(405, `Method ${request.method} not allowed`);
+      response.headers.set('Allow', 'GET, DELETE');
+      return response;
+    }
+    const circuit = this.circuitBreaker.get(host);
+    if (!circuit) {
+      return this.createErrorResponse(404, `No circuit state for ${host}`);
+    }
+    if (request.method === 'GET') {
+      return json({ circuit });
+    }
+
+    this.circuitBreaker.reset(host);
+    this.logger.info('Circuit reset', { host, state: circuit.state });
+    return json({ success: true, message: `Circuit for ${host} reset` });
+  }
+
+  // 运行时名单变化后重新合并匹配器
+  private applyRuntimeRules(): void {
+    this.config = this.rules.mergeInto(this.config);
+  }
+
+  private buildCorsHeaders(originalHeaders: Headers, origin?: string, profile: ResponseHeaderProfile = 'passthrough'): Headers {
+    const headers = new Headers();
+
+    // 复制原始响应头（除了一些需要过滤的）
+    const skipHeaders = ['access-control-allow-origin', 'access-control-allow-methods',
+                        'access-control-allow-headers', 'access-control-expose-headers',
+                        'access-control-allow-credentials', 'access-control-max-age',
+                        'access-control-allow-private-network',
+                        ...(profile === 'safe' ? UNSAFE_UPSTREAM_RESPONSE_HEADERS : [])];
+
+    for (const [key, value] of originalHeaders.entries()) {
+      if (skipHeaders.includes(key.toLowerCase())) continue;
+      // 多个Set-Cookie分别出现，需要逐个追加
+      if (key.toLowerCase() === 'set-cookie') {
+        headers.append(key, value);
+      } else {
+        headers.set(key, value);
+      }
+    }
+
+    // 设置CORS头
+    const credentials = this.config.corsAllowCredentials;
+    const matcher = this.config.allowedOriginMatcher;
+    const allowAnyOrigin = matcher.size === 0 || matcher.isWildcard;
+
+    if (allowAnyOrigin && !credentials) {
+      headers.set('Access-Control-Allow-Origin', '*');
+    } else if (origin && isOriginAllowed(this.config, origin)) {
+      // 携带凭证时必须回显具体来源，不能使用 *
+      headers.set('Access-Control-Allow-Origin', origin);
+      if (credentials) {
+        headers.set('Access-Control-Allow-Credentials', 'true');
+      }
+    }
+
+    // 来源不是 * 时响应内容随Origin变化，追加到上游已有的Vary中
+    if (!allowAnyOrigin || credentials) {
+      const vary = headers.get('Vary');
+      if (!vary) {
+        headers.set('Vary', 'Origin');
+      } else if (!vary.split(',').some(value => value.trim().toLowerCase() === 'origin')) {
+        headers.set('Vary', `${vary}, Origin`);
+      }
+    }
+
+    headers.set('Access-Control-Allow-Methods', this.config.corsAllowedMethods.join(', '));
+    headers.set('Access-Control-Allow-Headers', this.config.corsAllowedHeaders.join(', '));
+
+    // 携带凭证时 * 不生效，改为列出上游响应的实际头部
+    const exposeAll = this.config.corsExposedHeaders.includes('*');
+    const exposedHeaders = exposeAll && credentials
+      ? Array.from(originalHeaders.keys()).filter(key => !skipHeaders.includes(key.toLowerCase()))
+      : this.config.corsExposedHeaders;
+    if (exposedHeaders.length > 0) {
+      headers.set('Access-Control-Expose-Headers', exposedHeaders.join(', '));
+    }
+    headers.set('Access-Control-Max-Age', String(this.config.corsMaxAge));
+
+    return headers;
+  }
 
-    } catch (error) {
-      // 确保释放并发限制
-      await this.concurrencyLimiter.release(clientIP);
+  // 头部改写规则的模板变量
+  private getHeaderVariables(context: RequestContext, clientIP: string, origin?: string): HeaderTemplateVariables {
+    return { clientIp: clientIP, requestId: context.requestId, origin: origin || '' };
+  }
 
-      // 改进错误处理和日志
-      this.logger.logError(error as Error, {
-        url: request.url,
-        ip: clientIP,
-        requestId: requestId,
-        timestamp: new Date().toISOString()
-      });
+  // 检查客户端密钥的访问范围，不允许时返回错误响应
+  private checkClientKeyScope(clientKey: ClientKey, targetUrl: string, clientIP: string, origin?: string): Response | null {
+    const keyError = clientKey.domains && !clientKey.domains.matches(new URL(targetUrl).hostname)
+      ? 'Target domain not allowed for this client key'
+      : clientKey.origins && (!origin || !clientKey.origins.matches(origin))
+        ? 'Origin not allowed for this client key'
+        : null;
+    if (!keyError) return null;
+    if (this.config.enableStats) this.statsCollector.recordClientKeyRejected(clientKey.record.id);
+    this.recordAbuse(clientIP, detector => detector.record(clientIP, 'invalid_key', keyError));
+    return this.createErrorResponse(403, keyError);
+  }
 
-      if (this.config.enableStats) {
-        this.statsCollector.recordRequest(clientIP, 'error', 500, Date.now() - startTime, false);
-      }
+  /**
+   * 代理WebSocket连接
+   * 与普通请求执行相同的来源、域名、IP、客户端密钥和策略检查，然后按IP限制同时打开的连接数
+   */
+  private async handleWebSocket(
+    request: Request,
+    targetPath: string,
+    clientIP: string,
+    clientKey: ClientKey | null,
+    context: RequestContext
+  ): Promise<Response> {
+    if (!this.config.enableWebSocket) {
+      return this.createErrorResponse(403, 'WebSocket proxying disabled');
+    }
+    if (!request.headers.get('sec-websocket-key')) {
+      return this.createErrorResponse(400, 'Invalid WebSocket handshake');
+    }
 
-      // 避免泄露敏感错误信息
-      const sanitizedMessage = error instanceof Error
-        ? (error.message.includes('ENOTFOUND') ? 'Target host not found' :
-           error.message.includes('ECONNREFUSED') ? 'Connection refused' :
-           error.message.includes('timeout') ? 'Request timeout' :
-           'Proxy error')
-        : 'Unknown error';
+    const startTime = Date.now();
+    const origin = request.headers.get('origin') || undefined;
+    const validation = validateRequest(targetPath, clientIP, this.config, origin);
+    if (!validation.valid) {
+      return this.createBlockedResponse(validation, clientIP);
+    }
 
-      return this.createErrorResponse(500, 'Proxy error', {
-        message: sanitizedMessage
+    const targetUrl = toWebSocketUrl(fixUrl(targetPath));
+    if (!targetUrl) {
+      return this.createErrorResponse(400, 'Unsupported protocol for WebSocket');
+    }
+    context.target = targetUrl;
+
+    const keyError = clientKey && this.checkClientKeyScope(clientKey, targetUrl, clientIP, origin);
+    if (keyError) return keyError;
+
+    const policy = this.config.policyEngine.resolve(targetUrl, origin);
+    context.policyRules = policy.ruleIds;
+    if (policy.allowedMethods && !policy.allowedMethods.includes(request.method)) {
+      this.recordAbuse(clientIP, detector => detector.record(clientIP, 'method_not_allowed', 'Method not allowed'));
+      return this.createErrorResponse(405, `Method ${request.method} not allowed for this target`, {
+        allowedMethods: policy.allowedMethods
       });
     }
-  }
+    const policyRateLimit = policy.rateLimit ? await this.consumePolicyRateLimit(policy.rateLimit.ruleId, clientIP) : null;
+    if (policyRateLimit && !policyRateLimit.allowed) {
+      if (this.config.enableMetrics) this.metrics.recordRateLimited('policy');
+      this.recordAbuse(clientIP, detector => detector.record(clientIP, 'rate_limited', 'Rate limit exceeded'));
+      return this.createRateLimitedResponse(policyRateLimit, { policyRule: policy.rateLimit!.ruleId });
+    }
 
-  // 清理过期缓存
-  private cleanupCache(): void {
-    const now = Date.now();
-    for (const [key, cached] of this.responseCache.entries()) {
-      if (now - cached.timestamp > this.cacheTTL) {
-        this.responseCache.delete(key);
-      }
+    const resolved = await resolveTarget(targetUrl, this.config, this.dnsResolver);
+    if (!resolved.valid) {
+      return this.createBlockedResponse(resolved, clientIP);
     }
-  }
 
-  handlePreflight(request: Request): Response {
-    const origin = request.headers.get('origin');
-    const headers = this.buildCorsHeaders(new Headers(), origin || undefined);
-    
-    // 添加请求的自定义头
-    const requestHeaders = request.headers.get('access-control-request-headers');
-    if (requestHeaders) {
-      headers.set('Access-Control-Allow-Headers', 
-        `${headers.get('Access-Control-Allow-Headers')}, ${requestHeaders}`);
+    const limiter = this.webSocketLimiter;
+    if (!(await limiter.acquire(clientIP))) {
+      if (this.config.enableMetrics) this.metrics.recordConcurrencyRejected('websocket');
+      return this.createErrorResponse(503, 'WebSocket connection limit exceeded', {
+        retryAfter: 5
+      });
     }
-    
-    return new Response(null, {
-      status: 204,
-      headers
-    });
-  }
 
-  handleManagementApi(request: Request, path: string): Response {
-    // API密钥验证（防时序攻击）
-    if (this.config.apiKey) {
-      const authHeader = request.headers.get('authorization');
-      const providedKey = authHeader?.replace('Bearer ', '') ||
-                         new URL(request.url).searchParams.get('key');
+    // 将连接固定到已校验的地址；经过出口代理时通过代理连接同一个地址
+    const domain = new URL(targetUrl).hostname;
+    const target = resolved.address ? { address: resolved.address, port: this.getTargetPort(targetUrl) } : undefined;
+    const egress = this.egressRouter?.route(domain, target)?.acquire();
+    const pinned = !egress && resolved.address && this.pinnedClients
+      ? this.pinnedClients.acquire(resolved.address, this.getTargetPort(targetUrl))
+      : undefined;
+    context.egress = egress?.label;
+    const protocols = (request.headers.get('sec-websocket-protocol') || '')
+      .split(',').map(protocol => protocol.trim()).filter(Boolean);
+    const headers = new Headers(buildWebSocketHeaders(request.headers));
+    applyHeaderModifications(headers, policy.requestHeaders, this.getHeaderVariables(context, clientIP, origin));
+    headers.set('X-Request-Id', context.requestId);
+
+    let closed!: (result: { bytesIn: number; bytesOut: number }) => void;
+    const webSocket = new Promise<{ bytesIn: number; bytesOut: number }>(resolve => {
+      closed = resolve;
+    });
 
-      if (!providedKey || !this.constantTimeCompare(providedKey, this.config.apiKey)) {
-        return this.createErrorResponse(401, 'Invalid API key');
+    let response: Response;
+    try {
+      response = await this.webSockets.open(request, targetUrl, {
+        protocols,
+        headers: Object.fromEntries(headers.entries()),
+        client: egress?.client ?? pinned?.client,
+        connectTimeout: policy.timeout,
+        idleTimeout: this.config.wsIdleTimeout,
+        maxMessageSize: this.config.wsMaxMessageSize,
+        onClose: ({ bytesIn, bytesOut, code, reason }) => {
+          limiter.release(clientIP).catch(() => {});
+          pinned?.release();
+          egress?.release(false);
+          this.logger.debug('WebSocket connection closed', {
+            requestId: context.requestId, target: targetUrl, code, reason, bytesIn, bytesOut
+          });
+          closed({ bytesIn, bytesOut });
+        }
+      });
+    } catch (error) {
+      await limiter.release(clientIP);
+      pinned?.release();
+      // 无法区分代理故障和上游拒绝握手，不计入代理的健康状态
+      egress?.release(null);
+      this.logger.warn('WebSocket upstream connection failed', {
+        requestId: context.requestId,
+        target: targetUrl,
+        error: error instanceof Error ? error.message : error
+      });
+      if (this.config.enableStats) {
+        this.statsCollector.recordRequest(clientIP, domain, 502, Date.now() - startTime, false, policy.ruleIds, clientKey?.record.id);
       }
+      return this.createErrorResponse(502, 'Failed to connect to upstream WebSocket');
     }
 
-    const apiPath = path.substring(5); // 移除 '_api/' 前缀
+    context.webSocket = webSocket;
+    if (this.config.enableStats) {
+      this.statsCollector.recordRequest(clientIP, domain, 101, Date.now() - startTime, true, policy.ruleIds, clientKey?.record.id);
+    }
+    return response;
+  }
 
-    switch (apiPath) {
-      case 'stats':
-        if (!this.config.enableStats) {
-          return this.createErrorResponse(404, 'Stats disabled');
-        }
-        const stats = this.statsCollector.getStats();
-        const rateLimiterStats = this.rateLimiter.getStats();
-        const concurrencyStats = this.concurrencyLimiter.getStats();
-        
-        return new Response(JSON.stringify({
-          stats: {
-            ...stats,
-            topDomains: Object.fromEntries(stats.topDomains),
-            topIPs: Object.fromEntries(stats.topIPs),
-            statusCodes: Object.fromEntries(stats.statusCodes),
-            hourlyStats: stats.hourlyStats
-          },
-          rateLimiter: rateLimiterStats,
-          concurrency: {
-            totalCount: concurrencyStats.totalCount,
-            activeIPs: concurrencyStats.perIpCount.size
-          },
-          cache: {
-            size: this.responseCache.size
-          },
-          uptime: Date.now() - stats.startTime,
-          version: '1.3.0'
-        }, null, 2), {
-          headers: { 'Content-Type': 'application/json' }
-        });
+  /**
+   * 执行代理请求并手动跟随重定向
+   * 每一跳都重新执行域名/IP/端口策略检查和DNS校验，防止通过重定向绕过安全限制
+   */
+  private async proxyWithRedirects(
+    request: Request,
+    targetUrl: string,
+    clientIP: string,
+    policy: TargetPolicy,
+    context: RequestContext,
+    origin?: string,
+    validators?: Record<string, string>
+  ): Promise<
+    // passthrough 表示返回的是Location已改写的3xx响应
+    | { response: Response; finalUrl: string; redirects: { url: string; status: number }[]; passthrough?: boolean }
+    | { rejected: ResolvedTarget }
+  > {
+    let headers = buildProxyHeaders(request.headers);
+    if (hasHeaderRewrites(policy.requestHeaders)) {
+      const modified = new Headers(headers);
+      applyHeaderModifications(modified, policy.requestHeaders, this.getHeaderVariables(context, clientIP, origin));
+      headers = Object.fromEntries(modified.entries());
+    }
+    if (validators) {
+      // 重新验证缓存时用缓存条目的验证器代替客户端自己的条件请求头
+      headers = Object.fromEntries(Object.entries(headers)
+        .filter(([name]) => !['if-none-match', 'if-modified-since'].includes(name.toLowerCase())));
+      Object.assign(headers, validators);
+    }
+    // 请求ID和追踪头部由代理设置，不透传客户端的值
+    headers = Object.fromEntries(Object.entries(headers)
+      .filter(([name]) => !['x-request-id', 'traceparent', 'tracestate'].includes(name.toLowerCase())));
+    headers['X-Request-Id'] = context.requestId;
 
-      case 'health':
-        return new Response(JSON.stringify({
-          status: 'healthy',
-          timestamp: new Date().toISOString(),
-          version: '1.3.0',
-          memory: Deno.memoryUsage ? {
-            rss: Deno.memoryUsage().rss,
-            heapTotal: Deno.memoryUsage().heapTotal,
-            heapUsed: Deno.memoryUsage().heapUsed
-          } : undefined
-        }), {
-          headers: { 'Content-Type': 'application/json' }
-        });
+    let currentUrl = targetUrl;
+    let current = {
+      method: request.method,
+      headers,
+      // 只有可能重试时才缓存请求体以便重新发送，超过 RETRY_MAX_BODY_SIZE 的请求体不缓存也不重试
+      body: createRequestBody(request, policy.maxBodySize,
+        policy.retries > 0 && isRetryableRequest(request.method, request.headers, this.config) ? this.config.retryMaxBodySize : 0)
+    };
+    const redirects: { url: string; status: number }[] = [];
 
-      case 'config':
-        // 返回脱敏的配置信息
-        const safeConfig = { ...this.config };
-        if (safeConfig.apiKey) safeConfig.apiKey = '***';
-        if (safeConfig.logWebhook) safeConfig.logWebhook = '***';
-        
-        return new Response(JSON.stringify(safeConfig, null, 2), {
-          headers: { 'Content-Type': 'application/json' }
-        });
+    while (true) {
+      const isRedirectHop = redirects.length > 0;
 
-      case 'reset-stats':
-        if (!this.config.enableStats) {
-          return this.createErrorResponse(404, 'Stats disabled');
+      if (isRedirectHop) {
+        const validation = validateRequest(currentUrl, clientIP, this.config, origin);
+        if (!validation.valid) {
+          return { rejected: { ...validation, reason: `Redirect blocked: ${validation.reason}` } };
         }
-        this.statsCollector.reset();
-        return new Response(JSON.stringify({
-          success: true,
-          message: 'Statistics reset successfully'
-        }), {
-          headers: { 'Content-Type': 'application/json' }
-        });
+      }
 
-      case 'clear-cache':
-        const cacheSize = this.responseCache.size;
-        this.responseCache.clear();
-        return new Response(JSON.stringify({
-          success: true,
-          message: `Cache cleared successfully (${cacheSize} entries)`
-        }), {
-          headers: { 'Content-Type': 'application/json' }
-        });
+      // 解析目标地址并检查是否指向内网
+      const resolved = await resolveTarget(currentUrl, this.config, this.dnsResolver);
+      if (!resolved.valid) {
+        return { rejected: isRedirectHop ? { ...resolved, reason: `Redirect blocked: ${resolved.reason}` } : resolved };
+      }
 
-      case 'reload-config':
-        try {
-          const newConfig = loadConfig();
+      // 目标主机熔断时快速失败
+      const circuit = this.config.enableCircuitBreaker ? this.circuitBreaker.acquire(new URL(currentUrl).host) : undefined;
 
-          // 验证新配置的有效性
-          if (newConfig.port < 1 || newConfig.port > 65535) {
-            throw new Error(`Invalid port: ${newConfig.port}`);
-          }
-          if (newConfig.rateLimit < 0 || newConfig.concurrentLimit < 0) {
-            throw new Error('Rate limit and concurrent limit must be non-negative');
-          }
+      // 将连接固定到已校验的地址；经过出口代理时通过代理连接同一个地址
+      const hostname = new URL(currentUrl).hostname;
+      const target = resolved.address ? { address: resolved.address, port: this.getTargetPort(currentUrl) } : undefined;
+      const egress = this.egressRouter?.route(hostname, target) ?? undefined;
+      const pinned = !egress && resolved.address && this.pinnedClients
+        ? this.pinnedClients.acquire(resolved.address, this.getTargetPort(currentUrl))
+        : undefined;
+
+      let response: Response;
+      const upstreamStart = performance.now();
+      const fetchSpan = context.span.startChild('upstream fetch', 'internal', {
+        'url.full': currentUrl,
+        'ciao_cors.redirect_hop': redirects.length
+      });
+      try {
+        response = await performProxy(request, currentUrl, this.config, {
+          client: pinned?.client,
+          connectTimedOut: pinned?.timedOutSince,
+          timeout: policy.timeout,
+          maxRetries: policy.retries,
+          retryBudget: this.retryBudget,
+          circuit,
+          egress,
+          onEgress: label => {
+            context.egress = label;
+          },
+          signal: request.signal,
+          onRetry: reason => {
+            context.retries++;
+            if (this.config.enableMetrics) this.metrics.recordRetry(reason);
+          },
+          onTimeout: phase => {
+            if (this.config.enableMetrics) this.metrics.recordUpstreamTimeout(phase);
+          },
+          logger: this.logger,
+          requestId: context.requestId,
+          span: fetchSpan,
+          tracestate: context.tracestate,
+          ...current
+        });
+      } catch (error) {
+        circuit?.release();
+        pinned?.release();
+        fetchSpan.end(error);
+        if (this.config.enableMetrics) this.metrics.recordUpstream(hostname, null, (performance.now() - upstreamStart) / 1000);
+        throw error;
+      }
+      circuit?.release();
+      fetchSpan.setAttribute('http.response.status_code', response.status);
+      fetchSpan.end(response.status >= 500 ? `HTTP ${response.status}` : undefined);
+      if (this.config.enableMetrics) {
+        this.metrics.recordUpstream(hostname, response.status, (performance.now() - upstreamStart) / 1000);
+      }
 
-          // 清理旧的资源
-          this.logger.cleanup();
-          this.rateLimiter.destroy();
+      const location = response.headers.get('location');
+      if (!REDIRECT_STATUSES.includes(response.status) || !location) {
+        const body = pinned ? onBodyComplete(response.body, () => pinned.release()) : response.body;
+        return {
+          response: new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers }),
+          finalUrl: currentUrl,
+          redirects
+        };
+      }
 
-          // 更新配置
-          this.config = newConfig;
+      let nextUrl: URL;
+      try {
+        nextUrl = new URL(location, currentUrl);
+      } catch {
+        await response.body?.cancel();
+        pinned?.release();
+        return { rejected: { valid: false, reason: 'Invalid redirect location', status: 502 } };
+      }
 
-          // 重新初始化所有组件
-          this.rateLimiter = new RateLimiter(newConfig.rateLimitWindow, newConfig.rateLimit);
-          this.concurrencyLimiter = new ConcurrencyLimiter(newConfig.concurrentLimit, newConfig.totalConcurrentLimit);
-          this.logger = new Logger(newConfig.enableLogging, newConfig.logWebhook);
+      // 透传模式：把3xx直接返回给客户端，Location改写为经过代理的地址
+      // 需要重新发送请求体（307/308）但请求体不能重放时，同样交给客户端跟随
+      const nextRequest = buildRedirectRequest(response.status, currentUrl, nextUrl.toString(), current);
+      if (this.config.redirectMode === 'passthrough' || (nextRequest.body && !nextRequest.body.canReplay)) {
+        const headers = new Headers(response.headers);
+        headers.set('Location', `${this.getProxyOrigin(request)}/${nextUrl.toString()}`);
+        const body = pinned ? onBodyComplete(response.body, () => pinned.release()) : response.body;
+        return {
+          response: new Response(body, { status: response.status, statusText: response.statusText, headers }),
+          finalUrl: currentUrl,
+          redirects,
+          passthrough: true
+        };
+      }
 
-          return new Response(JSON.stringify({
-            success: true,
-            message: 'Configuration reloaded successfully',
-            timestamp: new Date().toISOString(),
-            config: {
-              port: newConfig.port,
-              enableStats: newConfig.enableStats,
-              enableLogging: newConfig.enableLogging,
-              rateLimit: newConfig.rateLimit,
-              concurrentLimit: newConfig.concurrentLimit,
-              totalConcurrentLimit: newConfig.totalConcurrentLimit,
-              maxUrlLength: newConfig.maxUrlLength,
-              timeout: newConfig.timeout,
-              logWebhook: newConfig.logWebhook ? '***' : undefined,
-              allowedOrigins: newConfig.allowedOrigins.length,
-              allowedDomains: newConfig.allowedDomains.length,
-              blockedIPs: newConfig.blockedIPs.length,
-              blockedDomains: newConfig.blockedDomains.length
-            }
-          }), {
-            headers: { 'Content-Type': 'application/json' }
-          });
-        } catch (error) {
-          return new Response(JSON.stringify({
-            success: false,
-            error: 'Failed to reload configuration',
-            message: error instanceof Error ? error.message : 'Unknown error',
-            timestamp: new Date().toISOString()
-          }), {
-            status: 500,
-            headers: { 'Content-Type': 'application/json' }
-          });
-        }
+      // 丢弃重定向响应体并释放连接
+      await response.body?.cancel();
+      pinned?.release();
 
-      case 'performance':
-        if (!this.config.enableStats) {
-          return this.createErrorResponse(404, 'Stats disabled');
-        }
-        const performanceData = this.statsCollector.getPerformanceData();
-        return new Response(JSON.stringify(performanceData, null, 2), {
-          headers: { 'Content-Type': 'application/json' }
-        });
+      if (redirects.length >= this.config.maxRedirects) {
+        return { rejected: { valid: false, reason: 'Too many redirects', status: 502 } };
+      }
+      if (nextUrl.protocol !== 'http:' && nextUrl.protocol !== 'https:') {
+        return { rejected: { valid: false, reason: 'Redirect blocked: Unsupported protocol', ssrf: true } };
+      }
 
-      case 'version':
-        return new Response(JSON.stringify({
-          version: '1.3.0',
-          runtime: `Deno ${Deno.version.deno}`,
-          typescript: Deno.version.typescript,
-          v8: Deno.version.v8
-        }), {
-          headers: { 'Content-Type': 'application/json' }
-        });
+      redirects.push({ url: currentUrl, status: response.status });
+      current = nextRequest;
+      currentUrl = nextUrl.toString();
+    }
+  }
 
-      default:
-        return this.createErrorResponse(404, 'API endpoint not found');
+  /**
+   * 用缓存条目构建响应，客户端的条件请求匹配时返回304
+   */
+  private createCachedResponse(
+    request: Request,
+    entry: CachedResponse,
+    age: number,
+    outcome: CacheOutcome,
+    policy: TargetPolicy,
+    variables: HeaderTemplateVariables,
+    origin?: string
+  ): Response {
+    const headers = this.buildCorsHeaders(new Headers(entry.headers), origin, policy.responseHeaderProfile);
+    applyHeaderModifications(headers, policy.responseHeaders, variables);
+    headers.set('Age', String(Math.floor(age / 1000)));
+    headers.set('X-Cache', outcome);
+
+    if (isNotModified(request, headers)) {
+      headers.delete('content-length');
+      return new Response(null, { status: 304, headers });
     }
+    return new Response(entry.body.byteLength > 0 ? entry.body : null, {
+      status: entry.status,
+      statusText: entry.statusText,
+      headers
+    });
   }
 
-  private buildCorsHeaders(originalHeaders: Headers, origin?: string): Headers {
-    const headers = new Headers();
+  // 获取代理服务自身的访问地址（考虑反向代理转发的头部）
+  private getProxyOrigin(request: Request): string {
+    const url = new URL(request.url);
+    const forwardedHost = request.headers.get('x-forwarded-host')?.split(',')[0]?.trim();
+    const forwardedProto = request.headers.get('x-forwarded-proto')?.split(',')[0]?.trim();
+    return `${forwardedProto || url.protocol.replace(':', '')}://${forwardedHost || url.host}`;
+  }
 
-    // 复制原始响应头（除了一些需要过滤的）
-    const skipHeaders = ['access-control-allow-origin', 'access-control-allow-methods', 
-                        'access-control-allow-headers', 'access-control-expose-headers'];
-    
-    for (const [key, value] of originalHeaders.entries()) {
-      if (!skipHeaders.includes(key.toLowerCase())) {
-        headers.set(key, value);
-      }
+  /**
+   * 构建安全策略拦截的响应，并记录拦截原因
+   */
+  private createBlockedResponse(result: ResolvedTarget, clientIP: string): Response {
+    const reason = result.reason || 'Request blocked';
+    if (this.config.enableStats && !result.status) {
+      this.statsCollector.recordBlocked(reason);
     }
-
-    // 设置CORS头
-    if (this.config.allowedOrigins.length > 0) {
-      if (this.config.allowedOrigins.includes('*')) {
-        headers.set('Access-Control-Allow-Origin', '*');
-      } else if (origin && this.config.allowedOrigins.includes(origin)) {
-        headers.set('Access-Control-Allow-Origin', origin);
-        headers.set('Vary', 'Origin');
-      }
-    } else {
-      headers.set('Access-Control-Allow-Origin', '*');
+    if (this.config.enableMetrics && !result.status) {
+      this.metrics.recordBlocked();
+    }
+    if (!result.status) {
+      this.recordAbuse(clientIP, detector => detector.record(clientIP, result.ssrf ? 'ssrf' : 'rejected', reason));
     }
+    return this.createErrorResponse(result.status || 403, reason, result.ssrf ? { blockedBy: 'ssrf-protection' } : undefined);
+  }
+
+  // 获取目标URL的端口，未指定时使用协议默认端口
+  private getTargetPort(targetUrl: string): number {
+    const url = new URL(targetUrl);
+    return url.port ? parseInt(url.port) : (url.protocol === 'http:' || url.protocol === 'ws:' ? 80 : 443);
+  }
 
-    headers.set('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
-    headers.set('Access-Control-Allow-Headers', 
-      'Accept, Authorization, Cache-Control, Content-Type, DNT, If-Modified-Since, Keep-Alive, Origin, User-Agent, X-Requested-With, Token, x-access-token');
-    headers.set('Access-Control-Expose-Headers', '*');
-    headers.set('Access-Control-Max-Age', '86400');
+  // 未识别的客户端（没有连接地址时所有请求共用 unknown）和可信调用方不参与滥用检测，避免误封共用的地址
+  private detectsAbuse(ip: string): boolean {
+    return this.config.enableAbuseDetection && ip !== 'unknown' && !this.config.trustedCallerMatcher.matches(ip);
+  }
 
-    return headers;
+  // 在后台记录可疑行为，不增加请求延迟；触发封禁时记录日志
+  private recordAbuse(ip: string, record: (detector: AbuseDetector) => Promise<AbuseBan | null>): void {
+    if (!this.detectsAbuse(ip)) return;
+    record(this.abuseDetector).then(ban => {
+      if (ban) this.logger.warn('Client temporarily banned', { ...ban });
+    }).catch(error => {
+      this.logger.error('Failed to record abuse', { ip, error: error instanceof Error ? error.message : error });
+    });
+  }
+
+  private createRateLimitedResponse(result: RateLimitResult, details?: Record<string, unknown>): Response {
+    const response = this.createErrorResponse(429, 'Rate limit exceeded', {
+      ...details,
+      retryAfter: Math.max(1, Math.ceil(result.retryAfterMs / 1000))
+    });
+    applyRateLimitHeaders(response.headers, result);
+    return response;
   }
 
   createErrorResponse(code: number, message: string, details?: any): Response {
@@ -1355,11 +8963,31 @@ class CiaoCorsServer {
     });
   }
 
-  private getClientIP(request: Request): string {
-    return request.headers.get('cf-connecting-ip') ||
-           request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() ||
-           request.headers.get('x-real-ip') ||
-           'unknown';
+  /**
+   * 客户端IP：默认为连接的对端地址，对端在 TRUSTED_PROXIES 中时才采用转发头部
+   * X-Forwarded-For 从右往左跳过可信代理，取第一个不可信的地址，客户端自己填写的值无法冒充
+   * 没有对端地址（按请求调用的环境未提供）时为 unknown
+   */
+  private getClientIP(request: Request, remoteAddr?: string): string {
+    if (!remoteAddr) return 'unknown';
+    const trustedProxies = this.config.trustedProxyMatcher;
+    if (!trustedProxies.matches(remoteAddr)) return remoteAddr;
+
+    const normalize = (value: string | null | undefined): string | null => {
+      const address = value ? parseIPAddress(value) : null;
+      return address ? formatIPAddress(address) : null;
+    };
+    const connectingIP = normalize(request.headers.get('cf-connecting-ip'));
+    if (connectingIP) return connectingIP;
+
+    const forwarded = (request.headers.get('x-forwarded-for') || '').split(',').map(normalize);
+    for (let i = forwarded.length - 1; i >= 0; i--) {
+      const address = forwarded[i];
+      if (!address) break;
+      if (i === 0 || !trustedProxies.matches(address)) return address;
+    }
+
+    return normalize(request.headers.get('x-real-ip')) || remoteAddr;
   }
 
   // 常量时间字符串比较，防止时序攻击
@@ -1376,76 +9004,161 @@ class CiaoCorsServer {
     return result === 0;
   }
 
-  // 生成缓存键，包含关键请求头以避免冲突
-  private generateCacheKey(request: Request, targetUrl: string): string {
-    const method = request.method;
-    const userAgent = request.headers.get('user-agent') || '';
-    const accept = request.headers.get('accept') || '';
-    const acceptLanguage = request.headers.get('accept-language') || '';
-
-    // 创建更安全的哈希，避免冲突
-    const keyData = `${method}:${targetUrl}:${userAgent}:${accept}:${acceptLanguage}`;
-
-    // 使用更安全的哈希算法避免冲突
-    let hash = 0;
-    let hash2 = 0;
-    let hash3 = 0; // 三重哈希进一步减少冲突
-
-    for (let i = 0; i < keyData.length; i++) {
-      const char = keyData.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // 转换为32位整数
-      hash2 = ((hash2 << 3) - hash2) + char;
-      hash2 = hash2 & hash2;
-      hash3 = ((hash3 << 7) - hash3) + char * (i + 1); // 位置相关哈希
-      hash3 = hash3 & hash3;
+  /**
+   * 为设置了rateLimit的策略规则创建独立的限流器（窗口与全局限流一致）
+   */
+  private createPolicyRateLimiters(config: Config): Map<string, RateLimiter> {
+    const limiters = new Map<string, RateLimiter>();
+    for (const { id, limit } of config.policyEngine.getRateLimitedRules()) {
+      limiters.set(id, new RateLimiter(this.store, `policy:${id}`, config.rateLimitWindow, limit, config.rateLimitAlgorithm));
     }
+    return limiters;
+  }
 
-    // 使用三重哈希、长度和校验和确保唯一性
-    const checksum = keyData.length + (keyData.charCodeAt(0) || 0) + (keyData.charCodeAt(keyData.length - 1) || 0);
-    return `${method}:${Math.abs(hash).toString(36)}:${Math.abs(hash2).toString(36)}:${Math.abs(hash3).toString(36)}:${checksum.toString(36)}`;
+  private async consumePolicyRateLimit(ruleId: string, clientIP: string): Promise<RateLimitResult | null> {
+    const limiter = this.policyRateLimiters.get(ruleId);
+    return limiter ? await limiter.consume(clientIP) : null;
   }
   
-  // 重载配置
-  reloadConfig(): void {
+  /**
+   * 重载配置（管理API、SIGHUP和配置文件变更共用）
+   * 新配置校验失败时抛出ConfigError，旧配置和组件保持不变
+   */
+  reloadConfig(): Config {
     try {
       const newConfig = loadConfig();
 
-      // 验证新配置
-      if (newConfig.port < 1 || newConfig.port > 65535) {
-        throw new Error(`Invalid port: ${newConfig.port}`);
+      if (newConfig.port !== this.config.port) {
+        this.logger.warn('Port change requires a restart to take effect', { from: this.config.port, to: newConfig.port });
+      }
+      // 管理端口在启动时监听，重启前沿用原来的设置，避免管理API从两个端口都消失
+      if (newConfig.adminPort !== this.config.adminPort) {
+        this.logger.warn('Admin port change requires a restart to take effect',
+          { from: this.config.adminPort ?? null, to: newConfig.adminPort ?? null });
+        newConfig.adminPort = this.config.adminPort;
+      }
+      if (newConfig.stateBackend !== this.config.stateBackend || newConfig.kvPath !== this.config.kvPath) {
+        this.logger.warn('State backend change requires a restart to take effect');
+      }
+      if (newConfig.cacheDir !== this.responseCache.diskDir) {
+        this.logger.warn('Cache directory change requires a restart to take effect');
       }
 
-      // 清理旧资源
-      this.logger.cleanup();
-      this.rateLimiter.destroy();
-
-      // 更新配置
-      this.config = newConfig;
+      // 先创建全部新组件，成功后再替换，保证重载是原子的
+      // 密钥文件路径未变时保留现有密钥（未配置文件时密钥只存在于内存中）
+      const clientKeys = newConfig.clientKeysFile !== this.clientKeys.path
+        ? new ClientKeyStore(newConfig.clientKeysFile, this.store, newConfig.rateLimitWindow, newConfig.rateLimitAlgorithm)
+        : this.clientKeys;
+      // 限流状态保存在共享存储中，重建组件不会清空已有计数
+      const rateLimiter = new RateLimiter(this.store, 'ip', newConfig.rateLimitWindow, newConfig.rateLimit,
+        newConfig.rateLimitAlgorithm);
+      const policyRateLimiters = this.createPolicyRateLimiters(newConfig);
+      const logger = new Logger(newConfig, this.logger);
+      const tracer = newConfig.otlpEndpoint !== this.config.otlpEndpoint ? new Tracer(newConfig.otlpEndpoint) : this.tracer;
+      const dnsResolver = new DnsResolver(newConfig.dnsCacheTTL, Math.min(newConfig.timeout, 5000));
+      // 规则文件路径未变时保留现有的运行时名单
+      const rules = newConfig.rulesFile !== this.rules.path
+        ? new RuntimeRuleStore(newConfig.rulesFile, () => this.applyRuntimeRules())
+        : this.rules;
+
+      const oldLogger = this.logger;
+      const oldTracer = this.tracer;
+      const oldClientKeys = this.clientKeys;
+      const oldRules = this.rules;
+
+      this.rules = rules;
+      this.config = rules.mergeInto(newConfig);
+      this.clientKeys = clientKeys;
+      this.clientKeys.configureRateLimit(newConfig.rateLimitWindow, newConfig.rateLimitAlgorithm);
+      this.rateLimiter = rateLimiter;
+      this.policyRateLimiters = policyRateLimiters;
+      // 并发限制器保留本实例持有的名额，只更新上限
+      this.concurrencyLimiter.configure(newConfig.concurrentLimit, newConfig.totalConcurrentLimit);
+      this.webSocketLimiter.configure(newConfig.wsMaxConnectionsPerIP, newConfig.wsMaxConnections);
+      this.logger = logger;
+      this.tracer = tracer;
+      this.dnsResolver = dnsResolver;
+      this.abuseDetector.configure(newConfig.abuseScoreThreshold, newConfig.abuseBanDurations);
+      this.retryBudget.configure(newConfig.retryBudgetPercent, newConfig.retryBudgetMin);
+      this.circuitBreaker.configure(this.getCircuitBreakerOptions(newConfig));
+      this.pinnedClients?.configure(newConfig.upstreamConnectTimeout);
+      this.egressRouter?.configure(newConfig.egressProxies, newConfig.egressFailureThreshold,
+        newConfig.egressUnhealthyDuration, newConfig.upstreamConnectTimeout);
+      this.metrics.setMaxDomains(newConfig.metricsMaxDomains);
+      this.responseCache.configure(newConfig.cacheMaxBytes, newConfig.cacheMaxEntrySize, newConfig.cacheDiskMaxBytes,
+        newConfig.cacheDiskMaxEntrySize);
+
+      // 清理旧资源（旧日志器在后台写出剩余日志）
+      oldLogger.cleanup().catch(() => {});
+      if (oldTracer !== tracer) oldTracer.cleanup();
+      if (oldClientKeys !== clientKeys) oldClientKeys.destroy();
+      if (oldRules !== rules) oldRules.destroy();
+
+      this.logger.info('Configuration reloaded successfully');
+      return newConfig;
+    } catch (error) {
+      this.logger.error('Failed to reload configuration', { error: error instanceof Error ? error.message : error });
+      throw error;
+    }
+  }
 
-      // 重新初始化组件
-      this.rateLimiter = new RateLimiter(newConfig.rateLimitWindow, newConfig.rateLimit);
-      this.concurrencyLimiter = new ConcurrencyLimiter(newConfig.concurrentLimit, newConfig.totalConcurrentLimit);
-      this.logger = new Logger(newConfig.enableLogging, newConfig.logWebhook);
+  /**
+   * 监听配置文件变化并自动重载
+   * 监听所在目录而不是文件本身，以兼容编辑器"写临时文件再重命名"的保存方式
+   */
+  async watchConfigFile(path: string): Promise<void> {
+    const absolutePath = decodeURIComponent(new URL(path, `file://${Deno.cwd()}/`).pathname);
+    const directory = absolutePath.substring(0, absolutePath.lastIndexOf('/')) || '/';
 
-      console.log("✅ Configuration reloaded successfully");
+    let debounceTimer: number | null = null;
+    try {
+      this.configWatcher = Deno.watchFs(directory, { recursive: false });
+      this.logger.info('Watching config file', { path: absolutePath });
+
+      for await (const event of this.configWatcher) {
+        if (event.kind === 'access' || !event.paths.includes(absolutePath)) continue;
+
+        // 合并短时间内的多次写入事件
+        if (debounceTimer !== null) clearTimeout(debounceTimer);
+        debounceTimer = setTimeout(() => {
+          debounceTimer = null;
+          if (this.isDestroyed) return;
+          this.logger.info('Config file changed, reloading configuration');
+          try {
+            this.reloadConfig();
+          } catch {
+            // 错误已在reloadConfig中输出，继续使用旧配置
+          }
+        }, 300) as unknown as number;
+      }
     } catch (error) {
-      console.error("❌ Failed to reload configuration:", error);
-      throw error;
+      if (!this.isDestroyed) {
+        this.logger.error('Config file watcher stopped', { error: error instanceof Error ? error.message : error });
+      }
+    } finally {
+      if (debounceTimer !== null) clearTimeout(debounceTimer);
     }
   }
 
-  // 清理资源
-  cleanup(): void {
+  // 清理资源，等待日志最后一次写出
+  async cleanup(): Promise<void> {
     this.isDestroyed = true;
-    this.logger.cleanup();
-    this.rateLimiter.destroy();
-    this.statsCollector.destroy();
-    if (this.cacheCleanupTimer !== null) {
-      clearInterval(this.cacheCleanupTimer);
-      this.cacheCleanupTimer = null;
-    }
-    this.responseCache.clear();
+    this.tracer.cleanup();
+    this.policyRateLimiters.clear();
+    this.concurrencyLimiter.destroy();
+    this.webSocketLimiter.destroy();
+    this.clientKeys.destroy();
+    this.rules.destroy();
+    this.circuitBreaker.destroy();
+    await this.webSockets.destroy();
+    await this.statsCollector.destroy();
+    this.responseCache.destroy();
+    this.pinnedClients?.destroy();
+    this.egressRouter?.destroy();
+    this.configWatcher?.close();
+    this.configWatcher = null;
+    this.store.close();
+    await this.logger.cleanup();
   }
 }
 
@@ -1455,19 +9168,28 @@ class CiaoCorsServer {
  * 支持Deno Deploy和本地运行
  */
 async function main() {
-  const config = loadConfig();
-  const server = new CiaoCorsServer();
+  let config: Config;
+  let server: CiaoCorsServer;
+  try {
+    config = loadConfig();
+    server = new CiaoCorsServer(config, await createStateStore(config));
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    Deno.exit(1);
+  }
 
   console.log(`
 ====================================================
   🚀 CIAO-CORS Server v1.3.0
 ====================================================
-  📌 Port: ${config.port}
+  📌 Port: ${config.port}${config.adminPort !== undefined ? ` (admin: ${config.adminPort})` : ''}
   📊 Stats: ${config.enableStats ? 'enabled' : 'disabled'}
   📝 Logging: ${config.enableLogging ? 'enabled' : 'disabled'}
   ⏱️ Rate limit: ${config.rateLimit} requests per ${config.rateLimitWindow / 1000}s
   🔄 Concurrent limit: ${config.concurrentLimit} per IP, ${config.totalConcurrentLimit} total
   🔒 API key: ${config.apiKey ? 'configured' : 'not set'}
+  🗄️ State backend: ${config.stateBackend}${config.stateBackend === 'kv' && config.kvPath ? ` (${config.kvPath})` : ''}
+  🔑 Client keys: ${config.requireClientKey ? 'required' : 'optional'}${config.clientKeysFile ? ` (${config.clientKeysFile})` : ''}
   🛡️ Header validation: ${config.requireHeaders ? 'enabled' : 'disabled'}
 ====================================================
   `);
@@ -1479,10 +9201,15 @@ async function main() {
     console.log(`🚫 Domain blacklist: ${config.blockedDomains.length} domains`);
   }
 
+  if (config.configFile) {
+    console.log(`📄 Config file: ${config.configFile}`);
+    server.watchConfigFile(config.configFile);
+  }
+
   // 捕获退出信号
-  const handleShutdown = () => {
+  const handleShutdown = async () => {
     console.log("💤 Shutting down gracefully...");
-    server.cleanup();
+    await server.cleanup();
     Deno.exit(0);
   };
 
@@ -1505,10 +9232,24 @@ async function main() {
     }
   }
 
-  const handler = (request: Request) => server.handleRequest(request);
+  const handler = (request: Request, info: Deno.ServeHandlerInfo) =>
+    server.handleRequest(request, false, (info.remoteAddr as Deno.NetAddr).hostname);
 
   // 启动HTTP服务器
   try {
+    // 管理端口与代理端口不同源，被代理的页面无法借用控制台会话
+    if (config.adminPort !== undefined) {
+      console.log(`🔐 Starting admin server on port ${config.adminPort}...`);
+      Deno.serve({
+        port: config.adminPort,
+        onError: (error) => {
+          console.error('Admin server error:', error);
+          return new Response('Internal Server Error', { status: 500 });
+        }
+      }, (request: Request, info: Deno.ServeHandlerInfo) =>
+        server.handleRequest(request, true, (info.remoteAddr as Deno.NetAddr).hostname));
+    }
+
     console.log(`🌐 Starting server on port ${config.port}...`);
     await Deno.serve({
       port: config.port,
@@ -1526,37 +9267,68 @@ async function main() {
   }
 }
 
+// Deno Deploy等按请求调用的环境中复用同一个服务实例
+let sharedServer: Promise<CiaoCorsServer> | null = null;
+
 /**
  * Deno Deploy兼容的默认导出
+ * 首次请求时创建服务实例，之后的请求共用；状态后端为kv时多个实例共享限额和统计
  */
 export default {
-  async fetch(request: Request, env: any, ctx: any): Promise<Response> {
-    // 为Deno Deploy环境设置环境变量
-    if (env) {
-      for (const [key, value] of Object.entries(env)) {
-        try {
-          Deno.env.set(key, String(value));
-        } catch {
-          // Deno Deploy可能不支持设置环境变量，忽略错误
+  async fetch(request: Request, env: any): Promise<Response> {
+    // deno serve 和 Deno Deploy 传入的第二个参数是连接信息，其中有客户端地址
+    const info = env && typeof env === 'object' && 'remoteAddr' in env ? env as Deno.ServeHandlerInfo : undefined;
+
+    if (!sharedServer) {
+      // 为Deno Deploy环境设置环境变量
+      if (env && !info) {
+        for (const [key, value] of Object.entries(env)) {
+          try {
+            Deno.env.set(key, String(value));
+          } catch {
+            // Deno Deploy可能不支持设置环境变量，忽略错误
+          }
         }
       }
-    }
 
-    const server = new CiaoCorsServer();
+      sharedServer = (async () => {
+        const config = loadConfig();
+        return new CiaoCorsServer(config, await createStateStore(config));
+      })();
+    }
 
-    // 如果提供了ctx，注册请求完成后的清理函数
-    if (ctx && typeof ctx.waitUntil === 'function') {
-      ctx.waitUntil(async () => {
-        // 延迟一段时间再清理，确保请求处理完毕
-        await new Promise(r => setTimeout(r, 100));
-        server.cleanup();
+    let server: CiaoCorsServer;
+    try {
+      server = await sharedServer;
+    } catch (error) {
+      // 初始化失败时下次请求重试
+      sharedServer = null;
+      console.error(error instanceof Error ? error.message : error);
+      return new Response(JSON.stringify({ error: true, code: 500, message: 'Server initialization failed' }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
       });
     }
 
-    return server.handleRequest(request);
+    return server.handleRequest(request, false, (info?.remoteAddr as Deno.NetAddr | undefined)?.hostname);
   }
 };
 
+// 供测试使用
+export {
+  CiaoCorsServer,
+  CidrTrie,
+  formatIPAddress,
+  isRestrictedAddress,
+  loadConfig,
+  MemoryStateStore,
+  parseIPAddress,
+  performProxy,
+  RATE_LIMIT_ALGORITHMS,
+  resolveTarget,
+  Tracer
+};
+
 // 如果直接运行，启动服务
 if (import.meta.main) {
   main();
@@ -0,0 +1,249 @@
+import assert from 'node:assert/strict';
+import {
+  CiaoCorsServer,
+  CidrTrie,
+  formatIPAddress,
+  isRestrictedAddress,
+  loadConfig,
+  MemoryStateStore,
+  parseIPAddress,
+  performProxy,
+  RATE_LIMIT_ALGORITHMS,
+  resolveTarget,
+  Tracer
+} from './server.ts';
+
+// 本地的OTLP收集器记录导出的span，上游记录收到的traceparent
+Deno.test('Tracer exports spans to the collector and forwards traceparent upstream', async () => {
+  let resolveExport: (body: any) => void;
+  const exported = new Promise<any>(resolve => resolveExport = resolve);
+  const collector = Deno.serve({ hostname: '127.0.0.1', port: 0, onListen() {} }, async request => {
+    assert.equal(request.method, 'POST');
+    assert.equal(new URL(request.url).pathname, '/v1/traces');
+    resolveExport(await request.json());
+    return new Response(null, { status: 200 });
+  });
+
+  let traceparent: string | null = null;
+  const upstream = Deno.serve({ hostname: '127.0.0.1', port: 0, onListen() {} }, request => {
+    traceparent = request.headers.get('traceparent');
+    return new Response('ok');
+  });
+
+  const tracer = new Tracer(`http://127.0.0.1:${collector.addr.port}/v1/traces`);
+  try {
+    const span = tracer.startSpan('GET', null, 'server');
+    const response = await performProxy(new Request('http://proxy.test/'),
+      `http://127.0.0.1:${upstream.addr.port}/`, loadConfig(), { span });
+    assert.equal(await response.text(), 'ok');
+    span.end();
+    tracer.cleanup();
+
+    const body = await exported;
+    const resource = body.resourceSpans[0];
+    assert.deepEqual(resource.resource.attributes.find((attribute: any) => attribute.key === 'service.name'),
+      { key: 'service.name', value: { stringValue: 'ciao-cors' } });
+
+    const spans: any[] = resource.scopeSpans[0].spans;
+    assert.equal(spans.length, 2);
+    const server = spans.find(item => item.name === 'GET');
+    const attempt = spans.find(item => item.name === 'upstream attempt');
+    assert.ok(server && attempt);
+    assert.equal(server.parentSpanId, undefined);
+    assert.equal(attempt.traceId, server.traceId);
+    assert.equal(attempt.parentSpanId, server.spanId);
+    assert.equal(attempt.status.code, 1);
+    assert.deepEqual(attempt.attributes.find((attribute: any) => attribute.key === 'http.response.status_code'),
+      { key: 'http.response.status_code', value: { intValue: '200' } });
+
+    // 上游收到的traceparent指向这次尝试的span
+    assert.equal(traceparent, `00-${attempt.traceId}-${attempt.spanId}-01`);
+  } finally {
+    tracer.cleanup();
+    await collector.shutdown();
+    await upstream.shutdown();
+  }
+});
+
+// 可信调用方按连接地址判断，转发头部只在连接来自 TRUSTED_PROXIES 时采用
+Deno.test('Trusted callers are identified by the connection address, not forwarding headers', async () => {
+  Deno.env.set('TRUSTED_CALLERS', '10.0.0.5');
+  Deno.env.set('TRUSTED_PROXIES', '192.0.2.1');
+  const server = new CiaoCorsServer(loadConfig(), new MemoryStateStore());
+  const requestId = async (remoteAddr: string, forwardedFor?: string) => {
+    const headers = new Headers({ 'X-Request-Id': 'caller-id' });
+    if (forwardedFor) headers.set('X-Forwarded-For', forwardedFor);
+    const response = await server.handleRequest(new Request('http://proxy.test/health', { headers }), false, remoteAddr);
+    await response.body?.cancel();
+    return response.headers.get('X-Request-Id');
+  };
+
+  try {
+    assert.equal(await requestId('10.0.0.5'), 'caller-id');
+    assert.notEqual(await requestId('198.51.100.7', '10.0.0.5'), 'caller-id');
+    assert.equal(await requestId('192.0.2.1', '10.0.0.5'), 'caller-id');
+    // 客户端在可信代理之前自己添加的地址不被采用
+    assert.notEqual(await requestId('192.0.2.1', '10.0.0.5, 198.51.100.7'), 'caller-id');
+  } finally {
+    await server.cleanup();
+    Deno.env.delete('TRUSTED_CALLERS');
+    Deno.env.delete('TRUSTED_PROXIES');
+  }
+});
+
+// IPv4地址的inet_aton写法都按同一个地址解析
+Deno.test('parseIPAddress accepts every inet_aton form of an IPv4 address', () => {
+  for (const input of ['127.0.0.1', '2130706433', '0x7f000001', '0x7f.1', '0177.0.0.1', '127.1', '127.0.1', '127.0.0.1.']) {
+    const address = parseIPAddress(input);
+    assert.ok(address, input);
+    assert.equal(formatIPAddress(address), '127.0.0.1', input);
+  }
+  for (const input of ['256.0.0.1', '1.2.3.4.5', '0x1.0x100.1.1', '4294967296', '08.0.0.1', '1..1', 'example.com']) {
+    assert.equal(parseIPAddress(input), null, input);
+  }
+});
+
+Deno.test('isRestrictedAddress checks IPv4 addresses embedded in IPv6 addresses', () => {
+  const restricted = (input: string) => isRestrictedAddress(parseIPAddress(input)!);
+  assert.ok(restricted('::ffff:127.0.0.1'));
+  assert.ok(restricted('::ffff:7f00:1'));
+  assert.ok(restricted('[::ffff:a9fe:a9fe]'));
+  assert.ok(restricted('64:ff9b::a00:1'));
+  assert.ok(restricted('2002:c0a8:101::1'));
+  assert.ok(restricted('fe80::1%eth0'));
+  assert.ok(!restricted('::ffff:8.8.8.8'));
+  assert.ok(!restricted('2606:4700::1111'));
+});
+
+Deno.test('CidrTrie matches addresses and networks of both versions', () => {
+  const trie = new CidrTrie();
+  assert.ok(trie.add('192.168.1.0/24'));
+  assert.ok(trie.add('10.1.0.0/16'));
+  assert.ok(trie.add('10.0.0.0/8'));
+  assert.ok(trie.add('203.0.113.7'));
+  assert.ok(trie.add('2001:db8::/32'));
+  assert.ok(!trie.add('10.0.0.0/33'));
+  assert.ok(!trie.add('not-an-ip'));
+  assert.equal(trie.size, 5);
+
+  assert.ok(trie.matches('192.168.1.77'));
+  assert.ok(!trie.matches('192.168.2.1'));
+  // 后加入的短前缀覆盖已有的长前缀
+  assert.ok(trie.matches('10.2.3.4'));
+  assert.ok(trie.matches('203.0.113.7'));
+  assert.ok(!trie.matches('203.0.113.8'));
+  assert.ok(trie.matches('2001:db8::1'));
+  assert.ok(!trie.matches('2001:db9::1'));
+  // IPv4映射的IPv6地址按IPv4规则检查
+  assert.ok(trie.matches('::ffff:192.168.1.1'));
+  assert.ok(!trie.matches('::ffff:192.168.2.1'));
+  assert.ok(!trie.matches('garbage'));
+});
+
+Deno.test('resolveTarget rejects hosts that resolve to any private address', async () => {
+  const config = loadConfig();
+  const resolver = (addresses: string[]) => ({ resolve: () => Promise.resolve(addresses) }) as any;
+
+  const mixed = await resolveTarget('http://rebind.test/', config, resolver(['93.184.216.34', '10.0.0.1']));
+  assert.equal(mixed.valid, false);
+  assert.equal(mixed.ssrf, true);
+
+  const mapped = await resolveTarget('http://mapped.test/', config, resolver(['::ffff:169.254.169.254']));
+  assert.equal(mapped.valid, false);
+
+  const unresolved = await resolveTarget('http://missing.test/', config, resolver([]));
+  assert.equal(unresolved.valid, false);
+  assert.equal(unresolved.status, 502);
+
+  // 全部是公网地址时优先固定到IPv4地址
+  const allowed = await resolveTarget('http://public.test/', config, resolver(['2606:2800:220:1::1', '93.184.216.34']));
+  assert.deepEqual(allowed, { valid: true, address: '93.184.216.34' });
+
+  // URL中的IP字面量不经过DNS解析
+  const literal = await resolveTarget('http://2130706433/', config, resolver(['93.184.216.34']));
+  assert.equal(literal.valid, false);
+  assert.equal(literal.ssrf, true);
+});
+
+// 每一跳重定向都重新检查目标：上游把请求重定向到内网地址时不会跟随
+Deno.test('Redirects to private addresses are blocked at each hop', async () => {
+  const requested: string[] = [];
+  const upstream = Deno.serve({ hostname: '127.0.0.1', port: 0, onListen() {} }, request => {
+    const url = new URL(request.url);
+    requested.push(`${request.headers.get('host')}${url.pathname}`);
+    const location = { '/to-public': 'http://next.test/ok', '/to-private': 'http://internal.test/secret',
+      '/to-literal': 'http://169.254.169.254/latest/meta-data/' }[url.pathname];
+    return location ? new Response(null, { status: 302, headers: { Location: location } }) : new Response('ok');
+  });
+
+  Deno.env.set('REQUIRE_HEADERS', 'false');
+  const server = new CiaoCorsServer(loadConfig(), new MemoryStateStore());
+  // 公网域名解析到文档示例之外的公网地址，连接统一落到本地上游
+  const addresses: Record<string, string> = { 'public.test': '93.184.216.34', 'next.test': '93.184.216.35', 'internal.test': '10.0.0.1' };
+  const client = Deno.createHttpClient({ proxy: { transport: 'tcp', hostname: '127.0.0.1', port: upstream.addr.port } });
+  const target = server as any;
+  target.pinnedClients?.destroy();
+  target.dnsResolver = { resolve: (hostname: string) => Promise.resolve(addresses[hostname] ? [addresses[hostname]] : []) };
+  target.pinnedClients = {
+    acquire: () => ({ client, release() {}, timedOutSince: () => false }),
+    configure() {},
+    getStats: () => ({ clients: 1, activeRequests: 0 }),
+    destroy() {}
+  };
+  const proxy = async (path: string) => {
+    const response = await server.handleRequest(new Request(`http://proxy.test/http://public.test${path}`), false, '198.51.100.7');
+    return { status: response.status, body: await response.text() };
+  };
+
+  try {
+    assert.deepEqual(await proxy('/to-public'), { status: 200, body: 'ok' });
+    assert.deepEqual(requested, ['public.test/to-public', 'next.test/ok']);
+
+    requested.length = 0;
+    const toPrivate = await proxy('/to-private');
+    assert.equal(toPrivate.status, 403);
+    assert.match(toPrivate.body, /Redirect blocked/);
+    assert.deepEqual(requested, ['public.test/to-private']);
+
+    requested.length = 0;
+    const toLiteral = await proxy('/to-literal');
+    assert.equal(toLiteral.status, 403);
+    assert.match(toLiteral.body, /Redirect blocked/);
+    assert.deepEqual(requested, ['public.test/to-literal']);
+  } finally {
+    await server.cleanup();
+    client.close();
+    await upstream.shutdown();
+    Deno.env.delete('REQUIRE_HEADERS');
+  }
+});
+
+// 按给定时间依次消耗配额，返回每次是否允许
+function consumeAt(name: 'sliding-window' | 'token-bucket' | 'gcra', limit: number, windowMs: number, times: number[]) {
+  let state: any;
+  return times.map(now => {
+    const consumed = RATE_LIMIT_ALGORITHMS[name].consume(state, now, limit, windowMs);
+    state = consumed.state;
+    return consumed.result;
+  });
+}
+
+Deno.test('Sliding window weights the previous window by its remaining share', () => {
+  const results = consumeAt('sliding-window', 3, 1000, [10000, 10100, 10200, 10300, 11500, 11500]);
+  assert.deepEqual(results.map(result => result.allowed), [true, true, true, false, true, false]);
+  assert.ok(results[3].retryAfterMs > 0);
+  assert.equal(results[2].remaining, 0);
+});
+
+Deno.test('Token bucket allows a burst and refills at a steady rate', () => {
+  const results = consumeAt('token-bucket', 2, 1000, [0, 0, 0, 500, 500]);
+  assert.deepEqual(results.map(result => result.allowed), [true, true, false, true, false]);
+  assert.equal(results[2].retryAfterMs, 500);
+  assert.equal(results[1].remaining, 0);
+});
+
+Deno.test('GCRA spaces requests evenly after the burst', () => {
+  const results = consumeAt('gcra', 2, 1000, [0, 0, 0, 500, 500, 1000]);
+  assert.deepEqual(results.map(result => result.allowed), [true, true, false, true, false, true]);
+  assert.equal(results[2].retryAfterMs, 500);
+});